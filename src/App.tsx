@@ -9,8 +9,16 @@ import DebugControllerProvider from './components/ui/DebugController';
 import Home from './pages/Home';
 import SignUp from './pages/SignUp';
 import SignIn from './pages/SignIn';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
 import Dashboard from './pages/Dashboard';
 import JobDetails from './pages/JobDetails';
+import Interviews from './pages/Interviews';
+import Matches from './pages/Matches';
+import Applications from './pages/Applications';
+import SavedJobs from './pages/SavedJobs';
+import CandidateProfile from './pages/CandidateProfile';
+import CompanyProfile from './pages/CompanyProfile';
 import AuthCallback from './components/AuthCallback';
 import UnifiedProfileExperience from './pages/UnifiedProfileExperience';
 
@@ -47,6 +55,8 @@ function App() {
                   <Route path="/" element={<Home />} />
                   <Route path="/signup" element={<SignUp />} />
                   <Route path="/signin" element={<SignIn />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
                   <Route path="/auth/callback" element={<AuthCallback />} />
 
                   {/* Protected routes with intelligent routing */}
@@ -78,6 +88,15 @@ function App() {
                     }
                   />
 
+                  <Route
+                    path="/profile/:section"
+                    element={
+                      <PrivateRoute>
+                        <UnifiedProfileExperience initialMode="profile" />
+                      </PrivateRoute>
+                    }
+                  />
+
                   {/* Dashboard and other app routes */}
                   <Route
                     path="/dashboard"
@@ -97,6 +116,69 @@ function App() {
                     }
                   />
 
+                  <Route
+                    path="/matches"
+                    element={
+                      <PrivateRoute>
+                        <Matches />
+                      </PrivateRoute>
+                    }
+                  />
+
+                  <Route
+                    path="/applications"
+                    element={
+                      <PrivateRoute>
+                        <Applications />
+                      </PrivateRoute>
+                    }
+                  />
+
+                  <Route
+                    path="/saved"
+                    element={
+                      <PrivateRoute>
+                        <SavedJobs />
+                      </PrivateRoute>
+                    }
+                  />
+
+                  <Route
+                    path="/interviews"
+                    element={
+                      <PrivateRoute>
+                        <Interviews />
+                      </PrivateRoute>
+                    }
+                  />
+
+                  <Route
+                    path="/interviews/:interviewId"
+                    element={
+                      <PrivateRoute>
+                        <Interviews />
+                      </PrivateRoute>
+                    }
+                  />
+
+                  <Route
+                    path="/candidates/:candidateId"
+                    element={
+                      <PrivateRoute>
+                        <CandidateProfile />
+                      </PrivateRoute>
+                    }
+                  />
+
+                  <Route
+                    path="/companies/:companyId"
+                    element={
+                      <PrivateRoute>
+                        <CompanyProfile />
+                      </PrivateRoute>
+                    }
+                  />
+
                   {/* Fallback redirect */}
                   <Route path="*" element={<Navigate to="/dashboard" replace />} />
                 </Routes>
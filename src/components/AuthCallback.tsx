@@ -3,6 +3,8 @@ import { useUser } from '../contexts/UserContext';
 import { supabase } from '../lib/supabase';
 import LoadingScreen from './ui/LoadingScreen';
 import { useNavigation } from '../hooks/useNavigation';
+import { clearPendingReferralCode, getPendingReferralCode } from '../lib/referrals';
+import { ReferralService } from '../services/referralService';
 
 const AuthCallback: React.FC = () => {
   const { goTo } = useNavigation();
@@ -75,9 +77,17 @@ const AuthCallback: React.FC = () => {
       }
     };
     
+    // Credit the friend who referred a new candidate, from the code they signed up with
+    const claimPendingReferral = async (code: string) => {
+      const { error } = await ReferralService.claimReferral(code);
+      if (!error) clearPendingReferralCode();
+    };
+    
     // If not loading and we have a user, they've been authenticated
     if (!isLoading && user) {
       console.log('%c AuthCallback: User authenticated, checking onboarding status', 'background: #035; color: yellow');
+      const referralCode = getPendingReferralCode(user);
+      if (referralCode) claimPendingReferral(referralCode);
       checkUserOnboarding(user.id);
     } 
     // If not loading and no user, something went wrong
@@ -7,6 +7,11 @@ interface ChatInterfaceProps {
   messages: InterviewMessage[];
   onSendMessage: (message: string) => void;
   isLoading?: boolean;
+  // Partial AI reply while it's still streaming in
+  streamingMessage?: string;
+  disabled?: boolean;
+  // Show the transcript without a message box, e.g. for a finished interview
+  readOnly?: boolean;
   placeholder?: string;
 }
 
@@ -14,6 +19,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages,
   onSendMessage,
   isLoading = false,
+  streamingMessage = '',
+  disabled = false,
+  readOnly = false,
   placeholder = 'Type your message...',
 }) => {
   const [input, setInput] = useState('');
@@ -21,7 +29,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim() && !isLoading) {
+    if (input.trim() && !isLoading && !disabled) {
       onSendMessage(input.trim());
       setInput('');
     }
@@ -33,7 +41,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingMessage]);
 
   return (
     <div className="flex flex-col h-full bg-gray-900 rounded-lg overflow-hidden border border-gray-800">
@@ -72,7 +80,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && streamingMessage && (
+          <div className="flex justify-start">
+            <div className="bg-gray-800 text-gray-200 rounded-lg p-3 rounded-tl-none max-w-[80%]">
+              <div className="flex items-center mb-1">
+                <BotMessageSquare className="h-4 w-4 mr-2 text-purple-400" />
+                <span className="text-xs font-medium">RightBoss AI</span>
+              </div>
+              <div className="text-sm whitespace-pre-wrap">
+                {streamingMessage}
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-purple-500 animate-pulse" />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading && !streamingMessage && (
           <div className="flex justify-start">
             <div className="bg-gray-800 rounded-lg p-3 rounded-tl-none max-w-[80%]">
               <div className="flex items-center">
@@ -91,26 +114,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <div ref={messagesEndRef} />
       </div>
       
-      <form onSubmit={handleSubmit} className="border-t border-gray-800 p-4">
-        <div className="flex space-x-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder={placeholder}
-            disabled={isLoading}
-            className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
-          />
-          <Button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            variant="primary"
-            gradient
-          >
-            <Send className="h-5 w-5" />
-          </Button>
-        </div>
-      </form>
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="border-t border-gray-800 p-4">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={placeholder}
+              disabled={isLoading || disabled}
+              className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <Button
+              type="submit"
+              disabled={!input.trim() || isLoading || disabled}
+              variant="primary"
+              gradient
+            >
+              <Send className="h-5 w-5" />
+            </Button>
+          </div>
+        </form>
+      )}
     </div>
   );
 };
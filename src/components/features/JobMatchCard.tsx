@@ -1,8 +1,9 @@
-import React from 'react';
-import { Clock, CheckCircle2, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { Clock, CheckCircle2, X, ChevronDown, ChevronUp } from 'lucide-react';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import { ProgressBar } from '../ui/ProgressBar';
+import MatchBreakdown from './MatchBreakdown';
 import { JobMatch } from '../../types';
 
 interface JobMatchCardProps {
@@ -18,6 +19,8 @@ const JobMatchCard: React.FC<JobMatchCardProps> = ({
   onAccept,
   onDecline,
 }) => {
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
   const getStatusIcon = () => {
     switch (jobMatch.status) {
       case 'active':
@@ -79,6 +82,21 @@ const JobMatchCard: React.FC<JobMatchCardProps> = ({
             showValue={true}
             color="gradient"
           />
+          {jobMatch.breakdown && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowBreakdown(!showBreakdown)}
+                className="flex items-center mt-2 text-xs text-purple-400 hover:text-purple-300"
+              >
+                Why this match?
+                {showBreakdown ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+              </button>
+              {showBreakdown && (
+                <MatchBreakdown breakdown={jobMatch.breakdown} compact className="mt-3" />
+              )}
+            </>
+          )}
         </div>
         
         {jobMatch.status === 'pending' && (
@@ -0,0 +1,58 @@
+import React from 'react';
+import { CheckCircle2, MinusCircle, XCircle } from 'lucide-react';
+import { MatchBreakdown as MatchBreakdownData } from '../../types';
+
+interface MatchBreakdownProps {
+  breakdown: MatchBreakdownData;
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Explains a match score factor by factor
+ */
+const MatchBreakdown: React.FC<MatchBreakdownProps> = ({
+  breakdown,
+  compact = false,
+  className = '',
+}) => {
+  // Factors the job doesn't specify add noise in the compact view
+  const factors = compact
+    ? breakdown.factors.filter(factor => factor.applicable)
+    : breakdown.factors;
+
+  const getFactorIcon = (score: number) => {
+    if (score >= 75) return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    if (score >= 40) return <MinusCircle className="h-4 w-4 text-yellow-500 flex-shrink-0" />;
+    return <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+  };
+
+  return (
+    <ul className={`space-y-3 ${className}`}>
+      {factors.map(factor => (
+        <li key={factor.id} className={factor.applicable ? '' : 'opacity-60'}>
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center">
+              {getFactorIcon(factor.score)}
+              <span className="ml-2 text-gray-200 font-medium">{factor.label}</span>
+            </div>
+            {factor.applicable && (
+              <span className="text-gray-400">{factor.score}%</span>
+            )}
+          </div>
+          <p className={`text-gray-400 ml-6 ${compact ? 'text-xs' : 'text-sm'}`}>{factor.reason}</p>
+          {!compact && factor.applicable && (
+            <div className="ml-6 mt-1 h-1 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-purple-600 to-pink-500"
+                style={{ width: `${factor.score}%` }}
+              />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MatchBreakdown;
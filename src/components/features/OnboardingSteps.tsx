@@ -1,51 +1,43 @@
 import React from 'react';
 import { CheckCircle2, ChevronRight, ChevronLeft } from 'lucide-react';
 import { OnboardingStep } from '../../types';
+import { OnboardingState, canGoToStep, getOnboardingProgress } from '../../lib/onboarding';
 import Button from '../ui/Button';
 
-interface OnboardingStepConfig {
-  id: OnboardingStep;
-  title: string;
-  description: string;
-  icon?: React.ReactNode;
-  isOptional?: boolean;
-  estimatedTime?: string;
-}
-
 interface OnboardingStepsProps {
-  steps: OnboardingStepConfig[];
-  currentStep: OnboardingStep;
-  completedSteps: OnboardingStep[];
+  state: OnboardingState;
+  // Only called for steps the onboarding machine allows opening
   onStepChange?: (step: OnboardingStep) => void;
   showNavigation?: boolean;
   showProgress?: boolean;
-  showTimeEstimate?: boolean;
   className?: string;
 }
 
+/**
+ * The profile sections of an onboarding flow as a vertical checklist
+ */
 const OnboardingSteps: React.FC<OnboardingStepsProps> = ({
-  steps,
-  currentStep,
-  completedSteps,
+  state,
   onStepChange,
   showNavigation = true,
   showProgress = true,
-  showTimeEstimate = true,
   className = ''
 }) => {
-  const currentIndex = steps.findIndex(step => step.id === currentStep);
-  const totalSteps = steps.length;
-  const progress = ((completedSteps.length / totalSteps) * 100).toFixed(0);
+  const { sections: steps, index: currentIndex, percent: progress } = getOnboardingProgress(state);
+  const previousStep = steps[currentIndex - 1];
+  const nextStep = currentIndex === -1 ? undefined : steps[currentIndex + 1];
+  const canGoBack = !!previousStep && canGoToStep(state, previousStep.id);
+  const canGoForward = !!nextStep && canGoToStep(state, nextStep.id);
 
   const handleNext = () => {
-    if (currentIndex < totalSteps - 1) {
-      onStepChange?.(steps[currentIndex + 1].id);
+    if (canGoForward) {
+      onStepChange?.(nextStep.id);
     }
   };
 
   const handlePrevious = () => {
-    if (currentIndex > 0) {
-      onStepChange?.(steps[currentIndex - 1].id);
+    if (canGoBack) {
+      onStepChange?.(previousStep.id);
     }
   };
 
@@ -70,8 +62,8 @@ const OnboardingSteps: React.FC<OnboardingStepsProps> = ({
       {/* Steps */}
       <div className="space-y-6">
         {steps.map((step, index) => {
-          const isCompleted = completedSteps.includes(step.id);
-          const isCurrent = currentStep === step.id;
+          const isCompleted = state.completed.includes(step.id);
+          const isCurrent = state.current === step.id;
           const isUpcoming = !isCompleted && !isCurrent;
           
           return (
@@ -90,8 +82,6 @@ const OnboardingSteps: React.FC<OnboardingStepsProps> = ({
                   >
                     {isCompleted ? (
                       <CheckCircle2 className="h-6 w-6" />
-                    ) : step.icon ? (
-                      step.icon
                     ) : (
                       <span className="text-lg font-semibold">{index + 1}</span>
                     )}
@@ -115,13 +105,10 @@ const OnboardingSteps: React.FC<OnboardingStepsProps> = ({
                       }`}
                     >
                       {step.title}
-                      {step.isOptional && (
+                      {!step.required && (
                         <span className="ml-2 text-xs text-gray-500">(Optional)</span>
                       )}
                     </h3>
-                    {showTimeEstimate && step.estimatedTime && (
-                      <span className="text-xs text-gray-500">{step.estimatedTime}</span>
-                    )}
                   </div>
                   <p
                     className={`mt-1 text-sm transition-colors duration-300 ${
@@ -144,7 +131,7 @@ const OnboardingSteps: React.FC<OnboardingStepsProps> = ({
             variant="outline"
             size="sm"
             onClick={handlePrevious}
-            disabled={currentIndex === 0}
+            disabled={!canGoBack}
             leftIcon={<ChevronLeft className="h-4 w-4" />}
           >
             Previous
@@ -153,7 +140,7 @@ const OnboardingSteps: React.FC<OnboardingStepsProps> = ({
             variant="primary"
             size="sm"
             onClick={handleNext}
-            disabled={currentIndex === totalSteps - 1}
+            disabled={!canGoForward}
             rightIcon={<ChevronRight className="h-4 w-4" />}
           >
             Next
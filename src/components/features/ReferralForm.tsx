@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Check, Copy, Mail, MailCheck, X } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { referralLink } from '../../lib/referrals';
+import { NewReferral } from '../../services/referralService';
+import { Company, Referral } from '../../types';
+
+interface ReferralFormProps {
+  company: Company;
+  isSubmitting?: boolean;
+  error?: string | null;
+  // Creates the referral and emails the friend their invitation
+  onSubmit: (referral: NewReferral) => Promise<Referral | null>;
+  // Tries the email again when it failed
+  onSendInvitation: (referralId: string) => Promise<Date | null>;
+  onClose: () => void;
+}
+
+/**
+ * Refers a friend to a company and emails them their invitation. The link
+ * can be copied too, to share some other way.
+ */
+const ReferralForm: React.FC<ReferralFormProps> = ({
+  company,
+  isSubmitting = false,
+  error,
+  onSubmit,
+  onSendInvitation,
+  onClose,
+}) => {
+  const [refereeName, setRefereeName] = useState('');
+  const [refereeEmail, setRefereeEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [referral, setReferral] = useState<Referral | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await onSubmit({ companyId: company.id, refereeEmail, refereeName, message });
+    if (created) setReferral(created);
+  };
+
+  const handleSendInvitation = async () => {
+    if (!referral) return;
+    const sentAt = await onSendInvitation(referral.id);
+    if (sentAt) setReferral({ ...referral, invitationSentAt: sentAt });
+  };
+
+  const handleCopy = async () => {
+    if (!referral) return;
+    try {
+      await navigator.clipboard.writeText(referralLink(referral.code));
+      setCopied(true);
+    } catch (err) {
+      console.error('ReferralForm: Error copying referral link:', err);
+    }
+  };
+
+  return (
+    <Card bordered className="p-4 sm:p-6">
+      <div className="flex justify-between items-start mb-4">
+        <h3 className="text-lg font-semibold text-white">Refer a friend to {company.name}</h3>
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {referral ? (
+        <div className="space-y-4">
+          {referral.invitationSentAt ? (
+            <p className="flex items-center gap-2 text-sm text-gray-300">
+              <MailCheck className="h-4 w-4 text-green-500 flex-shrink-0" />
+              We've emailed {referral.refereeName || referral.refereeEmail} their invitation. When they sign
+              up with it, you'll see how they get on here.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-300">
+              We couldn't email {referral.refereeName || referral.refereeEmail} their invitation. Try again,
+              or copy the link and send it yourself.
+            </p>
+          )}
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-gray-800 text-sm text-gray-300">
+            <span className="flex-1 truncate">{referralLink(referral.code)}</span>
+            <span className="font-mono text-purple-300">{referral.code}</span>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {!referral.invitationSentAt && (
+              <Button
+                variant="primary"
+                size="sm"
+                gradient
+                leftIcon={<Mail className="h-4 w-4" />}
+                isLoading={isSubmitting}
+                onClick={handleSendInvitation}
+              >
+                Send Invitation
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              onClick={handleCopy}
+            >
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Friend's Name"
+            value={refereeName}
+            onChange={(e) => setRefereeName(e.target.value)}
+            placeholder="Their name"
+          />
+          <Input
+            label="Friend's Email"
+            type="email"
+            value={refereeEmail}
+            onChange={(e) => setRefereeEmail(e.target.value)}
+            placeholder="friend@example.com"
+            required
+          />
+          <div>
+            <label htmlFor="referral-message" className="block text-sm font-medium text-gray-300 mb-1">
+              Message (optional)
+            </label>
+            <textarea
+              id="referral-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              placeholder={`Why they'd be a great fit at ${company.name}`}
+              className="w-full px-3 py-2 bg-gray-900 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" gradient isLoading={isSubmitting} disabled={!refereeEmail.trim()}>
+              Send Invitation
+            </Button>
+          </div>
+        </form>
+      )}
+    </Card>
+  );
+};
+
+export default ReferralForm;
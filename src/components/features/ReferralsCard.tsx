@@ -0,0 +1,111 @@
+import React from 'react';
+import { Gift } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import { REFERRAL_STATUSES, REFERRAL_STATUS_LABELS } from '../../lib/referrals';
+import { Referral } from '../../types';
+
+interface ReferralsCardProps {
+  // Most recent first
+  referrals: Referral[];
+  isLoading?: boolean;
+  error?: string | null;
+  // Emails an invitation that couldn't be sent when the referral was made
+  onSendInvitation?: (referralId: string) => void;
+  onCancel?: (referralId: string) => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * The friends the candidate has referred and how far each has got:
+ * invited, signed up, matched with a job at the company, or applied
+ */
+const ReferralsCard: React.FC<ReferralsCardProps> = ({
+  referrals,
+  isLoading = false,
+  error,
+  onSendInvitation,
+  onCancel,
+}) => {
+  const renderReferral = (referral: Referral) => {
+    const reached = REFERRAL_STATUSES.indexOf(referral.status);
+    const changedAt = referral.statusChangedAt[referral.status];
+
+    return (
+      <li key={referral.id} className="p-3 rounded-lg bg-gray-800/50">
+        <div className="flex justify-between items-start gap-3">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-white truncate">{referral.refereeName || referral.refereeEmail}</p>
+            <p className="text-xs text-gray-400">{referral.company.name}</p>
+          </div>
+          <span className="text-xs text-purple-300 whitespace-nowrap">{REFERRAL_STATUS_LABELS[referral.status]}</span>
+        </div>
+
+        <div className="flex gap-1 mt-2" aria-hidden="true">
+          {REFERRAL_STATUSES.map((status, index) => (
+            <div
+              key={status}
+              className={`h-1 flex-1 rounded-full ${index <= reached ? 'bg-purple-500' : 'bg-gray-700'}`}
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center mt-2">
+          {changedAt && <span className="text-xs text-gray-500">{formatDate(changedAt)}</span>}
+          {/* A sent invitation can't be taken back, so only unsent ones can be cancelled */}
+          {referral.status === 'invited' && !referral.invitationSentAt && (
+            <div className="flex gap-1 ml-auto">
+              {onSendInvitation && (
+                <Button variant="ghost" size="sm" onClick={() => onSendInvitation(referral.id)}>
+                  Send Invitation
+                </Button>
+              )}
+              {onCancel && (
+                <Button variant="ghost" size="sm" onClick={() => onCancel(referral.id)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-gray-400 text-sm">Loading your referrals...</p>;
+    }
+
+    if (referrals.length === 0) {
+      return (
+        <p className="text-gray-400 text-sm">
+          Refer a friend to one of the companies you're matched with, and follow how they get on here.
+        </p>
+      );
+    }
+
+    return <ul className="space-y-3">{referrals.map(renderReferral)}</ul>;
+  };
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-white">Your Referrals</h2>
+        <Gift className="h-5 w-5 text-gray-400" />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {renderBody()}
+    </Card>
+  );
+};
+
+export default ReferralsCard;
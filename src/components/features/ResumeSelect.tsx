@@ -0,0 +1,51 @@
+import React from 'react';
+import { Resume } from '../../types';
+
+interface ResumeSelectProps {
+  resumes: Resume[];
+  // The selected resume version, or null for none
+  value: string | null;
+  onChange: (resumeVersionId: string | null) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+/**
+ * Picks the resume to send with an application. Choosing a resume selects
+ * its latest version; an older version that's already attached stays listed.
+ */
+const ResumeSelect: React.FC<ResumeSelectProps> = ({ resumes, value, onChange, disabled = false, id }) => {
+  const options = resumes
+    .filter(resume => resume.versions.length > 0)
+    .map(resume => ({
+      versionId: resume.versions[0].id,
+      label: `${resume.name}${resume.isPrimary ? ' (primary)' : ''}`,
+    }));
+
+  if (value && !options.some(option => option.versionId === value)) {
+    const resume = resumes.find(item => item.versions.some(version => version.id === value));
+    const version = resume?.versions.find(item => item.id === value);
+    if (resume && version) {
+      options.push({ versionId: version.id, label: `${resume.name} (v${version.version})` });
+    }
+  }
+
+  return (
+    <select
+      id={id}
+      className="w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md disabled:opacity-50"
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+    >
+      <option value="">No resume</option>
+      {options.map(option => (
+        <option key={option.versionId} value={option.versionId}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default ResumeSelect;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { CheckCircle2, TrendingUp } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import SkillRadarChart from './SkillRadarChart';
+import { SkillAssessmentRecord } from '../../types';
+
+interface SkillAssessmentCardProps {
+  // Newest first
+  assessments: SkillAssessmentRecord[];
+  isLoading?: boolean;
+  error?: string | null;
+  onViewFullAssessment?: () => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * The candidate's interview skill assessment: radar chart, strengths,
+ * areas to improve, and earlier assessments to compare against
+ */
+const SkillAssessmentCard: React.FC<SkillAssessmentCardProps> = ({
+  assessments,
+  isLoading = false,
+  error,
+  onViewFullAssessment,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = assessments.find(assessment => assessment.id === selectedId) || assessments[0];
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-gray-400 text-sm">Loading your assessment...</p>;
+    }
+
+    if (!selected) {
+      return (
+        <p className="text-gray-400 text-sm">
+          Complete your AI interview to see your skills assessment here.
+        </p>
+      );
+    }
+
+    const topSkills = [...selected.skills].sort((a, b) => b.level - a.level).slice(0, 4);
+
+    return (
+      <>
+        <SkillRadarChart
+          skills={selected.skills}
+          size={240}
+          className="mx-auto mb-4 scale-90 sm:scale-100"
+        />
+        <div className="mt-4">
+          <h3 className="text-sm font-medium text-gray-300 mb-2">Top Skills</h3>
+          <div className="flex flex-wrap gap-2">
+            {topSkills.map(skill => (
+              <span
+                key={skill.name}
+                className="px-3 py-1 bg-gray-800 rounded-full text-xs text-gray-300"
+              >
+                {skill.name}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {selected.strengths.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Strengths</h3>
+            <ul className="space-y-1">
+              {selected.strengths.map(strength => (
+                <li key={strength} className="flex items-start text-sm text-gray-400">
+                  <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 text-green-500 flex-shrink-0" />
+                  {strength}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {selected.areasOfImprovement.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Areas to Improve</h3>
+            <ul className="space-y-1">
+              {selected.areasOfImprovement.map(area => (
+                <li key={area} className="flex items-start text-sm text-gray-400">
+                  <TrendingUp className="h-4 w-4 mr-2 mt-0.5 text-yellow-500 flex-shrink-0" />
+                  {area}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {assessments.length > 1 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-300 mb-2">History</h3>
+            <div className="flex flex-wrap gap-2">
+              {assessments.map((assessment, index) => (
+                <button
+                  key={assessment.id}
+                  onClick={() => setSelectedId(assessment.id)}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    assessment.id === selected.id
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {index === 0 ? 'Latest' : formatDate(assessment.createdAt)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <h2 className="text-lg font-semibold text-white mb-4">Skills Assessment</h2>
+
+      {error && (
+        <div className="mb-4 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {renderBody()}
+
+      {onViewFullAssessment && (
+        <Button
+          variant="outline"
+          size="sm"
+          fullWidth
+          className="mt-4"
+          onClick={onViewFullAssessment}
+        >
+          View Full Assessment
+        </Button>
+      )}
+    </Card>
+  );
+};
+
+export default SkillAssessmentCard;
@@ -6,6 +6,7 @@ import Button from '../ui/Button';
 import { useUser } from '../../contexts/UserContext';
 import { supabase } from '../../lib/supabase';
 import { useNavigation } from '../../hooks/useNavigation';
+import { useJobAlerts } from '../../hooks/useJobAlerts';
 
 interface HeaderProps {
   user?: {
@@ -20,6 +21,7 @@ const Header: React.FC<HeaderProps> = ({ user: propUser, simplified = false }) =
   const { goTo, goToDashboard, goToProfile, goToSignIn, goToSignUp } = useNavigation();
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
   const [isProfileOpen, setIsProfileOpen] = React.useState(false);
+  const { unreadCount } = useJobAlerts();
   const location = useLocation();
   const profileRef = React.useRef<HTMLDivElement>(null);
 
@@ -65,13 +67,21 @@ const Header: React.FC<HeaderProps> = ({ user: propUser, simplified = false }) =
     };
   }, []);
 
-  const navLinks = [
+  // A badge counts unread alerts about saved jobs
+  const navLinks: { name: string; onClick: () => void; badge?: number }[] = [
     { name: 'Dashboard', onClick: goToDashboard },
     { name: 'Interviews', onClick: () => goTo('/interviews') },
     { name: 'Matches', onClick: () => goTo('/matches') },
+    { name: 'Saved', onClick: () => goTo('/saved'), badge: unreadCount },
+    { name: 'Applications', onClick: () => goTo('/applications') },
     { name: 'Profile', onClick: () => goToProfile() },
   ];
 
+  const renderBadge = (count?: number) =>
+    count ? (
+      <span className="ml-1.5 px-1.5 py-0.5 rounded-full text-xs bg-purple-600 text-white">{count}</span>
+    ) : null;
+
   // Get display name from profile or user email
   const displayName = profile?.full_name || user?.email || '';
 
@@ -98,13 +108,13 @@ const Header: React.FC<HeaderProps> = ({ user: propUser, simplified = false }) =
                     key={link.name}
                     onClick={link.onClick}
                     className={`px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
-                      location.pathname === `/${link.name.toLowerCase()}` || 
-                      (link.name === 'Profile' && location.pathname.startsWith('/profile'))
+                      location.pathname.startsWith(`/${link.name.toLowerCase()}`)
                         ? 'text-white bg-gray-800'
                         : 'text-gray-300 hover:text-white hover:bg-gray-700'
                     }`}
                   >
                     {link.name}
+                    {renderBadge(link.badge)}
                   </button>
                 ))}
               </nav>
@@ -219,13 +229,13 @@ const Header: React.FC<HeaderProps> = ({ user: propUser, simplified = false }) =
                       setIsMenuOpen(false);
                     }}
                     className={`block w-full text-left px-3 py-2 rounded-md text-base font-medium ${
-                      location.pathname === `/${link.name.toLowerCase()}` || 
-                      (link.name === 'Profile' && location.pathname.startsWith('/profile'))
+                      location.pathname.startsWith(`/${link.name.toLowerCase()}`)
                         ? 'text-white bg-gray-800'
                         : 'text-gray-300 hover:text-white hover:bg-gray-700'
                     }`}
                   >
                     {link.name}
+                    {renderBadge(link.badge)}
                   </button>
                 ))}
                 <button
@@ -0,0 +1,271 @@
+import React, { useRef, useState } from 'react';
+import { Check, Download, Eye, FileText, History, Pencil, Star, Trash2, Upload, X } from 'lucide-react';
+import Input from '../ui/Input';
+import { Resume, ResumeVersion } from '../../types';
+
+interface ResumeListProps {
+  resumes: Resume[];
+  // Resolves to a URL for the version, or null when it can't be opened
+  getFileUrl: (version: ResumeVersion, options?: { download?: boolean }) => Promise<string | null>;
+  onUploadVersion: (resumeId: string, file: File) => void;
+  onRename: (resumeId: string, name: string) => Promise<boolean>;
+  onSetPrimary: (resumeId: string) => void;
+  onDelete: (resumeId: string) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatSize = (bytes?: number) => {
+  if (!bytes) return '';
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const iconButtonClass = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * A candidate's named resumes with their version history. PDFs preview
+ * inline, other files open in a new tab.
+ */
+const ResumeList: React.FC<ResumeListProps> = ({
+  resumes,
+  getFileUrl,
+  onUploadVersion,
+  onRename,
+  onSetPrimary,
+  onDelete,
+  disabled = false,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ versionId: string; url: string } | null>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const versionTargetRef = useRef<string | null>(null);
+
+  const startRename = (resume: Resume) => {
+    setRenamingId(resume.id);
+    setRenameValue(resume.name);
+  };
+
+  const submitRename = async () => {
+    if (!renamingId || !renameValue.trim()) return;
+    if (await onRename(renamingId, renameValue)) {
+      setRenamingId(null);
+    }
+  };
+
+  const handlePreview = async (version: ResumeVersion) => {
+    if (preview?.versionId === version.id) {
+      setPreview(null);
+      return;
+    }
+
+    const url = await getFileUrl(version);
+    if (!url) return;
+
+    if (version.mimeType === 'application/pdf') {
+      setPreview({ versionId: version.id, url });
+    } else {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  const handleDownload = async (version: ResumeVersion) => {
+    const url = await getFileUrl(version, { download: true });
+    if (url) window.location.assign(url);
+  };
+
+  const handleChooseVersionFile = (resumeId: string) => {
+    versionTargetRef.current = resumeId;
+    versionInputRef.current?.click();
+  };
+
+  const handleVersionFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const resumeId = versionTargetRef.current;
+    e.target.value = '';
+    if (file && resumeId) onUploadVersion(resumeId, file);
+  };
+
+  const handleDelete = (resume: Resume) => {
+    if (window.confirm(`Delete "${resume.name}" and all of its versions?`)) {
+      onDelete(resume.id);
+    }
+  };
+
+  const renderVersionActions = (version: ResumeVersion) => (
+    <>
+      <button
+        type="button"
+        onClick={() => handlePreview(version)}
+        className={iconButtonClass}
+        aria-label={`Preview version ${version.version}`}
+      >
+        <Eye className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => handleDownload(version)}
+        className={iconButtonClass}
+        aria-label={`Download version ${version.version}`}
+      >
+        <Download className="w-4 h-4" />
+      </button>
+    </>
+  );
+
+  const renderPreview = (version: ResumeVersion) =>
+    preview?.versionId === version.id && (
+      <iframe
+        src={preview.url}
+        title={version.fileName}
+        className="mt-3 w-full h-[32rem] rounded border border-gray-700 bg-white"
+      />
+    );
+
+  if (resumes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 space-y-3">
+      <input
+        ref={versionInputRef}
+        type="file"
+        accept=".pdf,.doc,.docx"
+        className="hidden"
+        onChange={handleVersionFile}
+      />
+
+      {resumes.map(resume => {
+        const latest = resume.versions[0];
+        const isRenaming = renamingId === resume.id;
+        const showHistory = historyId === resume.id;
+
+        return (
+          <div key={resume.id} className="p-4 bg-gray-800 rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start min-w-0">
+                <FileText className="w-5 h-5 text-gray-400 mr-3 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  {isRenaming ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') submitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        aria-label="Resume name"
+                        autoFocus
+                      />
+                      <button type="button" onClick={submitRename} className={iconButtonClass} aria-label="Save name">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => setRenamingId(null)} className={iconButtonClass} aria-label="Cancel rename">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-gray-200 font-medium flex items-center gap-2">
+                      <span className="truncate">{resume.name}</span>
+                      {resume.isPrimary && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-purple-600/20 text-purple-300">Primary</span>
+                      )}
+                    </p>
+                  )}
+                  {latest && (
+                    <p className="text-gray-500 text-sm truncate">
+                      v{latest.version} · {latest.fileName} · Uploaded {formatDate(latest.createdAt)}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {latest && renderVersionActions(latest)}
+                <button
+                  type="button"
+                  onClick={() => handleChooseVersionFile(resume.id)}
+                  className={iconButtonClass}
+                  disabled={disabled}
+                  aria-label="Upload a new version"
+                  title="Upload a new version"
+                >
+                  <Upload className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startRename(resume)}
+                  className={iconButtonClass}
+                  disabled={disabled}
+                  aria-label="Rename"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                {!resume.isPrimary && (
+                  <button
+                    type="button"
+                    onClick={() => onSetPrimary(resume.id)}
+                    className={iconButtonClass}
+                    disabled={disabled}
+                    aria-label="Make primary"
+                    title="Make primary"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                )}
+                {resume.versions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setHistoryId(showHistory ? null : resume.id)}
+                    className={`${iconButtonClass} ${showHistory ? 'text-purple-400' : ''}`}
+                    aria-label="Version history"
+                    aria-expanded={showHistory}
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleDelete(resume)}
+                  className={`${iconButtonClass} hover:text-red-400`}
+                  disabled={disabled}
+                  aria-label="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {latest && renderPreview(latest)}
+
+            {showHistory && (
+              <ul className="mt-4 border-t border-gray-700 pt-3 space-y-2">
+                {resume.versions.slice(1).map(version => (
+                  <li key={version.id}>
+                    <div className="flex items-center justify-between gap-4 text-sm">
+                      <span className="text-gray-400 truncate">
+                        v{version.version} · {version.fileName}
+                        {version.fileSize ? ` · ${formatSize(version.fileSize)}` : ''} · {formatDate(version.createdAt)}
+                      </span>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {renderVersionActions(version)}
+                      </div>
+                    </div>
+                    {renderPreview(version)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ResumeList;
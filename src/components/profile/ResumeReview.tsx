@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { ResumeSuggestion, ResumeSuggestionGroup } from '../../lib/resume';
+
+interface ResumeReviewProps {
+  suggestions: ResumeSuggestion[];
+  isApplying?: boolean;
+  onApply: (acceptedIds: Set<string>) => void;
+  onDismiss: () => void;
+}
+
+const GROUPS: { id: ResumeSuggestionGroup; title: string; description?: string }[] = [
+  { id: 'contact', title: 'Contact Details' },
+  { id: 'experience', title: 'Work History' },
+  { id: 'education', title: 'Education' },
+  {
+    id: 'skills',
+    title: 'Skills',
+    description: "Added to your skills, or to your most recent position's technologies if they're not in our list",
+  },
+];
+
+/**
+ * Lets the candidate accept or reject each field read from their resume
+ * before anything is merged into their profile
+ */
+const ResumeReview: React.FC<ResumeReviewProps> = ({
+  suggestions,
+  isApplying = false,
+  onApply,
+  onDismiss,
+}) => {
+  // Everything starts accepted, the candidate rejects what's wrong
+  const [rejectedIds, setRejectedIds] = useState<Set<string>>(new Set());
+
+  const setAccepted = (ids: string[], accepted: boolean) => {
+    setRejectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (accepted ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const acceptedIds = new Set(
+    suggestions.filter(suggestion => !rejectedIds.has(suggestion.id)).map(suggestion => suggestion.id)
+  );
+
+  if (suggestions.length === 0) {
+    return (
+      <div className="mt-6 p-4 bg-gray-800 rounded-lg flex items-center justify-between">
+        <p className="text-gray-400 text-sm">
+          We couldn't find anything in your resume that isn't already in your profile.
+        </p>
+        <Button variant="ghost" size="sm" onClick={onDismiss}>
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  const renderSuggestion = (suggestion: ResumeSuggestion) => {
+    const accepted = acceptedIds.has(suggestion.id);
+
+    return (
+      <li
+        key={suggestion.id}
+        className={`flex items-start justify-between gap-4 p-3 rounded-lg border ${
+          accepted ? 'border-purple-500/50 bg-purple-500/10' : 'border-gray-700 bg-gray-900/50'
+        }`}
+      >
+        <div className="min-w-0">
+          {suggestion.group !== 'skills' && (
+            <p className="text-xs text-gray-500">{suggestion.label}</p>
+          )}
+          <p className={`text-sm break-words ${accepted ? 'text-gray-200' : 'text-gray-500 line-through'}`}>
+            {suggestion.value}
+          </p>
+          {suggestion.currentValue && (
+            <p className="text-xs text-gray-500 mt-1">Replaces: {suggestion.currentValue}</p>
+          )}
+          {suggestion.note && <p className="text-xs text-yellow-400 mt-1">{suggestion.note}</p>}
+        </div>
+        <div className="flex gap-1 flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => setAccepted([suggestion.id], true)}
+            className={`p-1.5 rounded ${accepted ? 'bg-green-600 text-white' : 'text-gray-400 hover:text-green-400'}`}
+            aria-label={`Accept ${suggestion.label}`}
+            aria-pressed={accepted}
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setAccepted([suggestion.id], false)}
+            className={`p-1.5 rounded ${!accepted ? 'bg-red-600 text-white' : 'text-gray-400 hover:text-red-400'}`}
+            aria-label={`Reject ${suggestion.label}`}
+            aria-pressed={!accepted}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-800 rounded-lg">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-white">Review Your Resume Details</h3>
+          <p className="text-gray-400 text-sm">
+            Accept the details you'd like to add to your profile and reject anything we got wrong.
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button variant="ghost" size="sm" onClick={() => setAccepted(suggestions.map(s => s.id), true)}>
+            Accept all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setAccepted(suggestions.map(s => s.id), false)}>
+            Reject all
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {GROUPS.map(group => {
+          const groupSuggestions = suggestions.filter(suggestion => suggestion.group === group.id);
+          if (groupSuggestions.length === 0) return null;
+
+          return (
+            <div key={group.id}>
+              <h4 className="text-sm font-medium text-gray-300">{group.title}</h4>
+              {group.description && <p className="text-xs text-gray-500">{group.description}</p>}
+              <ul className={`mt-2 ${group.id === 'skills' ? 'grid grid-cols-1 sm:grid-cols-2 gap-2' : 'space-y-2'}`}>
+                {groupSuggestions.map(renderSuggestion)}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 flex justify-end gap-3">
+        <Button variant="outline" onClick={onDismiss} disabled={isApplying}>
+          Discard
+        </Button>
+        <Button
+          onClick={() => onApply(acceptedIds)}
+          isLoading={isApplying}
+          disabled={acceptedIds.size === 0}
+        >
+          Add {acceptedIds.size} to Profile
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeReview;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Plus, Search, X } from 'lucide-react';
+import Input from '../ui/Input';
+import { CandidateSkill, SkillDefinition } from '../../types';
+import { useSkills } from '../../hooks/useSkills';
+import { PROFICIENCY_LABELS, SKILL_PROFICIENCIES, resolveSkill, searchSkills } from '../../lib/skills';
+
+interface SkillsEditorProps {
+  skills: CandidateSkill[];
+  onChange: (skills: CandidateSkill[]) => void;
+}
+
+const iconButtonClass = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700';
+
+/**
+ * Add skills from the taxonomy and rate each one. Typing an alias, like
+ * "React.js", finds the skill it belongs to.
+ */
+const SkillsEditor: React.FC<SkillsEditorProps> = ({ skills, onChange }) => {
+  const { skills: taxonomy, skillIndex, isLoading, error } = useSkills();
+  const [query, setQuery] = useState('');
+
+  const available = taxonomy.filter(skill => !skills.some(item => item.skillId === skill.id));
+  const suggestions = searchSkills(available, query);
+  const existing = query.trim() ? resolveSkill(skillIndex, query) : undefined;
+  const alreadyAdded = !!existing && skills.some(item => item.skillId === existing.id);
+
+  const addSkill = (skill: SkillDefinition) => {
+    onChange([...skills, { skillId: skill.id, name: skill.name, proficiency: 3 }]);
+    setQuery('');
+  };
+
+  const updateSkill = (skillId: string, changes: Partial<CandidateSkill>) => {
+    onChange(skills.map(skill => (skill.skillId === skillId ? { ...skill, ...changes } : skill)));
+  };
+
+  const removeSkill = (skillId: string) => {
+    onChange(skills.filter(skill => skill.skillId !== skillId));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    // An exact name or alias wins over the first suggestion
+    const skill = existing && !alreadyAdded ? existing : suggestions[0];
+    if (skill) addSkill(skill);
+  };
+
+  const handleYearsChange = (skillId: string, value: string) => {
+    const years = Number(value);
+    updateSkill(skillId, {
+      yearsOfExperience: value === '' || !Number.isFinite(years) ? undefined : Math.max(0, Math.min(years, 60)),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Input
+          placeholder={isLoading ? 'Loading skills...' : 'Search skills, e.g. React or Kubernetes'}
+          leftIcon={<Search className="h-5 w-5" />}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isLoading}
+          aria-label="Search skills"
+        />
+
+        {query.trim() && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {suggestions.map(skill => (
+              <button
+                key={skill.id}
+                type="button"
+                onClick={() => addSkill(skill)}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-xs bg-gray-800 text-gray-300 hover:bg-purple-600 hover:text-white transition-colors"
+              >
+                <Plus className="h-3 w-3" />
+                {skill.name}
+              </button>
+            ))}
+            {suggestions.length === 0 && (
+              <p className="text-sm text-gray-400">
+                {alreadyAdded
+                  ? `${existing?.name} is already on your profile.`
+                  : `We don't have "${query.trim()}" in our skills list yet.`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-2 text-red-500 text-sm">{error}</p>}
+      </div>
+
+      {skills.length === 0 ? (
+        <p className="text-sm text-gray-400">No skills added yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {skills.map(skill => (
+            <li key={skill.skillId} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-gray-800/50">
+              <span className="text-gray-200 font-medium flex-1 min-w-[8rem]">{skill.name}</span>
+
+              <div className="flex items-center gap-2">
+                <div className="flex space-x-1" role="radiogroup" aria-label={`${skill.name} proficiency`}>
+                  {SKILL_PROFICIENCIES.map(level => (
+                    <button
+                      key={level}
+                      type="button"
+                      role="radio"
+                      aria-checked={skill.proficiency === level}
+                      title={PROFICIENCY_LABELS[level]}
+                      onClick={() => updateSkill(skill.skillId, { proficiency: level })}
+                      className={`w-6 h-6 rounded-full transition-colors ${
+                        level <= skill.proficiency ? 'bg-purple-600 hover:bg-purple-500' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    />
+                  ))}
+                </div>
+                <span className="text-xs text-gray-400 w-20">{PROFICIENCY_LABELS[skill.proficiency]}</span>
+              </div>
+
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="number"
+                  min={0}
+                  max={60}
+                  step={0.5}
+                  value={skill.yearsOfExperience ?? ''}
+                  onChange={(e) => handleYearsChange(skill.skillId, e.target.value)}
+                  className="w-16 px-2 py-1 bg-gray-700 text-white border border-gray-600 rounded-md"
+                  aria-label={`Years of ${skill.name} experience`}
+                />
+                years
+              </label>
+
+              <button
+                type="button"
+                className={iconButtonClass}
+                onClick={() => removeSkill(skill.skillId)}
+                aria-label={`Remove ${skill.name}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SkillsEditor;
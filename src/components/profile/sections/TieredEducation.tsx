@@ -1,36 +1,29 @@
 import React, { useState } from 'react';
 import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import type { OnboardingFieldDefinition } from '../../../lib/onboarding';
 import Input from '../../ui/Input';
 import Button from '../../ui/Button';
-import { School, Calendar, PlusCircle, Trash2 } from 'lucide-react';
+import { School, Calendar, PlusCircle, Pencil, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
 import { useProfile } from '../../../contexts/ProfileContext';
+import { isEducationDate } from '../../../services/educationService';
+import { Education } from '../../../types';
 
 interface TieredEducationProps {
   forceMode?: 'onboarding' | 'profile';
   hideTitle?: boolean;
   hideDescription?: boolean;
   hideSaveButton?: boolean;
-}
-
-interface Education {
-  id: string;
-  school: string;
-  degree: string;
-  field: string;
-  startDate: string;
-  endDate: string;
-  current: boolean;
-  gpa?: string;
-  activities?: string;
+  fieldSettings?: OnboardingFieldDefinition[];
 }
 
 const TieredEducation: React.FC<TieredEducationProps> = ({ 
   forceMode,
   hideTitle,
   hideDescription,
-  hideSaveButton 
+  hideSaveButton,
+  fieldSettings
 }) => {
-  const { profileData, updateProfile } = useProfile();
+  const { profileData, updateProfile, saveProfile } = useProfile();
   
   // Initialize state from profile data
   const [educations, setEducations] = useState<Education[]>(
@@ -47,6 +40,8 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
   });
   
   const [isAddingEducation, setIsAddingEducation] = useState(false);
+  // Entry being edited through the form, null when adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [educationLevel, setEducationLevel] = useState(
     profileData?.education_level || 'bachelors'
   );
@@ -57,44 +52,93 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
     updateProfile({ education_level: level });
   };
   
-  // Handle adding a new education
+  const updateEducations = (updatedEducations: Education[]) => {
+    setEducations(updatedEducations);
+    updateProfile({ educations: updatedEducations });
+  };
+  
+  const resetForm = () => {
+    setNewEducation({
+      school: '',
+      degree: '',
+      field: '',
+      startDate: '',
+      endDate: '',
+      current: false
+    });
+    setEditingId(null);
+    setIsAddingEducation(false);
+  };
+  
+  // Dates are optional, but one that isn't a valid MM/YYYY couldn't be saved
+  const isValidDate = (value?: string) => !value || isEducationDate(value);
+  const isFormValid = Boolean(
+    newEducation.school &&
+    newEducation.degree &&
+    isValidDate(newEducation.startDate) &&
+    (newEducation.current || isValidDate(newEducation.endDate))
+  );
+  
+  // Handle adding a new education, or saving changes to the one being edited
   const handleAddEducation = () => {
-    if (!newEducation.school || !newEducation.degree) return;
+    if (!isFormValid) return;
     
-    const newEducationItem: Education = {
-      id: Date.now().toString(),
+    const formValues = {
       school: newEducation.school || '',
       degree: newEducation.degree || '',
       field: newEducation.field || '',
       startDate: newEducation.startDate || '',
-      endDate: newEducation.endDate || '',
+      endDate: newEducation.current ? '' : newEducation.endDate || '',
       current: newEducation.current || false,
-      gpa: newEducation.gpa,
-      activities: newEducation.activities
     };
     
-    const updatedEducations = [...educations, newEducationItem];
-    setEducations(updatedEducations);
-    updateProfile({ educations: updatedEducations });
+    if (editingId) {
+      updateEducations(educations.map(edu =>
+        edu.id === editingId ? { ...edu, ...formValues } : edu
+      ));
+    } else {
+      updateEducations([
+        ...educations,
+        {
+          id: crypto.randomUUID(),
+          ...formValues,
+          gpa: newEducation.gpa,
+          activities: newEducation.activities
+        }
+      ]);
+    }
     
-    // Reset form
+    resetForm();
+  };
+  
+  // Handle opening the form for an existing education
+  const handleEditEducation = (education: Education) => {
     setNewEducation({
-      school: '',
-      degree: '',
-      field: '',
-      startDate: '',
-      endDate: '',
-      current: false
+      school: education.school,
+      degree: education.degree,
+      field: education.field,
+      startDate: education.startDate,
+      endDate: education.endDate,
+      current: education.current
     });
+    setEditingId(education.id);
+    setIsAddingEducation(true);
+  };
+  
+  // Handle moving an education up or down the list
+  const handleMoveEducation = (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction;
+    if (targetIndex < 0 || targetIndex >= educations.length) return;
     
-    setIsAddingEducation(false);
+    const updatedEducations = [...educations];
+    [updatedEducations[index], updatedEducations[targetIndex]] = [updatedEducations[targetIndex], updatedEducations[index]];
+    updateEducations(updatedEducations);
   };
   
   // Handle removing an education
   const handleRemoveEducation = (id: string) => {
-    const updatedEducations = educations.filter(edu => edu.id !== id);
-    setEducations(updatedEducations);
-    updateProfile({ educations: updatedEducations });
+    updateEducations(educations.filter(edu => edu.id !== id));
+    if (editingId === id) resetForm();
   };
   
   // Handle updating new education fields
@@ -157,7 +201,10 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
         <Button
           variant="outline"
           size="sm"
-          onClick={() => setIsAddingEducation(true)}
+          onClick={() => {
+            resetForm();
+            setIsAddingEducation(true);
+          }}
           className="flex items-center"
         >
           <PlusCircle className="h-4 w-4 mr-1" /> Add
@@ -174,10 +221,12 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
       )}
       
       {/* List of education entries */}
-      {educations.map(education => (
+      {educations.map((education, index) => (
         <div
           key={education.id}
-          className="bg-gray-800/40 rounded-lg p-4 mb-3 border border-gray-700"
+          className={`bg-gray-800/40 rounded-lg p-4 mb-3 border ${
+            editingId === education.id ? 'border-purple-500' : 'border-gray-700'
+          }`}
         >
           <div className="flex justify-between">
             <div>
@@ -189,12 +238,38 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                 {education.startDate} - {education.current ? 'Present' : education.endDate}
               </p>
             </div>
-            <button
-              className="text-gray-500 hover:text-red-400"
-              onClick={() => handleRemoveEducation(education.id)}
-            >
-              <Trash2 className="h-4 w-4" />
-            </button>
+            <div className="flex items-start space-x-3">
+              <button
+                className="text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                onClick={() => handleMoveEducation(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${education.school} up`}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                className="text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                onClick={() => handleMoveEducation(index, 1)}
+                disabled={index === educations.length - 1}
+                aria-label={`Move ${education.school} down`}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button
+                className="text-gray-500 hover:text-white"
+                onClick={() => handleEditEducation(education)}
+                aria-label={`Edit ${education.school}`}
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                className="text-gray-500 hover:text-red-400"
+                onClick={() => handleRemoveEducation(education.id)}
+                aria-label={`Remove ${education.school}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
           </div>
         </div>
       ))}
@@ -202,7 +277,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
       {/* Add education form */}
       {isAddingEducation && (
         <div className="bg-gray-800/40 rounded-lg p-4 border border-gray-700 mt-4">
-          <h4 className="font-medium text-white mb-3">Add Education</h4>
+          <h4 className="font-medium text-white mb-3">{editingId ? 'Edit Education' : 'Add Education'}</h4>
           <div className="space-y-3">
             <Input
               label="School/University"
@@ -235,6 +310,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                 leftIcon={<Calendar className="h-5 w-5" />}
                 value={newEducation.startDate || ''}
                 onChange={(e) => handleNewEducationChange('startDate', e.target.value)}
+                error={isValidDate(newEducation.startDate) ? undefined : 'Use MM/YYYY'}
               />
               
               <Input
@@ -244,6 +320,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                 value={newEducation.endDate || ''}
                 onChange={(e) => handleNewEducationChange('endDate', e.target.value)}
                 disabled={newEducation.current}
+                error={newEducation.current || isValidDate(newEducation.endDate) ? undefined : 'Use MM/YYYY'}
               />
             </div>
             
@@ -264,7 +341,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setIsAddingEducation(false)}
+                onClick={resetForm}
               >
                 Cancel
               </Button>
@@ -272,7 +349,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                 variant="primary"
                 size="sm"
                 onClick={handleAddEducation}
-                disabled={!newEducation.school || !newEducation.degree}
+                disabled={!isFormValid}
               >
                 Save
               </Button>
@@ -311,8 +388,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                         ...updatedEducations[index],
                         gpa: e.target.value
                       };
-                      setEducations(updatedEducations);
-                      updateProfile({ educations: updatedEducations });
+                      updateEducations(updatedEducations);
                     }}
                   />
                 </div>
@@ -321,14 +397,14 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                   <label className="block text-xs text-gray-400 mb-1">Graduation Honors</label>
                   <select
                     className="w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+                    value={education.honors || ''}
                     onChange={(e) => {
                       const updatedEducations = [...educations];
                       updatedEducations[index] = {
                         ...updatedEducations[index],
                         honors: e.target.value
                       };
-                      setEducations(updatedEducations);
-                      updateProfile({ educations: updatedEducations });
+                      updateEducations(updatedEducations);
                     }}
                   >
                     <option value="">Select honors</option>
@@ -355,8 +431,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
                       ...updatedEducations[index],
                       activities: e.target.value
                     };
-                    setEducations(updatedEducations);
-                    updateProfile({ educations: updatedEducations });
+                    updateEducations(updatedEducations);
                   }}
                 />
               </div>
@@ -399,7 +474,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
   // Create the save handler
   const handleSave = () => {
     console.log('Saving education data');
-    // In a real implementation, would call the profile context saveProfile method
+    saveProfile();
   };
   
   return (
@@ -413,6 +488,7 @@ const TieredEducation: React.FC<TieredEducationProps> = ({
       hideTitle={hideTitle || forceMode === 'onboarding'}
       hideDescription={hideDescription || forceMode === 'onboarding'}
       hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
     />
   );
 };
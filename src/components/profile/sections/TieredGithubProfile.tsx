@@ -0,0 +1,63 @@
+import React from 'react';
+import { Github } from 'lucide-react';
+import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import Input from '../../ui/Input';
+import { useProfile } from '../../../contexts/ProfileContext';
+import { FIELD_GUARDS, OnboardingFieldDefinition } from '../../../lib/onboarding';
+
+interface TieredGithubProfileProps {
+  forceMode?: 'onboarding' | 'profile';
+  hideTitle?: boolean;
+  hideDescription?: boolean;
+  hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
+}
+
+const TieredGithubProfile: React.FC<TieredGithubProfileProps> = ({
+  forceMode,
+  hideTitle,
+  hideDescription,
+  hideSaveButton,
+  fieldSettings
+}) => {
+  const { profileData, updateProfile, saveProfile } = useProfile();
+
+  const githubUrl = profileData?.github_url || '';
+  const isValid = !!profileData && FIELD_GUARDS['github-profile'](profileData);
+
+  const fields = [
+    {
+      id: 'github-profile',
+      tier: FieldTier.ESSENTIAL,
+      component: (
+        <Input
+          label="GitHub Profile"
+          placeholder="https://github.com/yourusername"
+          leftIcon={<Github className="h-5 w-5" />}
+          value={githubUrl}
+          onChange={(e) => updateProfile({ github_url: e.target.value })}
+          error={githubUrl.trim() && !isValid ? 'Use your profile link, like https://github.com/yourusername' : undefined}
+          hint="Public repositories and contributions help companies see how you work"
+        />
+      ),
+      label: 'GitHub Profile'
+    }
+  ];
+
+  return (
+    <TieredProfileSection
+      title="GitHub"
+      description="Link your GitHub so companies can see the code behind your experience"
+      sectionId="github-section"
+      fields={fields}
+      onSave={saveProfile}
+      forceMode={forceMode}
+      hideTitle={hideTitle || forceMode === 'onboarding'}
+      hideDescription={hideDescription || forceMode === 'onboarding'}
+      hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
+    />
+  );
+};
+
+export default TieredGithubProfile;
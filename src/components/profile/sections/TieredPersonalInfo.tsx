@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import type { OnboardingFieldDefinition } from '../../../lib/onboarding';
 import Input from '../../ui/Input';
 import { User as UserIcon, Mail, Phone, MapPin, Briefcase, Globe, Linkedin, Github } from 'lucide-react';
 import { useProfile } from '../../../contexts/ProfileContext';
@@ -10,6 +11,7 @@ interface TieredPersonalInfoProps {
   hideTitle?: boolean;
   hideDescription?: boolean;
   hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
   onValidationChange?: (valid: boolean) => void;
 }
 
@@ -26,6 +28,7 @@ const TieredPersonalInfo: React.FC<TieredPersonalInfoProps> = ({
   hideTitle,
   hideDescription,
   hideSaveButton,
+  fieldSettings,
   onValidationChange
 }) => {
   const { profileData, updateProfile } = useProfile();
@@ -489,6 +492,7 @@ const TieredPersonalInfo: React.FC<TieredPersonalInfoProps> = ({
       hideTitle={hideTitle || forceMode === 'onboarding'}
       hideDescription={hideDescription || forceMode === 'onboarding'}
       hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
       onValidationChange={(valid) => {
         if (onValidationChange) {
           onValidationChange(valid);
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import Input from '../../ui/Input';
+import { useProfile } from '../../../contexts/ProfileContext';
+import { FIELD_GUARDS, OnboardingFieldDefinition } from '../../../lib/onboarding';
+
+interface TieredPortfolioProps {
+  forceMode?: 'onboarding' | 'profile';
+  hideTitle?: boolean;
+  hideDescription?: boolean;
+  hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
+}
+
+const TieredPortfolio: React.FC<TieredPortfolioProps> = ({
+  forceMode,
+  hideTitle,
+  hideDescription,
+  hideSaveButton,
+  fieldSettings
+}) => {
+  const { profileData, updateProfile, saveProfile } = useProfile();
+
+  const portfolioUrl = profileData?.website_url || '';
+  const isValid = !!profileData && FIELD_GUARDS['portfolio-link'](profileData);
+
+  const fields = [
+    {
+      id: 'portfolio-link',
+      tier: FieldTier.ESSENTIAL,
+      component: (
+        <Input
+          label="Portfolio"
+          placeholder="https://yourportfolio.com"
+          leftIcon={<Globe className="h-5 w-5" />}
+          value={portfolioUrl}
+          onChange={(e) => updateProfile({ website_url: e.target.value })}
+          error={portfolioUrl.trim() && !isValid ? 'Enter the full link, starting with https://' : undefined}
+          hint="Your own site, Behance, Dribbble or anywhere else your work lives"
+        />
+      ),
+      label: 'Portfolio'
+    }
+  ];
+
+  return (
+    <TieredProfileSection
+      title="Portfolio"
+      description="Share your portfolio so companies can see your design work"
+      sectionId="portfolio-section"
+      fields={fields}
+      onSave={saveProfile}
+      forceMode={forceMode}
+      hideTitle={hideTitle || forceMode === 'onboarding'}
+      hideDescription={hideDescription || forceMode === 'onboarding'}
+      hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
+    />
+  );
+};
+
+export default TieredPortfolio;
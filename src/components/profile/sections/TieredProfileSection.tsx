@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useTheme } from '../../../contexts/ThemeContext';
+import type { FieldTierName, OnboardingFieldDefinition } from '../../../lib/onboarding';
 
 // Define our data tiers
 export enum FieldTier {
@@ -8,6 +9,12 @@ export enum FieldTier {
   COMPREHENSIVE = 3, // Only in full profile mode
 }
 
+const TIERS_BY_NAME: Record<FieldTierName, FieldTier> = {
+  essential: FieldTier.ESSENTIAL,
+  important: FieldTier.IMPORTANT,
+  comprehensive: FieldTier.COMPREHENSIVE,
+};
+
 interface TieredField {
   id: string;
   tier: FieldTier;
@@ -27,6 +34,8 @@ interface TieredProfileSectionProps {
   hideDescription?: boolean;
   hideSaveButton?: boolean;
   onValidationChange?: (isValid: boolean) => void;
+  // Tiers and required flags from the onboarding flow, by field id
+  fieldSettings?: OnboardingFieldDefinition[];
 }
 
 /**
@@ -37,13 +46,14 @@ const TieredProfileSection: React.FC<TieredProfileSectionProps> = ({
   title,
   description,
   sectionId,
-  fields,
+  fields: sectionFields,
   onSave,
   forceMode,
   hideTitle = false,
   hideDescription = false,
   hideSaveButton = false,
-  onValidationChange
+  onValidationChange,
+  fieldSettings
 }) => {
   // Get the current theme mode
   const { mode } = useTheme();
@@ -51,6 +61,14 @@ const TieredProfileSection: React.FC<TieredProfileSectionProps> = ({
   // Use the forced mode or the theme context mode
   const currentMode = forceMode || mode;
   
+  // The flow's settings take precedence over the section's own
+  const fields = sectionFields.map(field => {
+    const setting = fieldSettings?.find(item => item.id === field.id);
+    return setting
+      ? { ...field, tier: TIERS_BY_NAME[setting.tier], required: setting.required }
+      : field;
+  });
+  
   // Track validation state of required fields
   const [isValid, setIsValid] = useState(true);
 
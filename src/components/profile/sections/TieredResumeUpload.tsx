@@ -1,85 +1,125 @@
 import React, { useState, useCallback } from 'react';
 import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import type { OnboardingFieldDefinition } from '../../../lib/onboarding';
 import { useProfile } from '../../../contexts/ProfileContext';
-import { Upload, FileText, X, Check } from 'lucide-react';
-import { supabase } from '../../../lib/supabase';
+import { Upload, Check } from 'lucide-react';
+import Input from '../../ui/Input';
+import { useResumes } from '../../../hooks/useResumes';
+import { useSkills } from '../../../hooks/useSkills';
+import {
+  ResumeSuggestion,
+  applyResumeSuggestions,
+  buildResumeSuggestions,
+  canExtractText,
+  extractResumeText,
+  parseResume,
+} from '../../../lib/resume';
+import ResumeReview from '../ResumeReview';
+import ResumeList from '../ResumeList';
 
 interface TieredResumeUploadProps {
   forceMode?: 'onboarding' | 'profile';
   hideTitle?: boolean;
   hideDescription?: boolean;
   hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
 }
 
 const TieredResumeUpload: React.FC<TieredResumeUploadProps> = ({
   forceMode,
   hideTitle,
   hideDescription,
-  hideSaveButton
+  hideSaveButton,
+  fieldSettings
 }) => {
   const { profileData, updateProfile } = useProfile();
+  const {
+    resumes,
+    isLoading,
+    error: resumesError,
+    uploadResume,
+    uploadVersion,
+    renameResume,
+    setPrimaryResume,
+    deleteResume,
+    getFileUrl,
+  } = useResumes();
+  const { skillIndex } = useSkills();
+  const [resumeName, setResumeName] = useState('');
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<ResumeSuggestion[] | null>(null);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    try {
-      setIsUploading(true);
-      setError(null);
-      setSuccess(false);
-      setUploadProgress(0);
-
-      // Validate file type
-      const validTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-      if (!validTypes.includes(file.type)) {
-        throw new Error('Please upload a PDF or Word document');
-      }
-
-      // Validate file size (max 5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        throw new Error('File size must be less than 5MB');
-      }
-
-      // Generate a unique file name
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${profileData?.id}-${Date.now()}.${fileExt}`;
-      const filePath = `resumes/${fileName}`;
-
-      // Upload to Supabase Storage
-      const { data, error: uploadError } = await supabase.storage
-        .from('resumes')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: true,
-          onUploadProgress: (progress) => {
-            setUploadProgress((progress.loaded / progress.total) * 100);
-          }
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get the public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('resumes')
-        .getPublicUrl(filePath);
-
-      // Update profile with resume information
-      await updateProfile({
-        resume: {
-          file_url: publicUrl,
-          file_name: file.name,
-          upload_date: new Date().toISOString()
-        }
-      });
+  // Read the resume locally and offer what we find for review
+  const parseResumeFile = useCallback(async (file: File) => {
+    if (!profileData || !canExtractText(file)) return;
 
-      setSuccess(true);
+    try {
+      setIsParsing(true);
+      setParseError(null);
+      const text = await extractResumeText(file);
+      setSuggestions(buildResumeSuggestions(parseResume(text), profileData, skillIndex));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to upload resume');
+      console.error('TieredResumeUpload: Error parsing resume:', err);
+      setParseError("We couldn't read the details in your resume, but it was uploaded successfully.");
     } finally {
-      setIsUploading(false);
+      setIsParsing(false);
+    }
+  }, [profileData, skillIndex]);
+
+  const handleApplySuggestions = useCallback(async (acceptedIds: Set<string>) => {
+    if (!profileData || !suggestions) return;
+
+    await updateProfile(applyResumeSuggestions(suggestions, acceptedIds, profileData));
+    setSuggestions(null);
+  }, [profileData, suggestions, updateProfile]);
+
+  // Check the file, then hand it to `upload` and read it for suggestions
+  const handleFile = useCallback(async (file: File, upload: (file: File) => Promise<boolean>) => {
+    setError(null);
+    setSuccess(false);
+    setSuggestions(null);
+    setParseError(null);
+
+    // Validate file type
+    const validTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+    if (!validTypes.includes(file.type)) {
+      setError('Please upload a PDF or Word document');
+      return;
+    }
+
+    // Validate file size (max 5MB)
+    if (file.size > 5 * 1024 * 1024) {
+      setError('File size must be less than 5MB');
+      return;
     }
-  }, [profileData?.id, updateProfile]);
+
+    setIsUploading(true);
+    const uploaded = await upload(file);
+    setIsUploading(false);
+
+    if (uploaded) {
+      setSuccess(true);
+      await parseResumeFile(file);
+    }
+  }, [parseResumeFile]);
+
+  const handleFileUpload = useCallback((file: File) => {
+    // Name the resume after the file unless the candidate gave it a name
+    const name = resumeName.trim() || file.name.replace(/\.[^.]+$/, '');
+    return handleFile(file, async (resumeFile) => {
+      const uploaded = await uploadResume(name, resumeFile);
+      if (uploaded) setResumeName('');
+      return uploaded;
+    });
+  }, [handleFile, resumeName, uploadResume]);
+
+  const handleVersionUpload = useCallback((resumeId: string, file: File) =>
+    handleFile(file, (versionFile) => uploadVersion(resumeId, versionFile)),
+  [handleFile, uploadVersion]);
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -93,6 +133,7 @@ const TieredResumeUpload: React.FC<TieredResumeUploadProps> = ({
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (file) handleFileUpload(file);
   }, [handleFileUpload]);
 
@@ -119,7 +160,7 @@ const TieredResumeUpload: React.FC<TieredResumeUploadProps> = ({
         {isUploading ? (
           <>
             <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4" />
-            <p className="text-gray-300">Uploading... {Math.round(uploadProgress)}%</p>
+            <p className="text-gray-300">Uploading...</p>
           </>
         ) : (
           <>
@@ -133,39 +174,24 @@ const TieredResumeUpload: React.FC<TieredResumeUploadProps> = ({
     </div>
   );
 
-  const ResumePreview = profileData?.resume && (
-    <div className="mt-6 p-4 bg-gray-800 rounded-lg">
-      <div className="flex items-center justify-between">
-        <div className="flex items-center">
-          <FileText className="w-5 h-5 text-gray-400 mr-3" />
-          <div>
-            <p className="text-gray-300">{profileData.resume.file_name}</p>
-            <p className="text-gray-500 text-sm">
-              Uploaded on {new Date(profileData.resume.upload_date).toLocaleDateString()}
-            </p>
-          </div>
-        </div>
-        <a
-          href={profileData.resume.file_url}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-purple-500 hover:text-purple-400"
-        >
-          View
-        </a>
-      </div>
-    </div>
-  );
-
   const fields = [
     {
       id: 'resume-upload',
       tier: FieldTier.ESSENTIAL,
       component: (
         <div>
+          <div className="mb-4">
+            <Input
+              label="Resume name"
+              placeholder="e.g. Frontend, Eng Manager"
+              value={resumeName}
+              onChange={(e) => setResumeName(e.target.value)}
+              helpText="Keep a resume for each kind of role. Leave blank to use the file name."
+            />
+          </div>
           {UploadArea}
-          {error && (
-            <p className="mt-4 text-red-500 text-sm">{error}</p>
+          {(error || resumesError) && (
+            <p className="mt-4 text-red-500 text-sm">{error || resumesError}</p>
           )}
           {success && (
             <p className="mt-4 text-green-500 text-sm flex items-center">
@@ -173,10 +199,35 @@ const TieredResumeUpload: React.FC<TieredResumeUploadProps> = ({
               Resume uploaded successfully!
             </p>
           )}
-          {ResumePreview}
+          {isParsing && (
+            <p className="mt-4 text-gray-400 text-sm">Reading your resume...</p>
+          )}
+          {parseError && (
+            <p className="mt-4 text-yellow-500 text-sm">{parseError}</p>
+          )}
+          {suggestions && (
+            <ResumeReview
+              suggestions={suggestions}
+              onApply={handleApplySuggestions}
+              onDismiss={() => setSuggestions(null)}
+            />
+          )}
+          {isLoading ? (
+            <p className="mt-6 text-gray-400 text-sm">Loading your resumes...</p>
+          ) : (
+            <ResumeList
+              resumes={resumes}
+              getFileUrl={getFileUrl}
+              onUploadVersion={handleVersionUpload}
+              onRename={renameResume}
+              onSetPrimary={setPrimaryResume}
+              onDelete={deleteResume}
+              disabled={isUploading}
+            />
+          )}
         </div>
       ),
-      label: 'Resume Upload',
+      label: 'Resumes',
       required: true
     }
   ];
@@ -184,13 +235,14 @@ const TieredResumeUpload: React.FC<TieredResumeUploadProps> = ({
   return (
     <TieredProfileSection
       title="Resume"
-      description="Upload your resume to help employers learn more about your experience"
+      description="Upload your resumes to help employers learn more about your experience"
       sectionId="resume-section"
       fields={fields}
       forceMode={forceMode}
       hideTitle={hideTitle || forceMode === 'onboarding'}
       hideDescription={hideDescription || forceMode === 'onboarding'}
       hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
     />
   );
 };
@@ -1,14 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
 import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import type { OnboardingFieldDefinition } from '../../../lib/onboarding';
 import { useProfile } from '../../../contexts/ProfileContext';
 import { useTheme } from '../../../contexts/ThemeContext';
-import { availableRoles } from '../../../config/roles';
+import { Role } from '../../../config/roles';
+import Input from '../../ui/Input';
+import { useCareerRoles } from '../../../hooks/useCareerRoles';
+import { findRoles, groupRolesByCategory, searchRoles } from '../../../lib/roleCatalogue';
+import { SENIORITY_LABELS, SENIORITY_LEVELS } from '../../../lib/seniority';
+import { RoleSeniority } from '../../../types';
+import SkillsEditor from '../SkillsEditor';
 
 interface TieredRoleSelectionProps {
   forceMode?: 'onboarding' | 'profile';
   hideTitle?: boolean;
   hideDescription?: boolean;
   hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
   mode?: 'basic' | 'tiered';
   onRoleToggle?: (roleId: string) => void;
   selectedRoles?: string[];
@@ -20,6 +29,7 @@ const TieredRoleSelection: React.FC<TieredRoleSelectionProps> = ({
   hideTitle,
   hideDescription,
   hideSaveButton,
+  fieldSettings,
   mode = 'tiered',
   onRoleToggle,
   selectedRoles,
@@ -27,9 +37,15 @@ const TieredRoleSelection: React.FC<TieredRoleSelectionProps> = ({
 }) => {
   const { profileData, updateProfile } = useProfile();
   const { mode: themeMode } = useTheme();
+  const { roles, isLoading: isLoadingRoles, error: rolesError } = useCareerRoles();
+  const [query, setQuery] = useState('');
   
   // Use provided selectedRoles or fall back to profileData
   const currentSelectedRoles = selectedRoles || profileData?.selected_roles || [];
+
+  // Retired roles stay listed while selected, so they can be deselected
+  const selectableRoles = roles.filter(role => !role.retired || currentSelectedRoles.includes(role.id));
+  const roleGroups = groupRolesByCategory(searchRoles(selectableRoles, query));
   
   // Handle role selection
   const handleRoleToggle = (roleId: string) => {
@@ -49,7 +65,7 @@ const TieredRoleSelection: React.FC<TieredRoleSelectionProps> = ({
   };
 
   // Role Selection Item Component
-  const RoleItem: React.FC<{ role: typeof availableRoles[0] }> = ({ role }) => {
+  const RoleItem: React.FC<{ role: Role }> = ({ role }) => {
     const isSelected = currentSelectedRoles.includes(role.id);
     const isOnboardingMode = themeMode === 'onboarding';
     
@@ -96,16 +112,46 @@ const TieredRoleSelection: React.FC<TieredRoleSelectionProps> = ({
           <span className={`text-gray-200 ${isOnboardingMode ? 'font-medium' : 'text-sm'}`}>
             {role.name}
           </span>
+          {role.retired && (
+            <span className="ml-2 text-xs text-gray-500">No longer offered</span>
+          )}
         </div>
       </div>
     );
   };
   
-  // Basic Role Selection Grid
+  // Basic Role Selection Grid, grouped by category
   const RoleSelectionGrid = (
-    <div className={`grid ${themeMode === 'onboarding' ? 'grid-cols-2' : 'grid-cols-2 sm:grid-cols-3'} gap-3 ${className}`}>
-      {availableRoles.map(role => (
-        <RoleItem key={role.id} role={role} />
+    <div className={`space-y-5 ${className}`}>
+      <Input
+        placeholder="Search roles"
+        leftIcon={<Search className="h-5 w-5" />}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        aria-label="Search roles"
+      />
+
+      {rolesError && (
+        <p className="text-red-500 text-sm">{rolesError}</p>
+      )}
+
+      {isLoadingRoles && (
+        <p className="text-gray-400 text-sm">Loading roles...</p>
+      )}
+
+      {!isLoadingRoles && roleGroups.length === 0 && query && (
+        <p className="text-gray-400 text-sm">No roles match "{query}".</p>
+      )}
+
+      {roleGroups.map(group => (
+        <div key={group.category}>
+          <h4 className="text-sm font-medium text-gray-400 mb-2">{group.label}</h4>
+          <div className={`grid ${themeMode === 'onboarding' ? 'grid-cols-2' : 'grid-cols-2 sm:grid-cols-3'} gap-3`}>
+            {group.roles.map(role => (
+              <RoleItem key={role.id} role={role} />
+            ))}
+          </div>
+        </div>
       ))}
     </div>
   );
@@ -120,57 +166,95 @@ const TieredRoleSelection: React.FC<TieredRoleSelectionProps> = ({
     </div>
   );
   
+  const roleSeniority = profileData?.role_seniority || [];
+
+  // Set the level or years for a role, starting a new entry at mid level
+  const updateSeniority = (roleId: string, changes: Partial<RoleSeniority>) => {
+    const existing = roleSeniority.find(item => item.roleId === roleId);
+    updateProfile({
+      role_seniority: existing
+        ? roleSeniority.map(item => (item.roleId === roleId ? { ...item, ...changes } : item))
+        : [...roleSeniority, { roleId, level: 'mid', ...changes }],
+    });
+  };
+
+  const handleYearsChange = (roleId: string, value: string) => {
+    const years = Number(value);
+    updateSeniority(roleId, {
+      yearsOfExperience: value === '' || !Number.isFinite(years) ? undefined : Math.max(0, Math.min(years, 60)),
+    });
+  };
+
   // Important Experience Level Component (Tier 2)
   const ExperienceLevelComponent = (
     <div className="mt-8">
       <h3 className="text-lg font-medium text-white mb-3">Experience Level</h3>
-      <div className="grid grid-cols-2 gap-3">
-        {['Entry Level', 'Mid Level', 'Senior', 'Lead/Manager'].map((level, i) => (
-          <div
-            key={i}
-            className="rounded-lg border border-gray-700 p-3 cursor-pointer hover:border-purple-500"
-          >
-            <div className="flex items-center">
-              <div className="w-4 h-4 rounded-full mr-2 border border-gray-500" />
-              <span className="text-gray-200">{level}</span>
-            </div>
-          </div>
-        ))}
-      </div>
+      {currentSelectedRoles.length === 0 ? (
+        <p className="text-sm text-gray-400">Select a role above to set your experience level in it.</p>
+      ) : (
+        <div className="space-y-4">
+          {findRoles(roles, currentSelectedRoles).map(role => {
+            const seniority = roleSeniority.find(item => item.roleId === role.id);
+
+            return (
+              <div key={role.id} className="rounded-lg border border-gray-700 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <span className="text-gray-200 font-medium">{role.name}</span>
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                      type="number"
+                      min={0}
+                      max={60}
+                      step={0.5}
+                      value={seniority?.yearsOfExperience ?? ''}
+                      onChange={(e) => handleYearsChange(role.id, e.target.value)}
+                      className="w-16 px-2 py-1 bg-gray-700 text-white border border-gray-600 rounded-md"
+                      aria-label={`Years of experience as ${role.name}`}
+                    />
+                    years
+                  </label>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2" role="radiogroup" aria-label={`${role.name} level`}>
+                  {SENIORITY_LEVELS.map(level => {
+                    const isSelected = seniority?.level === level;
+                    return (
+                      <button
+                        key={level}
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        onClick={() => updateSeniority(role.id, { level })}
+                        className={`rounded-lg border p-2 text-sm transition-colors ${
+                          isSelected
+                            ? 'border-purple-500 bg-purple-900/20 text-white'
+                            : 'border-gray-700 text-gray-300 hover:border-purple-500'
+                        }`}
+                      >
+                        {SENIORITY_LABELS[level]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
   
   // Comprehensive Skills Assessment Component (Tier 3)
   const SkillsAssessmentComponent = (
     <div className="mt-8">
-      <h3 className="text-lg font-medium text-white mb-3">Technical Skills</h3>
+      <h3 className="text-lg font-medium text-white mb-3">Skills</h3>
       <p className="text-sm text-gray-400 mb-4">
-        Rate your proficiency in technologies relevant to your selected roles.
+        Add the skills you use and rate your proficiency. We use them to match you with jobs that need them.
       </p>
       
-      <div className="space-y-4">
-        {availableRoles
-          .filter(role => currentSelectedRoles.includes(role.id))
-          .map(role => (
-            <div key={role.id} className="flex items-center justify-between">
-              <span className="text-gray-300">{role.name}</span>
-              <div className="flex space-x-1">
-                {[1, 2, 3, 4, 5].map((level) => (
-                  <button
-                    key={level}
-                    className={`w-6 h-6 rounded-full 
-                      ${level <= 3 ? 'bg-purple-900/30 hover:bg-purple-600' : 'bg-gray-800 hover:bg-gray-700'}
-                    `}
-                    onClick={() => {
-                      // In a real implementation, would update profile with skill levels
-                      console.log(`Setting ${role.id} to level ${level}`);
-                    }}
-                  />
-                ))}
-              </div>
-            </div>
-          ))}
-      </div>
+      <SkillsEditor
+        skills={profileData?.skills || []}
+        onChange={(skills) => updateProfile({ skills })}
+      />
     </div>
   );
   
@@ -216,6 +300,7 @@ const TieredRoleSelection: React.FC<TieredRoleSelectionProps> = ({
       hideTitle={hideTitle || forceMode === 'onboarding'}
       hideDescription={hideDescription || forceMode === 'onboarding'}
       hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
     />
   );
 };
@@ -1,28 +1,50 @@
 import React, { useState } from 'react';
 import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import type { OnboardingFieldDefinition } from '../../../lib/onboarding';
 import Input from '../../ui/Input';
 import { MapPin, Monitor, DollarSign, X } from 'lucide-react';
-import { useProfile } from '../../../contexts/ProfileContext';
+import { useProfile, ProfileData } from '../../../contexts/ProfileContext';
+
+type WorkEnvironment = NonNullable<ProfileData['work_environment']>;
+type TravelPreference = NonNullable<ProfileData['travel_preference']>;
+
+// remote_preference drives match scoring, keep it in step with the work environment picker
+const REMOTE_PREFERENCES: Record<WorkEnvironment, ProfileData['remote_preference']> = {
+  remote: 'remote',
+  hybrid: 'hybrid',
+  onsite: 'office',
+  flexible: 'flexible',
+};
+
+// Salaries are stored as integers, so nothing above the int4 maximum
+const MAX_SALARY = 2147483647;
+
+const toSalary = (value: string) => {
+  const amount = parseInt(value, 10);
+  return Number.isNaN(amount) ? undefined : Math.min(Math.max(0, amount), MAX_SALARY);
+};
 
 interface TieredUserPreferencesProps {
   forceMode?: 'onboarding' | 'profile';
   hideTitle?: boolean;
   hideDescription?: boolean;
   hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
 }
 
 const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({ 
   forceMode,
   hideTitle,
   hideDescription,
-  hideSaveButton 
+  hideSaveButton,
+  fieldSettings
 }) => {
   const { profileData, updateProfile } = useProfile();
   const [locations, setLocations] = useState<string[]>(
     profileData?.locations || ['San Francisco, CA', 'New York, NY', 'Remote']
   );
   const [newLocation, setNewLocation] = useState('');
-  const [workEnvironment, setWorkEnvironment] = useState(
+  const [workEnvironment, setWorkEnvironment] = useState<WorkEnvironment>(
     profileData?.work_environment || 'remote'
   );
   const [salaryMin, setSalaryMin] = useState(
@@ -33,7 +55,7 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
   );
   
   // Additional detailed preferences
-  const [travelPreference, setTravelPreference] = useState(
+  const [travelPreference, setTravelPreference] = useState<TravelPreference>(
     profileData?.travel_preference || 'none'
   );
   const [companySize, setCompanySize] = useState<string[]>(
@@ -65,22 +87,33 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
   };
   
   // Handle work environment selection
-  const handleWorkEnvironmentChange = (environment: string) => {
+  const handleWorkEnvironmentChange = (environment: WorkEnvironment) => {
     setWorkEnvironment(environment);
     
     // Update profile data
-    updateProfile({ work_environment: environment });
+    updateProfile({
+      work_environment: environment,
+      remote_preference: REMOTE_PREFERENCES[environment]
+    });
   };
   
-  // Handle salary range changes
+  // Handle salary range changes. A max below the min would fail the whole
+  // preferences save, so it stays out of the profile until the range is valid.
   const handleSalaryChange = (type: 'min' | 'max', value: string) => {
+    const salary = toSalary(value);
+    const shown = salary === MAX_SALARY ? String(MAX_SALARY) : value;
+    const min = type === 'min' ? salary : toSalary(salaryMin);
+    const max = type === 'max' ? salary : toSalary(salaryMax);
+    
     if (type === 'min') {
-      setSalaryMin(value);
-      updateProfile({ salary_min: value ? parseInt(value) : undefined });
+      setSalaryMin(shown);
     } else {
-      setSalaryMax(value);
-      updateProfile({ salary_max: value ? parseInt(value) : undefined });
+      setSalaryMax(shown);
     }
+    updateProfile({
+      salary_min: min,
+      salary_max: min !== undefined && max !== undefined && max < min ? undefined : max,
+    });
   };
   
   // Handle company size preference
@@ -104,7 +137,7 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
   };
   
   // Handle travel preference
-  const handleTravelPreferenceChange = (preference: string) => {
+  const handleTravelPreferenceChange = (preference: TravelPreference) => {
     setTravelPreference(preference);
     updateProfile({ travel_preference: preference });
   };
@@ -158,12 +191,12 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
       <div>
         <h3 className="text-lg font-medium text-white mb-3">Work Environment</h3>
         <div className="grid grid-cols-2 gap-3">
-          {[
+          {([
             { id: 'remote', label: 'Remote', icon: <Monitor className="h-4 w-4 mr-2" /> },
             { id: 'hybrid', label: 'Hybrid', icon: <MapPin className="h-4 w-4 mr-2" /> },
             { id: 'onsite', label: 'On-site', icon: <MapPin className="h-4 w-4 mr-2" /> },
             { id: 'flexible', label: 'Flexible', icon: <Monitor className="h-4 w-4 mr-2" /> },
-          ].map(option => (
+          ] as { id: WorkEnvironment; label: string; icon: React.ReactNode }[]).map(option => (
             <div
               key={option.id}
               className={`
@@ -190,20 +223,31 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
       <h3 className="text-lg font-medium text-white mb-3">Compensation</h3>
       <div className="flex space-x-3">
         <Input
+          label="Minimum (annual USD)"
           placeholder="Min"
           leftIcon={<DollarSign className="h-5 w-5" />}
           type="number"
+          min={0}
+          max={MAX_SALARY}
           value={salaryMin}
           onChange={(e) => handleSalaryChange('min', e.target.value)}
           onClick={(e) => e.stopPropagation()}
         />
         <Input
+          label="Maximum (annual USD)"
           placeholder="Max"
           leftIcon={<DollarSign className="h-5 w-5" />}
           type="number"
+          min={0}
+          max={MAX_SALARY}
           value={salaryMax}
           onChange={(e) => handleSalaryChange('max', e.target.value)}
           onClick={(e) => e.stopPropagation()}
+          error={
+            salaryMin && salaryMax && parseInt(salaryMax, 10) < parseInt(salaryMin, 10)
+              ? 'Max must be at least the min to be saved'
+              : undefined
+          }
         />
       </div>
       <p className="text-sm text-gray-400 mt-2">
@@ -273,12 +317,12 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
       
       <h3 className="text-lg font-medium text-white mt-6 mb-3">Travel Requirements</h3>
       <div className="grid grid-cols-2 gap-3">
-        {[
+        {([
           { id: 'none', label: 'No travel' },
           { id: 'minimal', label: 'Minimal (< 10%)' },
           { id: 'moderate', label: 'Moderate (10-25%)' },
           { id: 'frequent', label: 'Frequent (25%+)' },
-        ].map(option => (
+        ] as { id: TravelPreference; label: string }[]).map(option => (
           <div
             key={option.id}
             className={`
@@ -343,6 +387,7 @@ const TieredUserPreferences: React.FC<TieredUserPreferencesProps> = ({
       hideTitle={hideTitle || forceMode === 'onboarding'}
       hideDescription={hideDescription || forceMode === 'onboarding'}
       hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
     />
   );
 };
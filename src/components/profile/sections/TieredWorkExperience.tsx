@@ -0,0 +1,441 @@
+import React, { useState } from 'react';
+import TieredProfileSection, { FieldTier } from './TieredProfileSection';
+import type { OnboardingFieldDefinition } from '../../../lib/onboarding';
+import Input from '../../ui/Input';
+import Button from '../../ui/Button';
+import { Briefcase, Building2, Calendar, PlusCircle, Pencil, Trash2, X } from 'lucide-react';
+import { useProfile } from '../../../contexts/ProfileContext';
+import { WorkExperience } from '../../../types';
+
+interface TieredWorkExperienceProps {
+  forceMode?: 'onboarding' | 'profile';
+  hideTitle?: boolean;
+  hideDescription?: boolean;
+  hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
+}
+
+type PositionForm = Pick<WorkExperience, 'company' | 'title' | 'startDate' | 'endDate' | 'current'>;
+
+const emptyPosition: PositionForm = {
+  company: '',
+  title: '',
+  startDate: '',
+  endDate: '',
+  current: false,
+};
+
+// YYYY-MM to "Mar 2024"
+const formatMonth = (month: string) => {
+  if (!month) return '';
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+const TieredWorkExperience: React.FC<TieredWorkExperienceProps> = ({
+  forceMode,
+  hideTitle,
+  hideDescription,
+  hideSaveButton,
+  fieldSettings
+}) => {
+  const { profileData, updateProfile, saveProfile } = useProfile();
+
+  // Initialize state from profile data
+  const [experiences, setExperiences] = useState<WorkExperience[]>(
+    profileData?.work_experiences || []
+  );
+
+  const [positionForm, setPositionForm] = useState<PositionForm>(emptyPosition);
+  // null when the form is closed, 'new' when adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [technologyInputs, setTechnologyInputs] = useState<Record<string, string>>({});
+
+  const isFormValid = Boolean(
+    positionForm.company.trim() &&
+    positionForm.title.trim() &&
+    positionForm.startDate &&
+    (positionForm.current || !positionForm.endDate || positionForm.endDate >= positionForm.startDate)
+  );
+
+  const updateExperiences = (updatedExperiences: WorkExperience[]) => {
+    setExperiences(updatedExperiences);
+    updateProfile({ work_experiences: updatedExperiences });
+  };
+
+  const updateExperience = (id: string, changes: Partial<WorkExperience>) => {
+    updateExperiences(experiences.map(experience =>
+      experience.id === id ? { ...experience, ...changes } : experience
+    ));
+  };
+
+  // Handle opening the form for a new or existing position
+  const handleStartAdd = () => {
+    setPositionForm(emptyPosition);
+    setEditingId('new');
+  };
+
+  const handleStartEdit = (experience: WorkExperience) => {
+    setPositionForm({
+      company: experience.company,
+      title: experience.title,
+      startDate: experience.startDate,
+      endDate: experience.endDate,
+      current: experience.current,
+    });
+    setEditingId(experience.id);
+  };
+
+  const handleCancel = () => {
+    setPositionForm(emptyPosition);
+    setEditingId(null);
+  };
+
+  // Handle saving the position form
+  const handleSavePosition = () => {
+    if (!isFormValid) return;
+
+    const position = {
+      ...positionForm,
+      company: positionForm.company.trim(),
+      title: positionForm.title.trim(),
+      endDate: positionForm.current ? '' : positionForm.endDate,
+    };
+
+    if (editingId === 'new') {
+      // Newest positions go first
+      updateExperiences([
+        { id: crypto.randomUUID(), description: '', technologies: [], ...position },
+        ...experiences,
+      ]);
+    } else if (editingId) {
+      updateExperience(editingId, position);
+    }
+
+    handleCancel();
+  };
+
+  // Handle removing a position
+  const handleRemovePosition = (id: string) => {
+    updateExperiences(experiences.filter(experience => experience.id !== id));
+    if (editingId === id) handleCancel();
+  };
+
+  const handleFormChange = (field: keyof PositionForm, value: string | boolean) => {
+    setPositionForm({
+      ...positionForm,
+      [field]: value
+    });
+  };
+
+  // Add the typed technologies (comma separated) to a position
+  const handleAddTechnologies = (experience: WorkExperience) => {
+    const added = (technologyInputs[experience.id] || '')
+      .split(',')
+      .map(technology => technology.trim())
+      .filter(technology => technology && !experience.technologies.includes(technology));
+
+    if (added.length > 0) {
+      updateExperience(experience.id, { technologies: [...experience.technologies, ...added] });
+    }
+    setTechnologyInputs({ ...technologyInputs, [experience.id]: '' });
+  };
+
+  const handleRemoveTechnology = (experience: WorkExperience, technology: string) => {
+    updateExperience(experience.id, {
+      technologies: experience.technologies.filter(item => item !== technology)
+    });
+  };
+
+  const renderPositionForm = () => (
+    <div className="bg-gray-800/40 rounded-lg p-4 border border-gray-700 mt-4">
+      <h4 className="font-medium text-white mb-3">
+        {editingId === 'new' ? 'Add Position' : 'Edit Position'}
+      </h4>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Company"
+            placeholder="Enter company name"
+            leftIcon={<Building2 className="h-5 w-5" />}
+            value={positionForm.company}
+            onChange={(e) => handleFormChange('company', e.target.value)}
+            required
+          />
+
+          <Input
+            label="Title"
+            placeholder="e.g. Senior Engineer"
+            value={positionForm.title}
+            onChange={(e) => handleFormChange('title', e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            type="month"
+            label="Start Date"
+            leftIcon={<Calendar className="h-5 w-5" />}
+            value={positionForm.startDate}
+            onChange={(e) => handleFormChange('startDate', e.target.value)}
+            required
+          />
+
+          <Input
+            type="month"
+            label="End Date"
+            leftIcon={<Calendar className="h-5 w-5" />}
+            value={positionForm.current ? '' : positionForm.endDate}
+            onChange={(e) => handleFormChange('endDate', e.target.value)}
+            disabled={positionForm.current}
+            error={
+              !positionForm.current && positionForm.endDate && positionForm.startDate && positionForm.endDate < positionForm.startDate
+                ? 'End date must be after the start date'
+                : undefined
+            }
+          />
+        </div>
+
+        <div className="flex items-center mt-2">
+          <input
+            type="checkbox"
+            id="current-position"
+            checked={positionForm.current}
+            onChange={(e) => handleFormChange('current', e.target.checked)}
+            className="h-4 w-4 border-gray-600 rounded bg-gray-700 text-purple-600 focus:ring-purple-500"
+          />
+          <label htmlFor="current-position" className="ml-2 text-sm text-gray-300">
+            I currently work here
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCancel}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSavePosition}
+            disabled={!isFormValid}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
+  // Essential Positions Component (Tier 1)
+  const PositionsComponent = (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-white">Positions</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleStartAdd}
+          className="flex items-center"
+        >
+          <PlusCircle className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+
+      {experiences.length === 0 && editingId === null && (
+        <div className="border border-dashed border-gray-700 rounded-lg p-6 text-center">
+          <Briefcase className="h-8 w-8 text-gray-500 mx-auto mb-3" />
+          <p className="text-gray-400">
+            No positions added yet. Click "Add" to include your work history.
+          </p>
+        </div>
+      )}
+
+      {editingId === 'new' && renderPositionForm()}
+
+      {/* List of positions */}
+      {experiences.map(experience => (
+        editingId === experience.id ? (
+          <React.Fragment key={experience.id}>{renderPositionForm()}</React.Fragment>
+        ) : (
+          <div
+            key={experience.id}
+            className="bg-gray-800/40 rounded-lg p-4 mb-3 border border-gray-700"
+          >
+            <div className="flex justify-between">
+              <div>
+                <h4 className="font-medium text-white">{experience.title}</h4>
+                <p className="text-gray-300 text-sm">{experience.company}</p>
+                <p className="text-gray-400 text-sm mt-1">
+                  {formatMonth(experience.startDate)} - {experience.current ? 'Present' : formatMonth(experience.endDate)}
+                </p>
+              </div>
+              <div className="flex items-start space-x-3">
+                <button
+                  className="text-gray-500 hover:text-white"
+                  onClick={() => handleStartEdit(experience)}
+                  aria-label={`Edit ${experience.title}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  className="text-gray-500 hover:text-red-400"
+                  onClick={() => handleRemovePosition(experience.id)}
+                  aria-label={`Remove ${experience.title}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )
+      ))}
+    </div>
+  );
+
+  // Important Role Highlights Component (Tier 2)
+  const HighlightsComponent = (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-white mb-3">Role Highlights</h3>
+
+      {experiences.length > 0 ? (
+        <div className="space-y-4">
+          {experiences.map(experience => (
+            <div key={`highlights-${experience.id}`}>
+              <label className="block text-sm text-gray-300 mb-1">
+                {experience.title} at {experience.company}
+              </label>
+              <textarea
+                className="w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+                rows={3}
+                placeholder="What you worked on, what you owned and what it achieved"
+                value={experience.description || ''}
+                onChange={(e) => updateExperience(experience.id, { description: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          Add positions above to describe what you did in each role.
+        </p>
+      )}
+    </div>
+  );
+
+  // Comprehensive Technologies Component (Tier 3)
+  const TechnologiesComponent = (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-white mb-3">Technologies Used</h3>
+
+      {experiences.length > 0 ? (
+        <div className="space-y-4">
+          {experiences.map(experience => (
+            <div
+              key={`technologies-${experience.id}`}
+              className="bg-gray-800/40 rounded-lg p-4 border border-gray-700"
+            >
+              <h4 className="font-medium text-white mb-2">{experience.title} at {experience.company}</h4>
+
+              {experience.technologies.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {experience.technologies.map(technology => (
+                    <span
+                      key={technology}
+                      className="flex items-center px-3 py-1 bg-gray-700 rounded-full text-xs text-gray-200"
+                    >
+                      {technology}
+                      <button
+                        className="ml-1 text-gray-400 hover:text-red-400"
+                        onClick={() => handleRemoveTechnology(experience, technology)}
+                        aria-label={`Remove ${technology}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  placeholder="e.g. React, PostgreSQL"
+                  className="flex-1 px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+                  value={technologyInputs[experience.id] || ''}
+                  onChange={(e) => setTechnologyInputs({ ...technologyInputs, [experience.id]: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddTechnologies(experience);
+                    }
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleAddTechnologies(experience)}
+                  disabled={!(technologyInputs[experience.id] || '').trim()}
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          Add positions above to list the technologies you used.
+        </p>
+      )}
+    </div>
+  );
+
+  // Define all fields with their tiers
+  const fields = [
+    {
+      id: 'positions',
+      tier: FieldTier.ESSENTIAL,
+      component: PositionsComponent,
+      label: 'Positions'
+    },
+    {
+      id: 'role-highlights',
+      tier: FieldTier.IMPORTANT,
+      component: HighlightsComponent,
+      label: 'Role Highlights'
+    },
+    {
+      id: 'technologies',
+      tier: FieldTier.COMPREHENSIVE,
+      component: TechnologiesComponent,
+      label: 'Technologies Used'
+    }
+  ];
+
+  const handleSave = () => {
+    console.log('Saving work experience');
+    saveProfile();
+  };
+
+  return (
+    <TieredProfileSection
+      title="Work Experience"
+      description="Tell employers where you've worked and what you did there"
+      sectionId="experience-section"
+      fields={fields}
+      onSave={handleSave}
+      forceMode={forceMode}
+      hideTitle={hideTitle || forceMode === 'onboarding'}
+      hideDescription={hideDescription || forceMode === 'onboarding'}
+      hideSaveButton={hideSaveButton}
+      fieldSettings={fieldSettings}
+    />
+  );
+};
+
+export default TieredWorkExperience;
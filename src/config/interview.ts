@@ -0,0 +1,26 @@
+/**
+ * Which interview engine backs the onboarding AI interview
+ * - scripted: deterministic local question bank, used offline and in tests
+ * - http: streams replies from the interviewer API at `endpoint`
+ */
+export type InterviewEngineType = 'scripted' | 'http';
+
+export interface InterviewConfig {
+  engine: InterviewEngineType;
+  endpoint: string;
+  assessmentEndpoint: string;
+  maxQuestions: number;
+  tokenDelayMs: number;
+}
+
+/**
+ * Interview configuration, overridable through VITE_INTERVIEW_* env variables
+ */
+export const interviewConfig: InterviewConfig = {
+  engine: import.meta.env.VITE_INTERVIEW_ENGINE === 'http' ? 'http' : 'scripted',
+  endpoint: import.meta.env.VITE_INTERVIEW_API_URL || '',
+  assessmentEndpoint: import.meta.env.VITE_INTERVIEW_ASSESSMENT_URL ||
+    (import.meta.env.VITE_INTERVIEW_API_URL ? `${import.meta.env.VITE_INTERVIEW_API_URL}/assessment` : ''),
+  maxQuestions: 6,
+  tokenDelayMs: 25,
+};
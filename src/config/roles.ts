@@ -1,23 +1,17 @@
 /**
- * Interface for role definition
+ * Interface for role definition. Roles live in the career_roles table;
+ * see lib/roleCatalogue for resolving and grouping them.
  */
 export interface Role {
+  // The role's slug, which selected_roles and job role_ids store
   id: string;
   name: string;
   category?: string;
+  description?: string;
+  // 1 is the most popular
+  popularityRank?: number;
+  // Retired roles can't be picked any more, but still name old selections
+  retired: boolean;
+  // The role a retired role was merged into
+  mergedInto?: string;
 }
-
-/**
- * Available roles for users to select
- */
-export const availableRoles: Role[] = [
-  { id: 'frontend', name: 'Frontend Engineer', category: 'engineering' },
-  { id: 'backend', name: 'Backend Engineer', category: 'engineering' },
-  { id: 'fullstack', name: 'Full Stack Engineer', category: 'engineering' },
-  { id: 'mobile', name: 'Mobile Developer', category: 'engineering' },
-  { id: 'devops', name: 'DevOps / SRE', category: 'engineering' },
-  { id: 'data', name: 'Data Scientist', category: 'data' },
-  { id: 'pm', name: 'Product Manager', category: 'product' },
-  { id: 'design', name: 'UX/UI Designer', category: 'design' },
-  { id: 'eng_manager', name: 'Engineering Manager', category: 'management' },
-]; 
\ No newline at end of file
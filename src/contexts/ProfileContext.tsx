@@ -1,7 +1,24 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
-import { OnboardingStep } from '../types';
+import { CandidateSkill, Education, OnboardingStep, RoleSeniority, WorkExperience } from '../types';
+import { EducationService } from '../services/educationService';
+import { WorkExperienceService } from '../services/workExperienceService';
+import { SkillService } from '../services/skillService';
+import { SeniorityService } from '../services/seniorityService';
+import { OnboardingFlowService } from '../services/onboardingFlowService';
+import { RoleService } from '../services/roleService';
+import { Role } from '../config/roles';
+import { resolveRoleIds } from '../lib/roleCatalogue';
+import { resolveRoleSeniority } from '../lib/seniority';
 import { CompanyStagePreference } from '../types/database';
+import {
+  DEFAULT_ONBOARDING_FLOW,
+  OnboardingFlow,
+  OnboardingStepDefinition,
+  getOnboardingRecord,
+  isOnboardingFinished,
+  selectOnboardingFlow,
+} from '../lib/onboarding';
 
 // Define our profile data model
 export interface ProfileData {
@@ -29,9 +46,26 @@ export interface ProfileData {
   };
   locations: string[];
   remote_preference: 'remote' | 'hybrid' | 'office' | 'flexible';
+  work_environment?: 'remote' | 'hybrid' | 'onsite' | 'flexible';
+  salary_min?: number;
+  salary_max?: number;
+  travel_preference?: 'none' | 'minimal' | 'moderate' | 'frequent';
+  company_size: string[];
+  industry_preferences: string[];
   
   // Education
   graduation_date?: string | null;
+  education_level?: string | null;
+  educations: Education[];
+  
+  // Work history, most relevant first
+  work_experiences: WorkExperience[];
+  
+  // Skills from the taxonomy, with proficiency and years of experience
+  skills: CandidateSkill[];
+  
+  // Level and years of experience in selected roles
+  role_seniority: RoleSeniority[];
   
   // Employment
   employment_type: 'full_time' | 'part_time' | 'contract' | 'internship';
@@ -39,13 +73,6 @@ export interface ProfileData {
   // Roles
   selected_roles: string[];
   
-  // Add resume information
-  resume?: {
-    file_url: string;
-    file_name: string;
-    upload_date: string;
-  };
-  
   // Onboarding status
   onboarding_completed: boolean;
   completed_steps: string[];
@@ -68,8 +95,10 @@ interface ProfileContextType {
   completionStatus: CompletionStatus;
   updateProfile: (data: Partial<ProfileData>) => Promise<void>;
   completeStep: (step: OnboardingStep) => void;
-  saveProfile: () => Promise<boolean | undefined>;
+  saveProfile: (changes?: Partial<ProfileData>) => Promise<boolean | undefined>;
   isOnboardingComplete: boolean;
+  // The onboarding flow for the candidate's selected roles
+  onboardingSteps: OnboardingStepDefinition[];
 }
 
 // Initial profile data
@@ -85,8 +114,14 @@ const initialProfileData: ProfileData = {
   },
   locations: [],
   remote_preference: 'flexible',
+  company_size: [],
+  industry_preferences: [],
   employment_type: 'full_time',
   selected_roles: [],
+  educations: [],
+  work_experiences: [],
+  skills: [],
+  role_seniority: [],
   
   onboarding_completed: false,
   completed_steps: [],
@@ -108,8 +143,13 @@ const ProfileContext = createContext<ProfileContextType>({
   completeStep: () => {},
   saveProfile: async () => true,
   isOnboardingComplete: false,
+  onboardingSteps: DEFAULT_ONBOARDING_FLOW,
 });
 
+// Lists saved by replacing every row with what's in the profile, which is
+// only safe when the profile holds what was loaded
+type ReplacedList = 'work_experiences' | 'educations' | 'skills' | 'role_seniority';
+
 interface ProfileProviderProps {
   children: ReactNode;
 }
@@ -125,45 +165,27 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
     employmentDetails: false,
     roles: false,
   });
+  const [onboardingFlows, setOnboardingFlows] = useState<OnboardingFlow[]>([]);
+  const [careerRoles, setCareerRoles] = useState<Role[]>([]);
+  // Lists that failed to load, which saving must not replace
+  const unloadedListsRef = useRef<Set<ReplacedList>>(new Set());
+
+  // The flow follows the candidate's roles, so it can change during onboarding
+  const selectedRoles = profileData?.selected_roles;
+  const onboardingSteps = React.useMemo(
+    () => selectOnboardingFlow(onboardingFlows, selectedRoles || [], careerRoles),
+    [onboardingFlows, selectedRoles, careerRoles]
+  );
 
-  // Compute if onboarding is complete - simplified approach
+  // Onboarding is complete once the flow is finished or its required steps are done
   const isOnboardingComplete = React.useMemo(() => {
-    // Debug logging
-    console.log('ProfileContext: Calculating onboarding status', {
-      hasProfileData: !!profileData,
-      onboardingCompletedFlag: profileData?.onboarding_completed,
-      completedStepsCount: profileData?.completed_steps?.length || 0,
-      selectedRolesCount: profileData?.selected_roles?.length || 0
-    });
-    
     // If still loading or no profile data, definitely not complete
     if (isLoading || !profileData) {
-      console.log('ProfileContext: Still loading or no data, onboarding status => false');
       return false;
     }
-    
-    // Primary check: explicit flag in database
-    if (profileData.onboarding_completed === true) {
-      console.log('ProfileContext: Database flag is true, onboarding status => true');
-      return true;
-    }
-    
-    // Secondary check: minimum criteria for a valid profile
-    const hasMinimumRequirements = (
-      // Must have selected at least one role
-      profileData.selected_roles?.length > 0 &&
-      // Must have completed at least 2 steps (welcome + role selection at minimum)
-      profileData.completed_steps?.length >= 2
-    );
-    
-    console.log('ProfileContext: Minimum requirements check:', {
-      hasMinimumRequirements,
-      selectedRoles: profileData.selected_roles,
-      completedSteps: profileData.completed_steps
-    });
-    
-    return hasMinimumRequirements;
-  }, [profileData, isLoading]);
+
+    return isOnboardingFinished(getOnboardingRecord(profileData), onboardingSteps);
+  }, [profileData, isLoading, onboardingSteps]);
 
   // Load profile data on mount
   useEffect(() => {
@@ -231,6 +253,54 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
         console.error(`ProfileContext: Error loading onboarding status (ID: ${loadId}):`, onboardingError);
       }
 
+      const unloadedLists = new Set<ReplacedList>();
+
+      // Get education history
+      const { data: educations, error: educationsError } = await EducationService.getEducations(user.id);
+      
+      if (educationsError) {
+        console.error(`ProfileContext: Error loading education (ID: ${loadId}):`, educationsError);
+        unloadedLists.add('educations');
+      }
+      
+      // Get work history
+      const { data: workExperiences, error: workExperiencesError } = await WorkExperienceService.getWorkExperiences(user.id);
+      
+      if (workExperiencesError) {
+        console.error(`ProfileContext: Error loading work experience (ID: ${loadId}):`, workExperiencesError);
+        unloadedLists.add('work_experiences');
+      }
+
+      // Get skills
+      const { data: skills, error: skillsError } = await SkillService.getCandidateSkills(user.id);
+      
+      if (skillsError) {
+        console.error(`ProfileContext: Error loading skills (ID: ${loadId}):`, skillsError);
+        unloadedLists.add('skills');
+      }
+
+      // Get experience level per role
+      const { data: roleSeniority, error: roleSeniorityError } = await SeniorityService.getRoleSeniority(user.id);
+      
+      if (roleSeniorityError) {
+        console.error(`ProfileContext: Error loading seniority (ID: ${loadId}):`, roleSeniorityError);
+        unloadedLists.add('role_seniority');
+      }
+
+      // Get the onboarding flows; without them everyone gets the built-in flow
+      const { data: flows, error: flowsError } = await OnboardingFlowService.getFlows();
+
+      if (flowsError) {
+        console.error(`ProfileContext: Error loading onboarding flows (ID: ${loadId}):`, flowsError);
+      }
+
+      // Get the role catalogue, which picks the flow and resolves merged roles
+      const { data: roles, error: rolesError } = await RoleService.getRoles();
+
+      if (rolesError) {
+        console.error(`ProfileContext: Error loading roles (ID: ${loadId}):`, rolesError);
+      }
+
       console.log(`ProfileContext: Data fetched (ID: ${loadId})`, { 
         hasProfileData: !!profileData, 
         hasPreferencesData: !!preferencesData, 
@@ -260,11 +330,23 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
         company_stage_preferences: preferencesData?.company_stage_preferences || initialProfileData.company_stage_preferences,
         locations: preferencesData?.locations || [],
         remote_preference: preferencesData?.remote_preference || 'flexible',
+        work_environment: (preferencesData?.work_environment as ProfileData['work_environment']) || undefined,
+        salary_min: preferencesData?.salary_min ?? undefined,
+        salary_max: preferencesData?.salary_max ?? undefined,
+        travel_preference: (preferencesData?.travel_preference as ProfileData['travel_preference']) || undefined,
+        company_size: preferencesData?.company_size || [],
+        industry_preferences: preferencesData?.industry_preferences || [],
         
         graduation_date: preferencesData?.graduation_date || null,
+        education_level: preferencesData?.education_level || null,
+        educations: educations || [],
         employment_type: preferencesData?.employment_type || 'full_time',
         
-        selected_roles: onboardingData?.selected_roles || [],
+        // Roles merged since they were picked are swapped for their replacement
+        selected_roles: resolveRoleIds(roles || [], onboardingData?.selected_roles || []),
+        work_experiences: workExperiences || [],
+        skills: skills || [],
+        role_seniority: resolveRoleSeniority(roles || [], roleSeniority || []),
         
         onboarding_completed: onboardingData?.completed || false,
         completed_steps: onboardingData?.completed_steps || [],
@@ -277,7 +359,10 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
         selectedRolesCount: combinedData.selected_roles.length
       });
       
+      unloadedListsRef.current = unloadedLists;
       setProfileData(combinedData);
+      setOnboardingFlows(flows || []);
+      setCareerRoles(roles || []);
       calculateCompletionStatus(combinedData);
     } catch (error) {
       console.error(`ProfileContext: Error in loadProfileData (ID: ${loadId}):`, error);
@@ -375,21 +460,41 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
     setCompletionStatus(status);
   };
   
-  // Save profile data to Supabase
-  const saveProfile = async () => {
+  // Saving a list that failed to load would delete the candidate's rows.
+  // Skip it, failing the save only if the candidate has since added entries.
+  const saveReplacedList = async (
+    list: ReplacedList,
+    items: unknown[],
+    save: () => Promise<{ error?: string }>
+  ): Promise<{ error?: string }> => {
+    if (!unloadedListsRef.current.has(list)) return save();
+
+    console.warn(`ProfileContext: Skipping save of ${list}, which failed to load`);
+    return items.length > 0 ? { error: `${list} failed to load; reload before saving it` } : {};
+  };
+
+  // Save profile data to Supabase. Changes made in the same tick haven't
+  // reached profileData yet, so they're passed in and saved with it.
+  const saveProfile = async (changes: Partial<ProfileData> = {}) => {
     if (!profileData) {
       console.error('ProfileContext: saveProfile called but profileData is null');
       return;
     }
+
+    if (Object.keys(changes).length > 0) {
+      await updateProfile(changes);
+    }
+    const data: ProfileData = { ...profileData, ...changes };
+    const onboardingComplete = isOnboardingFinished(getOnboardingRecord(data), onboardingSteps);
     
     console.log('ProfileContext: saveProfile called with data:', {
-      id: profileData.id,
-      full_name: profileData.full_name,
-      email: profileData.email,
-      phone_number: profileData.phone_number,
-      location: profileData.location,
-      completed_steps: profileData.completed_steps,
-      onboardingComplete: isOnboardingComplete,
+      id: data.id,
+      full_name: data.full_name,
+      email: data.email,
+      phone_number: data.phone_number,
+      location: data.location,
+      completed_steps: data.completed_steps,
+      onboardingComplete,
       completionStatus
     });
     
@@ -401,17 +506,17 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
       
       // Create profile data payload for update
       const profilePayload = {
-        id: profileData.id,
-        full_name: profileData.full_name,
-        email: profileData.email,
-        avatar_url: profileData.avatar_url,
-        linkedin_url: profileData.linkedin_url,
-        github_url: profileData.github_url,
-        website_url: profileData.website_url,
-        phone_number: profileData.phone_number,
-        location: profileData.location,
-        title: profileData.title,
-        bio: profileData.bio
+        id: data.id,
+        full_name: data.full_name,
+        email: data.email,
+        avatar_url: data.avatar_url,
+        linkedin_url: data.linkedin_url,
+        github_url: data.github_url,
+        website_url: data.website_url,
+        phone_number: data.phone_number,
+        location: data.location,
+        title: data.title,
+        bio: data.bio
       };
       
       console.log('ProfileContext: saveProfile - profile payload:', {
@@ -435,13 +540,20 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
       
       // Update preferences table
       const preferencesPayload = {
-        user_id: profileData.id,
-        company_stage_preferences: profileData.company_stage_preferences,
-        locations: profileData.locations,
-        remote_preference: profileData.remote_preference,
-        graduation_date: profileData.graduation_date,
-        employment_type: profileData.employment_type,
-        resume_url: profileData.resume_url,
+        user_id: data.id,
+        company_stage_preferences: data.company_stage_preferences,
+        locations: data.locations,
+        remote_preference: data.remote_preference,
+        work_environment: data.work_environment ?? null,
+        salary_min: data.salary_min ?? null,
+        salary_max: data.salary_max ?? null,
+        travel_preference: data.travel_preference ?? null,
+        company_size: data.company_size,
+        industry_preferences: data.industry_preferences,
+        graduation_date: data.graduation_date,
+        education_level: data.education_level,
+        employment_type: data.employment_type,
+        resume_url: data.resume_url,
       };
       
       const { data: preferencesResult, error: preferencesError } = await supabase
@@ -458,10 +570,10 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
       
       // Update onboarding status
       const onboardingPayload = {
-        user_id: profileData.id,
-        selected_roles: profileData.selected_roles,
-        completed_steps: profileData.completed_steps,
-        completed: isOnboardingComplete,
+        user_id: data.id,
+        selected_roles: data.selected_roles,
+        completed_steps: data.completed_steps,
+        completed: onboardingComplete,
       };
       
       const { data: onboardingResult, error: onboardingError } = await supabase
@@ -473,7 +585,68 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
         saveSuccessful = false;
         // Don't throw to allow partial saves
       } else {
-        console.log('ProfileContext: saveProfile - updated user_onboarding table, completed:', isOnboardingComplete);
+        console.log('ProfileContext: saveProfile - updated user_onboarding table, completed:', onboardingComplete);
+      }
+      
+      // Update education history
+      const { error: educationsError } = await saveReplacedList(
+        'educations',
+        data.educations,
+        () => EducationService.saveEducations(data.id, data.educations)
+      );
+      
+      if (educationsError) {
+        console.error('ProfileContext: Error updating educations table:', educationsError);
+        saveSuccessful = false;
+        // Don't throw to allow partial saves
+      } else {
+        console.log('ProfileContext: saveProfile - updated educations table');
+      }
+      
+      // Update work history
+      const { error: workExperiencesError } = await saveReplacedList(
+        'work_experiences',
+        data.work_experiences,
+        () => WorkExperienceService.saveWorkExperiences(data.id, data.work_experiences)
+      );
+      
+      if (workExperiencesError) {
+        console.error('ProfileContext: Error updating work_experiences table:', workExperiencesError);
+        saveSuccessful = false;
+        // Don't throw to allow partial saves
+      } else {
+        console.log('ProfileContext: saveProfile - updated work_experiences table');
+      }
+      
+      // Update skills
+      const { error: skillsError } = await saveReplacedList(
+        'skills',
+        data.skills,
+        () => SkillService.saveCandidateSkills(data.id, data.skills)
+      );
+      
+      if (skillsError) {
+        console.error('ProfileContext: Error updating candidate_skills table:', skillsError);
+        saveSuccessful = false;
+        // Don't throw to allow partial saves
+      } else {
+        console.log('ProfileContext: saveProfile - updated candidate_skills table');
+      }
+      
+      // Update seniority, dropping roles the candidate deselected
+      const roleSeniority = data.role_seniority.filter(item => data.selected_roles.includes(item.roleId));
+      const { error: roleSeniorityError } = await saveReplacedList(
+        'role_seniority',
+        roleSeniority,
+        () => SeniorityService.saveRoleSeniority(data.id, roleSeniority)
+      );
+      
+      if (roleSeniorityError) {
+        console.error('ProfileContext: Error updating candidate_role_seniority table:', roleSeniorityError);
+        saveSuccessful = false;
+        // Don't throw to allow partial saves
+      } else {
+        console.log('ProfileContext: saveProfile - updated candidate_role_seniority table');
       }
       
       // Verify saved data with a fresh fetch to confirm - but don't let it block the save process
@@ -481,20 +654,20 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
         const { data: verifyData, error: verifyError } = await supabase
           .from('profiles')
           .select('phone_number, location')
-          .eq('id', profileData.id)
+          .eq('id', data.id)
           .single();
           
         if (!verifyError && verifyData) {
           console.log('ProfileContext: Verification of saved data:', {
             phone_number: {
-              original: profileData.phone_number,
+              original: data.phone_number,
               saved: verifyData.phone_number,
-              match: profileData.phone_number === verifyData.phone_number
+              match: data.phone_number === verifyData.phone_number
             },
             location: {
-              original: profileData.location,
+              original: data.location,
               saved: verifyData.location,
-              match: profileData.location === verifyData.location
+              match: data.location === verifyData.location
             }
           });
         }
@@ -528,6 +701,7 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) =>
     completeStep,
     saveProfile,
     isOnboardingComplete,
+    onboardingSteps,
   };
   
   return (
@@ -26,15 +26,27 @@ export type UserRole = {
   permissions?: string[];
 };
 
+// Permissions each role grants on top of basic_access
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['admin_access', 'view_candidate_resumes'],
+  recruiter: ['view_candidate_resumes'],
+};
+
+const permissionsForRoles = (roles: UserRole[]) =>
+  new Set(['basic_access', ...roles.flatMap(role => ROLE_PERMISSIONS[role.name] || [])]);
+
 type UserContextType = {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
   roles: UserRole[];
   isLoading: boolean;
+  // True while the user is signed in through a password reset link
+  isPasswordRecovery: boolean;
   hasRole: (roleName: string) => boolean;
   hasPermission: (permissionName: string) => boolean;
   refreshUserData: () => Promise<void>;
+  completePasswordRecovery: () => void;
 };
 
 // Create context with default values
@@ -44,9 +56,11 @@ const UserContext = createContext<UserContextType>({
   profile: null,
   roles: [],
   isLoading: true,
+  isPasswordRecovery: false,
   hasRole: () => false,
   hasPermission: () => false,
   refreshUserData: async () => {},
+  completePasswordRecovery: () => {},
 });
 
 type UserProviderProps = {
@@ -60,6 +74,8 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
   const [roles, setRoles] = useState<UserRole[]>([]);
   const [permissions, setPermissions] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
+  const navigate = useNavigate();
   const loadingRef = useRef(false);
   const authInitializedRef = useRef(false);
   const mountedRef = useRef(true);
@@ -91,6 +107,7 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     safeSetState(setProfile, null);
     safeSetState(setRoles, []);
     safeSetState(setPermissions, new Set());
+    safeSetState(setIsPasswordRecovery, false);
     safeSetState(setIsLoading, false);
     loadingRef.current = false;
   };
@@ -132,6 +149,13 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
         } else if (nextEvent.event === 'TOKEN_REFRESHED') {
           console.log('🔄 Processing TOKEN_REFRESHED event...');
           safeSetState(setSession, nextEvent.session);
+        } else if (nextEvent.event === 'PASSWORD_RECOVERY') {
+          console.log('🔑 Processing PASSWORD_RECOVERY event...');
+          safeSetState(setSession, nextEvent.session);
+          safeSetState(setUser, nextEvent.session?.user || null);
+          if (nextEvent.session?.user) {
+            await loadUserData(nextEvent.session.user);
+          }
         }
       } catch (error) {
         console.error('❌ Error processing auth event:', error);
@@ -297,12 +321,7 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
               await ensureUserHasDefaultRole(currentUser.id);
             } else {
               safeSetState(setRoles, fetchedRoles);
-              const newPermissions = new Set<string>();
-              newPermissions.add('basic_access');
-              if (fetchedRoles.some(role => role.name === 'admin')) {
-                newPermissions.add('admin_access');
-              }
-              safeSetState(setPermissions, newPermissions);
+              safeSetState(setPermissions, permissionsForRoles(fetchedRoles));
               console.log('✅ Roles and permissions set successfully');
             }
           }
@@ -467,6 +486,11 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
             } else if (event === 'SIGNED_OUT' || event === 'USER_DELETED') {
               // Clear state immediately
               resetStates();
+            } else if (event === 'PASSWORD_RECOVERY') {
+              // The reset link signs the user in; the effect below sends them to choose a new password
+              safeSetState(setSession, newSession);
+              safeSetState(setUser, newSession?.user || null);
+              safeSetState(setIsPasswordRecovery, true);
             }
 
             // Queue the event for full data processing
@@ -500,6 +524,13 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     };
   }, []);
 
+  // A reset link can land anywhere the redirect URL allows, so take the user to the reset page
+  useEffect(() => {
+    if (isPasswordRecovery && window.location.pathname !== '/reset-password') {
+      navigate('/reset-password', { replace: true });
+    }
+  }, [isPasswordRecovery, navigate]);
+
   // Helper functions for permissions
   const hasRole = (roleName: string): boolean => {
     return roles.some(role => role.name === roleName);
@@ -509,6 +540,11 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     return permissions.has(permissionName);
   };
 
+  // Called once the new password is saved
+  const completePasswordRecovery = () => {
+    setIsPasswordRecovery(false);
+  };
+
   // Create context value
   const value: UserContextType = {
     user,
@@ -516,9 +552,11 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     profile,
     roles,
     isLoading,
+    isPasswordRecovery,
     hasRole,
     hasPermission,
     refreshUserData,
+    completePasswordRecovery,
   };
 
   return (
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { ApplicationService } from '../services/applicationService';
+import { Application } from '../types';
+
+/**
+ * Loads the signed-in candidate's applications, most recently updated
+ * first, and lets them withdraw one
+ */
+export function useApplications() {
+  const { user } = useUser();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApplications = useCallback(async () => {
+    if (!user) {
+      setApplications([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await ApplicationService.getApplications(user.id);
+    setApplications(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const withdraw = useCallback(async (applicationId: string) => {
+    setError(null);
+    const { error } = await ApplicationService.withdraw(applicationId);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    const now = new Date();
+    setApplications(prev => prev.map(application =>
+      application.id === applicationId
+        ? {
+            ...application,
+            stage: 'withdrawn',
+            stageChangedAt: { ...application.stageChangedAt, withdrawn: now },
+            updatedAt: now,
+          }
+        : application
+    ));
+    return true;
+  }, []);
+
+  return {
+    applications,
+    isLoading,
+    error,
+    withdraw,
+    reload: loadApplications,
+  };
+}
+
+/**
+ * The signed-in candidate's application to one job, if they've applied to
+ * it. Actions resolve to whether they succeeded.
+ */
+export function useJobApplication(jobId?: string) {
+  const { user } = useUser();
+  const [application, setApplication] = useState<Application | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadApplication = async () => {
+      if (!user || !jobId) {
+        setApplication(null);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const { data, error } = await ApplicationService.getApplicationForJob(user.id, jobId);
+      if (!mounted) return;
+
+      setApplication(data || null);
+      setError(error || null);
+      setIsLoading(false);
+    };
+
+    loadApplication();
+    return () => {
+      mounted = false;
+    };
+  }, [user, jobId]);
+
+  // Runs a write, keeping the application it resolves to
+  const submit = useCallback(async (write: () => Promise<{ data?: Application | null; error?: string }>) => {
+    setIsSubmitting(true);
+    setError(null);
+    const { data, error } = await write();
+    setIsSubmitting(false);
+
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setApplication(data || null);
+    return true;
+  }, []);
+
+  const apply = useCallback(async (resumeVersionId: string | null, coverNote: string) => {
+    if (!user || !jobId) return false;
+    return submit(() => ApplicationService.apply(user.id, jobId, resumeVersionId, coverNote));
+  }, [user, jobId, submit]);
+
+  const withdraw = useCallback(async () => {
+    if (!user || !jobId || !application) return false;
+    const applicationId = application.id;
+    return submit(async () => {
+      const { error } = await ApplicationService.withdraw(applicationId);
+      return error ? { error } : ApplicationService.getApplicationForJob(user.id, jobId);
+    });
+  }, [user, jobId, application, submit]);
+
+  return {
+    application,
+    isLoading,
+    isSubmitting,
+    error,
+    apply,
+    withdraw,
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { CandidateProfile } from '../types';
+import { CandidateService } from '../services/candidateService';
+
+/**
+ * Loads the profile recruiters see for a candidate
+ */
+export function useCandidateProfile(candidateId?: string) {
+  const [candidate, setCandidate] = useState<CandidateProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadCandidate = async () => {
+      if (!candidateId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const { data, error } = await CandidateService.getCandidateProfile(candidateId);
+      if (!mounted) return;
+
+      setCandidate(data || null);
+      setError(error || null);
+      setIsLoading(false);
+    };
+
+    loadCandidate();
+    return () => {
+      mounted = false;
+    };
+  }, [candidateId]);
+
+  return {
+    candidate,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Role } from '../config/roles';
+import { RoleService } from '../services/roleService';
+
+/**
+ * Loads the role catalogue. `roles` includes retired roles so older ids can
+ * still be resolved; `activeRoles` are the ones candidates can pick.
+ */
+export function useCareerRoles() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRoles = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await RoleService.getRoles();
+    setRoles(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const activeRoles = useMemo(() => roles.filter(role => !role.retired), [roles]);
+
+  return {
+    roles,
+    activeRoles,
+    isLoading,
+    error,
+    reload: loadRoles,
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { CompanyProfile } from '../types';
+import { CompanyService } from '../services/companyService';
+
+/**
+ * Loads a company's profile and its open roles
+ */
+export function useCompanyProfile(companyId?: string) {
+  const [company, setCompany] = useState<CompanyProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadCompany = async () => {
+      if (!companyId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const { data, error } = await CompanyService.getCompanyProfile(companyId);
+      if (!mounted) return;
+
+      setCompany(data || null);
+      setError(error || null);
+      setIsLoading(false);
+    };
+
+    loadCompany();
+    return () => {
+      mounted = false;
+    };
+  }, [companyId]);
+
+  return {
+    company,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { createInterviewEngine, InterviewEngine } from '../lib/interview';
+import { InterviewService } from '../services/interviewService';
+import { Role } from '../config/roles';
+import { findRoles } from '../lib/roleCatalogue';
+import { useCareerRoles } from './useCareerRoles';
+import { Interview, InterviewMessage, SkillAssessment } from '../types';
+
+interface UseInterviewOptions {
+  // Role ids the interviewer should tailor its questions to
+  roleIds: string[];
+  // Defaults to the engine selected in config/interview
+  engine?: InterviewEngine;
+}
+
+const createMessage = (sender: InterviewMessage['sender'], content: string): InterviewMessage => ({
+  id: crypto.randomUUID(),
+  sender,
+  content,
+  timestamp: new Date(),
+});
+
+/**
+ * Runs an AI interview conversation, streaming each AI reply as it's generated.
+ * For signed-in candidates the transcript is saved as it grows and an
+ * unfinished interview is resumed where they left off. Finishing the
+ * interview has the server grade it and store the skill assessment.
+ */
+export function useInterview({ roleIds, engine: engineOverride }: UseInterviewOptions) {
+  const { user } = useUser();
+  const { roles: careerRoles } = useCareerRoles();
+  const engine = useMemo(() => engineOverride || createInterviewEngine(), [engineOverride]);
+
+  const [interview, setInterview] = useState<Interview | null>(null);
+  const [messages, setMessages] = useState<InterviewMessage[]>([]);
+  const [streamingMessage, setStreamingMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResponding, setIsResponding] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [assessment, setAssessment] = useState<SkillAssessment | null>(null);
+  const [isAssessing, setIsAssessing] = useState(false);
+  // Set when the interview asked for couldn't be loaded, so there's nothing to chat in
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const hasStartedRef = useRef(false);
+  // Writes are chained so messages and status changes land in order
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Stop any in-flight reply when the chat unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Resolves to whether the message, or for the final turn the interview's
+  // completion, was saved
+  const persist = useCallback((interviewId: string | undefined, message: InterviewMessage | null, isFinal = false) => {
+    if (!interviewId) return Promise.resolve(false);
+
+    const persisted = persistQueueRef.current.then(async () => {
+      // No-op once the interview is already in progress
+      const started = await InterviewService.startInterview(interviewId);
+      const saved = started.error || !message ? started : await InterviewService.appendMessage(interviewId, message);
+      const completed = !saved.error && isFinal
+        ? await InterviewService.completeInterview(interviewId)
+        : saved;
+
+      if (completed.error) {
+        setError(completed.error);
+        return false;
+      }
+
+      setInterview(prev => prev && prev.id === interviewId
+        ? { ...prev, status: isFinal ? 'completed' : 'in_progress' }
+        : prev
+      );
+      return true;
+    });
+    persistQueueRef.current = persisted.then(() => undefined);
+    return persisted;
+  }, []);
+
+  // A saved interview is graded on the server once it's been completed; a
+  // guest's is graded here and not stored
+  const assess = useCallback((
+    session: Interview | null,
+    roles: Role[],
+    transcript: InterviewMessage[],
+    completed: Promise<boolean>
+  ) => {
+    setIsAssessing(true);
+
+    // Queued behind the final message so the interview is completed first
+    persistQueueRef.current = persistQueueRef.current.then(async () => {
+      try {
+        if (!session || !user) {
+          setAssessment(await engine.assess({ roles, messages: transcript }));
+          return;
+        }
+
+        // The error saving it is already showing, and the candidate can retry
+        if (!(await completed)) return;
+
+        const assessed = await InterviewService.assessInterview(session.id);
+        if (assessed.error || !assessed.data) {
+          setError(assessed.error || "We couldn't generate your assessment");
+          return;
+        }
+
+        const record = assessed.data;
+        setAssessment(record);
+        setInterview(prev => prev && prev.id === session.id ? { ...prev, assessment: record } : prev);
+      } catch (err) {
+        console.error('useInterview: Error assessing interview:', err);
+        setError("We couldn't generate your assessment");
+      } finally {
+        setIsAssessing(false);
+      }
+    });
+  }, [engine, user]);
+
+  const requestReply = useCallback(async (transcript: InterviewMessage[], session: Interview | null) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsResponding(true);
+    setStreamingMessage('');
+    setError(null);
+
+    try {
+      // A resumed interview keeps the roles it was started with
+      const roles = findRoles(careerRoles, session?.roleIds.length ? session.roleIds : roleIds);
+      const turn = await engine.respond(
+        { roles, messages: transcript },
+        {
+          signal: controller.signal,
+          onToken: token => setStreamingMessage(prev => prev + token),
+        }
+      );
+
+      const reply = createMessage('ai', turn.content);
+      const fullTranscript = [...transcript, reply];
+      setMessages(fullTranscript);
+      setIsFinished(turn.isFinal);
+      const persisted = persist(session?.id, reply, turn.isFinal);
+
+      if (turn.isFinal) {
+        assess(session, roles, fullTranscript, persisted);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('useInterview: Error getting interviewer reply:', err);
+      setError(err instanceof Error ? err.message : 'The interviewer is unavailable right now');
+    } finally {
+      if (abortRef.current === controller) {
+        setStreamingMessage('');
+        setIsResponding(false);
+      }
+    }
+  }, [engine, careerRoles, roleIds, persist, assess]);
+
+  /**
+   * Resume the given interview, or else the candidate's unfinished one, or
+   * schedule a new one, then ask for the next question if it's the
+   * interviewer's turn
+   */
+  const start = useCallback(async (interviewId?: string) => {
+    if (hasStartedRef.current) return;
+    hasStartedRef.current = true;
+
+    let session: Interview | null = null;
+    if (user) {
+      setIsLoading(true);
+      const resumable = interviewId
+        ? await InterviewService.getInterview(interviewId)
+        : await InterviewService.getResumableInterview(user.id);
+      session = resumable.data || null;
+
+      if (interviewId && !session) {
+        // Missing, someone else's, or failed to load: don't chat without it
+        setIsUnavailable(true);
+        setError(resumable.error || 'Interview not found');
+        setIsLoading(false);
+        return;
+      }
+
+      if (!session && !resumable.error) {
+        const created = await InterviewService.createInterview(user.id, roleIds);
+        session = created.data || null;
+        if (created.error) setError(created.error);
+      } else if (resumable.error) {
+        setError(resumable.error);
+      }
+      setIsLoading(false);
+    }
+
+    const transcript = session?.messages || [];
+    setInterview(session);
+    setMessages(transcript);
+
+    if (session?.status === 'completed') {
+      setIsFinished(true);
+      setAssessment(session.assessment || null);
+      return;
+    }
+
+    const lastMessage = transcript[transcript.length - 1];
+    if (!lastMessage || lastMessage.sender === 'user') {
+      requestReply(transcript, session);
+    }
+  }, [user, roleIds, requestReply]);
+
+  const sendMessage = useCallback((content: string) => {
+    if (isResponding || isFinished || isUnavailable) return;
+    const message = createMessage('user', content);
+    const transcript = [...messages, message];
+    setMessages(transcript);
+    persist(interview?.id, message);
+    requestReply(transcript, interview);
+  }, [messages, interview, isResponding, isFinished, isUnavailable, persist, requestReply]);
+
+  /**
+   * Try again to complete and assess a finished interview that's still
+   * without its assessment
+   */
+  const retryAssessment = useCallback(() => {
+    if (!isFinished || assessment || isAssessing) return;
+
+    setError(null);
+    const roles = findRoles(careerRoles, interview?.roleIds.length ? interview.roleIds : roleIds);
+    assess(interview, roles, messages, persist(interview?.id, null, true));
+  }, [isFinished, assessment, isAssessing, careerRoles, interview, roleIds, messages, assess, persist]);
+
+  return {
+    interview,
+    messages,
+    streamingMessage,
+    isLoading,
+    isResponding,
+    isFinished,
+    assessment,
+    isAssessing,
+    isUnavailable,
+    error,
+    start,
+    sendMessage,
+    retryAssessment,
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { InterviewService } from '../services/interviewService';
+import { Interview } from '../types';
+
+/**
+ * Loads every interview the signed-in candidate has had, newest first
+ */
+export function useInterviews() {
+  const { user } = useUser();
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInterviews = useCallback(async () => {
+    if (!user) {
+      setInterviews([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await InterviewService.getInterviews(user.id);
+    setInterviews(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadInterviews();
+  }, [loadInterviews]);
+
+  return {
+    interviews,
+    // The one starting a new interview would resume instead
+    resumableInterview: interviews.find(interview => interview.status !== 'completed') || null,
+    isLoading,
+    error,
+    reload: loadInterviews,
+  };
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { JobAlertService } from '../services/jobAlertService';
+import { JobAlert } from '../types';
+
+/**
+ * Loads the signed-in candidate's alerts about changes to their saved jobs
+ */
+export function useJobAlerts() {
+  const { user } = useUser();
+  const [alerts, setAlerts] = useState<JobAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    if (!user) {
+      setAlerts([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await JobAlertService.getAlerts(user.id);
+    setAlerts(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  // Optimistically mark the alerts read, rolling back if the write fails
+  const markRead = useCallback(async (alertIds: string[]) => {
+    const ids = new Set(alertIds);
+    const unread = alerts.filter(alert => ids.has(alert.id) && !alert.read).map(alert => alert.id);
+    if (unread.length === 0) return;
+
+    setAlerts(prev => prev.map(alert => (ids.has(alert.id) ? { ...alert, read: true } : alert)));
+
+    const { error } = await JobAlertService.markRead(unread);
+    if (error) {
+      setError(error);
+      setAlerts(prev => prev.map(alert => (unread.includes(alert.id) ? { ...alert, read: false } : alert)));
+    }
+  }, [alerts]);
+
+  const markAllRead = useCallback(
+    () => markRead(alerts.map(alert => alert.id)),
+    [alerts, markRead]
+  );
+
+  return {
+    alerts,
+    unreadCount: alerts.filter(alert => !alert.read).length,
+    isLoading,
+    error,
+    markRead,
+    markAllRead,
+    reload: loadAlerts,
+  };
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { useProfile, ProfileData } from '../contexts/ProfileContext';
+import { JobMatch } from '../types';
+import { JobService, JobMatchStatus } from '../services/jobService';
+import { scoreJobMatches, MatchCandidate } from '../lib/matchScoring';
+import { toUserPreferences } from '../lib/userPreferences';
+import { useSkills } from './useSkills';
+
+// The profile as the scorer sees it, with salary taken from the candidate's preferences
+const toMatchCandidate = (profile: ProfileData): MatchCandidate => ({
+  ...profile,
+  salaryExpectation: toUserPreferences(profile).salaryExpectation,
+});
+
+/**
+ * Loads the signed-in candidate's job matches, scored against their profile,
+ * and persists status changes
+ */
+export function useJobMatches() {
+  const { user } = useUser();
+  const { profileData } = useProfile();
+  const { skillIndex } = useSkills();
+  const [jobMatches, setJobMatches] = useState<JobMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobMatches = useCallback(async () => {
+    if (!user) {
+      setJobMatches([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await JobService.getJobMatches(user.id);
+    setJobMatches(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadJobMatches();
+  }, [loadJobMatches]);
+
+  // Optimistically apply the new status, rolling back if the write fails
+  const updateStatus = useCallback(async (matchId: string, status: JobMatchStatus) => {
+    const previous = jobMatches.find(match => match.id === matchId);
+    if (!previous) return;
+
+    setJobMatches(prev => prev.map(match =>
+      match.id === matchId ? { ...match, status } : match
+    ));
+
+    const { error } = await JobService.updateJobMatchStatus(matchId, status);
+    if (error) {
+      setError(error);
+      setJobMatches(prev => prev.map(match =>
+        match.id === matchId ? { ...match, status: previous.status } : match
+      ));
+    }
+  }, [jobMatches]);
+
+  // Best first: rescoring can change the order the stored percentages gave
+  const scoredJobMatches = useMemo(
+    () => (profileData
+      ? scoreJobMatches(jobMatches, toMatchCandidate(profileData), skillIndex)
+        .sort((a, b) => b.matchPercentage - a.matchPercentage)
+      : jobMatches),
+    [jobMatches, profileData, skillIndex]
+  );
+
+  return {
+    jobMatches: scoredJobMatches,
+    isLoading,
+    error,
+    updateStatus,
+    reload: loadJobMatches,
+  };
+}
+
+/**
+ * Loads a single job match by id, scored against the candidate's profile,
+ * and persists the resume attached to it
+ */
+export function useJobMatch(matchId?: string) {
+  const { profileData } = useProfile();
+  const { skillIndex } = useSkills();
+  const [jobMatch, setJobMatch] = useState<JobMatch | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadJobMatch = async () => {
+      if (!matchId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const { data, error } = await JobService.getJobMatch(matchId);
+      if (!mounted) return;
+
+      setJobMatch(data || null);
+      setError(error || null);
+      setIsLoading(false);
+    };
+
+    loadJobMatch();
+    return () => {
+      mounted = false;
+    };
+  }, [matchId]);
+
+  // Optimistically attach the resume, rolling back if the write fails
+  const attachResume = useCallback(async (resumeVersionId: string | null) => {
+    if (!jobMatch) return;
+    const previous = jobMatch.resumeVersionId;
+
+    setJobMatch(prev => prev && { ...prev, resumeVersionId: resumeVersionId || undefined });
+
+    const { error } = await JobService.attachResume(jobMatch.id, resumeVersionId);
+    if (error) {
+      setError(error);
+      setJobMatch(prev => prev && { ...prev, resumeVersionId: previous });
+    }
+  }, [jobMatch]);
+
+  const scoredJobMatch = useMemo(
+    () => (jobMatch && profileData
+      ? scoreJobMatches([jobMatch], toMatchCandidate(profileData), skillIndex)[0]
+      : jobMatch),
+    [jobMatch, profileData, skillIndex]
+  );
+
+  return { jobMatch: scoredJobMatch, isLoading, error, attachResume };
+}
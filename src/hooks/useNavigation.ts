@@ -4,7 +4,30 @@ import { OnboardingStep } from '../types';
 
 // Type definitions for navigation
 export type NavigationMode = 'onboarding' | 'profile' | 'dashboard';
-export type ProfileSection = 'personal' | 'education' | 'experience' | 'preferences' | 'summary';
+export type ProfileSection =
+  | 'personal'
+  | 'roles'
+  | 'github'
+  | 'portfolio'
+  | 'experience'
+  | 'preferences'
+  | 'education'
+  | 'resume';
+
+// Each has its own /profile/:section URL. The sidebar lists the ones in the candidate's onboarding flow.
+export const PROFILE_SECTIONS: ProfileSection[] = [
+  'personal',
+  'roles',
+  'github',
+  'portfolio',
+  'experience',
+  'preferences',
+  'education',
+  'resume',
+];
+
+export const isProfileSection = (value: string | undefined): value is ProfileSection =>
+  !!value && PROFILE_SECTIONS.includes(value as ProfileSection);
 
 interface NavigationState {
   mode: NavigationMode;
@@ -29,20 +52,20 @@ export function useNavigation() {
   }, [navigate]);
 
   // Profile navigation
-  const goToProfile = useCallback((section?: ProfileSection) => {
+  const goToProfile = useCallback((section?: ProfileSection, replace = false) => {
     if (section) {
-      navigate(`/profile/${section}`);
+      navigate(`/profile/${section}`, { replace });
     } else {
-      navigate('/profile');
+      navigate('/profile', { replace });
     }
   }, [navigate]);
 
   const goToNextProfileSection = useCallback(() => {
     const currentSection = location.pathname.split('/').pop() as ProfileSection;
-    const sections: ProfileSection[] = ['personal', 'education', 'experience', 'preferences'];
-    const currentIndex = sections.indexOf(currentSection);
-    const nextSection = sections[currentIndex + 1] || 'summary';
-    goToProfile(nextSection);
+    const nextSection = PROFILE_SECTIONS[PROFILE_SECTIONS.indexOf(currentSection) + 1];
+    if (nextSection) {
+      goToProfile(nextSection);
+    }
   }, [location.pathname, goToProfile]);
 
   // Onboarding navigation
@@ -66,6 +89,32 @@ export function useNavigation() {
     navigate(`/jobs/${jobId}`);
   }, [navigate]);
 
+  const goToMatches = useCallback(() => {
+    navigate('/matches');
+  }, [navigate]);
+
+  const goToApplications = useCallback(() => {
+    navigate('/applications');
+  }, [navigate]);
+
+  const goToSavedJobs = useCallback(() => {
+    navigate('/saved');
+  }, [navigate]);
+
+  // Without an id, opens the candidate's unfinished interview or starts a new one
+  const goToInterview = useCallback((interviewId?: string) => {
+    navigate(`/interviews/${interviewId || 'new'}`);
+  }, [navigate]);
+
+  // The profile recruiters see
+  const goToCandidateProfile = useCallback((candidateId: string) => {
+    navigate(`/candidates/${candidateId}`);
+  }, [navigate]);
+
+  const goToCompany = useCallback((companyId: string) => {
+    navigate(`/companies/${companyId}`);
+  }, [navigate]);
+
   // Auth routes
   const goToSignIn = useCallback(() => {
     navigate('/signin');
@@ -104,6 +153,12 @@ export function useNavigation() {
     // Dashboard and other routes
     goToDashboard,
     goToJobDetails,
+    goToMatches,
+    goToApplications,
+    goToSavedJobs,
+    goToInterview,
+    goToCandidateProfile,
+    goToCompany,
     
     // Auth routes
     goToSignIn,
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { NewReferral, ReferralService } from '../services/referralService';
+import { Referral } from '../types';
+
+/**
+ * Loads the friends the signed-in candidate has referred and how far each
+ * has got, and manages referrals
+ */
+export function useReferrals() {
+  const { user } = useUser();
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReferrals = useCallback(async () => {
+    if (!user) {
+      setReferrals([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await ReferralService.getReferrals(user.id);
+    setReferrals(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadReferrals();
+  }, [loadReferrals]);
+
+  // Resolves to the new referral, then emails the friend their invitation.
+  // A referral whose email failed is still returned, without invitationSentAt.
+  const createReferral = useCallback(async (referral: NewReferral) => {
+    if (!user) return null;
+
+    setIsSubmitting(true);
+    setError(null);
+    const { data, error } = await ReferralService.createReferral(user.id, referral);
+    if (error || !data) {
+      setIsSubmitting(false);
+      setError(error || 'Failed to refer your friend');
+      return null;
+    }
+
+    const { data: sentAt, error: sendError } = await ReferralService.sendInvitation(data.id);
+    setIsSubmitting(false);
+    if (sendError) setError(sendError);
+
+    const created = sentAt ? { ...data, invitationSentAt: sentAt } : data;
+    setReferrals(prev => [created, ...prev]);
+    return created;
+  }, [user]);
+
+  // Resolves to when the invitation was sent, or null if it wasn't
+  const sendInvitation = useCallback(async (referralId: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    const { data, error } = await ReferralService.sendInvitation(referralId);
+    setIsSubmitting(false);
+    if (error || !data) {
+      setError(error || 'Failed to send the invitation');
+      return null;
+    }
+
+    setReferrals(prev => prev.map(referral =>
+      referral.id === referralId ? { ...referral, invitationSentAt: data } : referral
+    ));
+    return data;
+  }, []);
+
+  const cancelReferral = useCallback(async (referralId: string) => {
+    setError(null);
+    const { error } = await ReferralService.cancelReferral(referralId);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setReferrals(prev => prev.filter(referral => referral.id !== referralId));
+    return true;
+  }, []);
+
+  return {
+    referrals,
+    isLoading,
+    isSubmitting,
+    error,
+    createReferral,
+    sendInvitation,
+    cancelReferral,
+    reload: loadReferrals,
+  };
+}
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { ResumeService } from '../services/resumeService';
+import { ResumeVersion } from '../types';
+import { ServiceResult } from '../services/types';
+
+/**
+ * Who may open a resume, based on the signed-in user's roles: the candidate
+ * who owns it, or anyone with the view_candidate_resumes permission
+ * (recruiters and admins). Storage policies enforce the same rule, this
+ * just avoids asking for URLs that would be refused.
+ */
+export function useResumeAccess() {
+  const { user, hasPermission } = useUser();
+
+  const canViewResume = useCallback(
+    (ownerId: string) => !!user && (user.id === ownerId || hasPermission('view_candidate_resumes')),
+    [user, hasPermission]
+  );
+
+  const getResumeUrl = useCallback(async (
+    version: ResumeVersion,
+    options: { download?: boolean } = {}
+  ): Promise<ServiceResult<string>> => {
+    if (!canViewResume(version.ownerId)) {
+      return { error: "You don't have access to this resume" };
+    }
+    return ResumeService.createSignedUrl(version, options);
+  }, [canViewResume]);
+
+  return { canViewResume, getResumeUrl };
+}
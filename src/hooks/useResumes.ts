@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { ResumeService } from '../services/resumeService';
+import { useResumeAccess } from './useResumeAccess';
+import { Resume, ResumeVersion } from '../types';
+
+// Primary first, then most recently updated, matching ResumeService.getResumes
+const sortResumes = (resumes: Resume[]) =>
+  [...resumes].sort((a, b) =>
+    Number(b.isPrimary) - Number(a.isPrimary) || b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
+
+/**
+ * Loads the signed-in candidate's resumes and manages uploads, versions,
+ * renames and the primary resume. Actions resolve to whether they succeeded.
+ */
+export function useResumes() {
+  const { user } = useUser();
+  const { getResumeUrl } = useResumeAccess();
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadResumes = useCallback(async () => {
+    if (!user) {
+      setResumes([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await ResumeService.getResumes(user.id);
+    setResumes(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadResumes();
+  }, [loadResumes]);
+
+  // A candidate's first resume becomes their primary one
+  const uploadResume = useCallback(async (name: string, file: File) => {
+    if (!user) return false;
+
+    setError(null);
+    const { data, error } = await ResumeService.createResume(user.id, name, file, {
+      isPrimary: resumes.length === 0,
+    });
+    if (error || !data) {
+      setError(error || 'Failed to upload resume');
+      return false;
+    }
+
+    setResumes(prev => sortResumes([...prev, data]));
+    return true;
+  }, [user, resumes.length]);
+
+  const uploadVersion = useCallback(async (resumeId: string, file: File) => {
+    if (!user) return false;
+
+    setError(null);
+    const { data, error } = await ResumeService.addVersion(user.id, resumeId, file);
+    if (error || !data) {
+      setError(error || 'Failed to upload resume');
+      return false;
+    }
+
+    setResumes(prev => sortResumes(prev.map(resume =>
+      resume.id === resumeId
+        ? { ...resume, versions: [data, ...resume.versions], updatedAt: data.createdAt }
+        : resume
+    )));
+    return true;
+  }, [user]);
+
+  const renameResume = useCallback(async (resumeId: string, name: string) => {
+    setError(null);
+    const { error } = await ResumeService.renameResume(resumeId, name);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setResumes(prev => prev.map(resume =>
+      resume.id === resumeId ? { ...resume, name: name.trim() } : resume
+    ));
+    return true;
+  }, []);
+
+  const setPrimaryResume = useCallback(async (resumeId: string) => {
+    setError(null);
+    const { error } = await ResumeService.setPrimaryResume(resumeId);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setResumes(prev => sortResumes(prev.map(resume => ({ ...resume, isPrimary: resume.id === resumeId }))));
+    return true;
+  }, []);
+
+  // Deleting the primary resume promotes the most recently updated one left
+  const deleteResume = useCallback(async (resumeId: string) => {
+    const resume = resumes.find(item => item.id === resumeId);
+    if (!resume) return false;
+
+    setError(null);
+    const { error } = await ResumeService.deleteResume(resume);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    const remaining = resumes.filter(item => item.id !== resumeId);
+    setResumes(remaining);
+
+    if (resume.isPrimary && remaining.length > 0) {
+      await setPrimaryResume(remaining[0].id);
+    }
+    return true;
+  }, [resumes, setPrimaryResume]);
+
+  // Signed URLs expire quickly, so one is requested each time a file is opened
+  const getFileUrl = useCallback(async (version: ResumeVersion, options: { download?: boolean } = {}) => {
+    const { data, error } = await getResumeUrl(version, options);
+    if (error) setError(error);
+    return data || null;
+  }, [getResumeUrl]);
+
+  return {
+    resumes,
+    primaryResume: resumes.find(resume => resume.isPrimary) || null,
+    isLoading,
+    error,
+    uploadResume,
+    uploadVersion,
+    renameResume,
+    setPrimaryResume,
+    deleteResume,
+    getFileUrl,
+    reload: loadResumes,
+  };
+}
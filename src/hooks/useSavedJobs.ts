@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { SavedJobService } from '../services/savedJobService';
+import { SavedJob, SavedJobList } from '../types';
+
+/**
+ * Loads the signed-in candidate's saved jobs and the lists they're grouped
+ * into, and manages both. Actions resolve to whether they succeeded.
+ */
+export function useSavedJobs() {
+  const { user } = useUser();
+  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([]);
+  const [lists, setLists] = useState<SavedJobList[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavedJobs = useCallback(async () => {
+    if (!user) {
+      setSavedJobs([]);
+      setLists([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const [savedJobsResult, listsResult] = await Promise.all([
+      SavedJobService.getSavedJobs(user.id),
+      SavedJobService.getLists(user.id),
+    ]);
+    setSavedJobs(savedJobsResult.data || []);
+    setLists(listsResult.data || []);
+    setError(savedJobsResult.error || listsResult.error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadSavedJobs();
+  }, [loadSavedJobs]);
+
+  const saveJob = useCallback(async (jobId: string, listId: string | null = null) => {
+    if (!user) return false;
+
+    setError(null);
+    const { data, error } = await SavedJobService.saveJob(user.id, jobId, listId);
+    if (error || !data) {
+      setError(error || 'Failed to save job');
+      return false;
+    }
+
+    setSavedJobs(prev => [data, ...prev.filter(savedJob => savedJob.id !== data.id)]);
+    return true;
+  }, [user]);
+
+  const unsaveJob = useCallback(async (savedJobId: string) => {
+    setError(null);
+    const { error } = await SavedJobService.unsaveJob(savedJobId);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setSavedJobs(prev => prev.filter(savedJob => savedJob.id !== savedJobId));
+    return true;
+  }, []);
+
+  const moveToList = useCallback(async (savedJobId: string, listId: string | null) => {
+    setError(null);
+    const { error } = await SavedJobService.moveToList(savedJobId, listId);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setSavedJobs(prev => prev.map(savedJob =>
+      savedJob.id === savedJobId ? { ...savedJob, listId: listId || undefined } : savedJob
+    ));
+    return true;
+  }, []);
+
+  const createList = useCallback(async (name: string) => {
+    if (!user || !name.trim()) return null;
+
+    setError(null);
+    const { data, error } = await SavedJobService.createList(user.id, name);
+    if (error || !data) {
+      setError(error || 'Failed to create list');
+      return null;
+    }
+
+    setLists(prev => [...prev, data]);
+    return data;
+  }, [user]);
+
+  // The list's jobs stay saved, outside any list
+  const deleteList = useCallback(async (listId: string) => {
+    setError(null);
+    const { error } = await SavedJobService.deleteList(listId);
+    if (error) {
+      setError(error);
+      return false;
+    }
+
+    setLists(prev => prev.filter(list => list.id !== listId));
+    setSavedJobs(prev => prev.map(savedJob =>
+      savedJob.listId === listId ? { ...savedJob, listId: undefined } : savedJob
+    ));
+    return true;
+  }, []);
+
+  const findSavedJob = useCallback(
+    (jobId?: string) => savedJobs.find(savedJob => savedJob.jobId === jobId) || null,
+    [savedJobs]
+  );
+
+  return {
+    savedJobs,
+    lists,
+    isLoading,
+    error,
+    findSavedJob,
+    saveJob,
+    unsaveJob,
+    moveToList,
+    createList,
+    deleteList,
+    reload: loadSavedJobs,
+  };
+}
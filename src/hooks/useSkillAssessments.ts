@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { InterviewService } from '../services/interviewService';
+import { SkillAssessmentRecord } from '../types';
+
+/**
+ * Loads the signed-in candidate's interview assessments, newest first
+ */
+export function useSkillAssessments() {
+  const { user } = useUser();
+  const [assessments, setAssessments] = useState<SkillAssessmentRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAssessments = useCallback(async () => {
+    if (!user) {
+      setAssessments([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await InterviewService.getAssessments(user.id);
+    setAssessments(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadAssessments();
+  }, [loadAssessments]);
+
+  return {
+    assessments,
+    latestAssessment: assessments[0] || null,
+    isLoading,
+    error,
+    reload: loadAssessments,
+  };
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SkillDefinition } from '../types';
+import { SkillService } from '../services/skillService';
+import { buildSkillIndex } from '../lib/skills';
+
+/**
+ * Loads the skills taxonomy, with an index for resolving names and aliases
+ * to skills
+ */
+export function useSkills() {
+  const [skills, setSkills] = useState<SkillDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSkills = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await SkillService.getSkills();
+    setSkills(data || []);
+    setError(error || null);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSkills();
+  }, [loadSkills]);
+
+  const skillIndex = useMemo(() => buildSkillIndex(skills), [skills]);
+
+  return {
+    skills,
+    skillIndex,
+    isLoading,
+    error,
+    reload: loadSkills,
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { APPLICATION_STAGES, canTransition, isActiveApplication, stagesLeadingTo } from '../applications';
+
+describe('canTransition', () => {
+  it('moves an application forward through the pipeline', () => {
+    expect(canTransition('applied', 'screening')).toBe(true);
+    expect(canTransition('applied', 'interviewing')).toBe(true);
+    expect(canTransition('interviewing', 'offer')).toBe(true);
+  });
+
+  it('never moves an application back a stage', () => {
+    expect(canTransition('interviewing', 'screening')).toBe(false);
+    expect(canTransition('offer', 'interviewing')).toBe(false);
+  });
+
+  it('makes an offer only after interviewing', () => {
+    expect(canTransition('applied', 'offer')).toBe(false);
+    expect(canTransition('screening', 'offer')).toBe(false);
+  });
+
+  it('closes a rejected application for good', () => {
+    APPLICATION_STAGES.forEach(stage => expect(canTransition('rejected', stage)).toBe(false));
+  });
+
+  it('lets a withdrawn application be sent again', () => {
+    expect(canTransition('withdrawn', 'applied')).toBe(true);
+    expect(canTransition('withdrawn', 'screening')).toBe(false);
+  });
+
+  it('ignores moves to the same stage', () => {
+    APPLICATION_STAGES.forEach(stage => expect(canTransition(stage, stage)).toBe(false));
+  });
+});
+
+describe('stagesLeadingTo', () => {
+  it('lists every stage that can move to the target, in pipeline order', () => {
+    expect(stagesLeadingTo('interviewing')).toEqual(['applied', 'screening']);
+    expect(stagesLeadingTo('offer')).toEqual(['interviewing']);
+    expect(stagesLeadingTo('withdrawn')).toEqual(['applied', 'screening', 'interviewing', 'offer']);
+    expect(stagesLeadingTo('applied')).toEqual(['withdrawn']);
+  });
+
+  it('rejects any application that is still open', () => {
+    expect(stagesLeadingTo('rejected')).toEqual(APPLICATION_STAGES.filter(isActiveApplication));
+  });
+});
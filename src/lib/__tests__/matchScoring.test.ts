@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { MatchCandidate, scoreJobMatches, scoreMatch } from '../matchScoring';
+import { JobMatch, JobRequirements, MatchFactorId } from '../../types';
+
+const job = (requirements: Partial<JobRequirements> = {}): JobRequirements => ({
+  roleIds: [],
+  locations: [],
+  remotePolicy: null,
+  employmentType: null,
+  companyStage: null,
+  seniority: null,
+  skills: [],
+  salaryRange: null,
+  ...requirements,
+});
+
+const candidate = (profile: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  selected_roles: [],
+  locations: [],
+  remote_preference: 'flexible',
+  employment_type: 'full_time',
+  company_stage_preferences: { early_stage: 'neutral', late_stage: 'neutral', enterprise: 'neutral' },
+  ...profile,
+});
+
+const factorOf = (id: MatchFactorId, requirements: Partial<JobRequirements>, profile: Partial<MatchCandidate>) =>
+  scoreMatch(job(requirements), candidate(profile)).factors.find(f => f.id === id)!;
+
+describe('scoreMatch', () => {
+  it('scores 100 when the job states no requirements', () => {
+    const breakdown = scoreMatch(job(), candidate());
+
+    expect(breakdown.overall).toBe(100);
+    expect(breakdown.factors.every(f => !f.applicable)).toBe(true);
+  });
+
+  it('leaves factors the job does not specify out of the overall score', () => {
+    const breakdown = scoreMatch(
+      job({ roleIds: ['frontend-engineer'], employmentType: 'contract' }),
+      candidate({ selected_roles: ['frontend-engineer'] })
+    );
+
+    // Role (weight 30) matches, employment type (weight 10) doesn't
+    expect(breakdown.overall).toBe(75);
+  });
+
+  it('is deterministic', () => {
+    const requirements = job({ roleIds: ['designer'], locations: ['Berlin'], salaryRange: { min: 60000, max: 80000 } });
+    const profile = candidate({ locations: ['Berlin, Germany'], salaryExpectation: { min: 90000, max: 0 } });
+
+    expect(scoreMatch(requirements, profile)).toEqual(scoreMatch(requirements, profile));
+  });
+
+  describe('location', () => {
+    it('matches a city with or without its state', () => {
+      expect(factorOf('location', { locations: ['San Francisco, CA'] }, { locations: ['san francisco'] }).score).toBe(100);
+      expect(factorOf('location', { locations: ['Austin'] }, { locations: ['Austin, TX'] }).score).toBe(100);
+    });
+
+    it('matches a region on its own against places in it', () => {
+      expect(factorOf('location', { locations: ['San Francisco, CA'] }, { locations: ['CA'] }).score).toBe(100);
+    });
+
+    it('compares whole parts, not substrings', () => {
+      expect(factorOf('location', { locations: ['Chicago, IL'] }, { locations: ['CA'] }).score).toBe(0);
+      expect(factorOf('location', { locations: ['Portland, OR'] }, { locations: ['Portland, ME'] }).score).toBe(0);
+    });
+
+    it('does not let an empty location match everything', () => {
+      expect(factorOf('location', { locations: ['New York, NY'] }, { locations: [''] }).score).toBe(0);
+      expect(factorOf('location', { locations: [' , '] }, { locations: ['New York'] }).score).toBe(0);
+    });
+
+    it('treats fully remote roles as a match anywhere', () => {
+      expect(factorOf('location', { locations: ['London'], remotePolicy: 'remote' }, { locations: ['Paris'] }).score).toBe(100);
+    });
+
+    it('asks for locations when the candidate has none', () => {
+      expect(factorOf('location', { locations: ['London'] }, {}).score).toBe(50);
+    });
+  });
+
+  describe('compensation', () => {
+    it('takes 4 points off per percent the pay falls short', () => {
+      const compensation = factorOf(
+        'compensation',
+        { salaryRange: { min: 80000, max: 90000 } },
+        { salaryExpectation: { min: 100000, max: 0 } }
+      );
+
+      expect(compensation.score).toBe(60);
+    });
+
+    it('is not applicable until the candidate sets expectations', () => {
+      expect(factorOf('compensation', { salaryRange: { min: 80000, max: 90000 } }, {}).applicable).toBe(false);
+    });
+  });
+});
+
+describe('scoreJobMatches', () => {
+  const match = (id: string, matchPercentage: number, requirements?: JobRequirements): JobMatch => ({
+    id,
+    company: { id: 'company', name: 'Acme', logo: '', location: '', description: '' },
+    role: 'Engineer',
+    matchPercentage,
+    status: 'pending',
+    requirements,
+    jobId: `job-${id}`,
+    posting: {
+      status: 'open',
+      experienceYears: null,
+      compensation: null,
+      employmentType: null,
+      remotePolicy: null,
+      locations: [],
+      requirements: [],
+      niceToHaves: [],
+      benefits: [],
+    },
+    createdAt: new Date(0),
+  });
+
+  it('rescores matches with requirements and keeps the stored percentage otherwise', () => {
+    const [rescored, stored] = scoreJobMatches(
+      [match('a', 10, job()), match('b', 42)],
+      candidate()
+    );
+
+    expect(rescored.matchPercentage).toBe(100);
+    expect(rescored.breakdown).toBeDefined();
+    expect(stored.matchPercentage).toBe(42);
+    expect(stored.breakdown).toBeUndefined();
+  });
+});
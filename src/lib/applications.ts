@@ -0,0 +1,47 @@
+import { ApplicationStage } from '../types';
+
+// In pipeline order
+export const APPLICATION_STAGES: ApplicationStage[] = [
+  'applied',
+  'screening',
+  'interviewing',
+  'offer',
+  'rejected',
+  'withdrawn',
+];
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  applied: 'Applied',
+  screening: 'Screening',
+  interviewing: 'Interviewing',
+  offer: 'Offer',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+/**
+ * The stages an application can move to from each stage. A withdrawn
+ * application can be applied again; a rejected one is closed.
+ */
+export const APPLICATION_TRANSITIONS: Record<ApplicationStage, ApplicationStage[]> = {
+  applied: ['screening', 'interviewing', 'rejected', 'withdrawn'],
+  screening: ['interviewing', 'rejected', 'withdrawn'],
+  interviewing: ['offer', 'rejected', 'withdrawn'],
+  offer: ['rejected', 'withdrawn'],
+  rejected: [],
+  withdrawn: ['applied'],
+};
+
+export const isApplicationStage = (value: unknown): value is ApplicationStage =>
+  APPLICATION_STAGES.includes(value as ApplicationStage);
+
+export const canTransition = (from: ApplicationStage, to: ApplicationStage) =>
+  APPLICATION_TRANSITIONS[from].includes(to);
+
+// Every stage an application can reach `to` from
+export const stagesLeadingTo = (to: ApplicationStage) =>
+  APPLICATION_STAGES.filter(from => canTransition(from, to));
+
+// Whether the candidate has sent the application and it's still open
+export const isActiveApplication = (stage: ApplicationStage) =>
+  stage !== 'rejected' && stage !== 'withdrawn';
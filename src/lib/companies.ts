@@ -0,0 +1,55 @@
+import { CompanySize, CompanyStage, FundingRound } from '../types';
+import { formatSalary } from './matchScoring';
+
+export const COMPANY_STAGE_LABELS: Record<CompanyStage, string> = {
+  early_stage: 'Early stage',
+  late_stage: 'Late stage',
+  enterprise: 'Enterprise',
+};
+
+// Matches the labels candidates pick from in their company size preferences
+export const COMPANY_SIZE_LABELS: Record<CompanySize, string> = {
+  startup: 'Startup (1-50)',
+  small: 'Small (51-200)',
+  midsize: 'Mid-size (201-1000)',
+  large: 'Large (1000+)',
+};
+
+export const FUNDING_ROUND_LABELS: Record<FundingRound, string> = {
+  bootstrapped: 'Bootstrapped',
+  pre_seed: 'Pre-seed',
+  seed: 'Seed',
+  series_a: 'Series A',
+  series_b: 'Series B',
+  series_c: 'Series C',
+  series_d_plus: 'Series D+',
+  public: 'Public',
+};
+
+export const isCompanyStage = (value: unknown): value is CompanyStage =>
+  Object.keys(COMPANY_STAGE_LABELS).includes(value as CompanyStage);
+
+export const isCompanySize = (value: unknown): value is CompanySize =>
+  Object.keys(COMPANY_SIZE_LABELS).includes(value as CompanySize);
+
+export const isFundingRound = (value: unknown): value is FundingRound =>
+  Object.keys(FUNDING_ROUND_LABELS).includes(value as FundingRound);
+
+const formatTotalRaised = (amount: number) =>
+  amount >= 1_000_000_000
+    ? `$${(amount / 1_000_000_000).toFixed(1).replace(/\.0$/, '')}B`
+    : amount >= 1_000_000
+      ? `$${Math.round(amount / 1_000_000)}M`
+      : formatSalary(amount);
+
+/**
+ * "Series B · $45M raised", "Bootstrapped" or "$2M raised"
+ */
+export function formatFunding(funding: { round: FundingRound | null; totalRaised: number | null }): string {
+  return [
+    funding.round ? FUNDING_ROUND_LABELS[funding.round] : '',
+    funding.totalRaised !== null ? `${formatTotalRaised(funding.totalRaised)} raised` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
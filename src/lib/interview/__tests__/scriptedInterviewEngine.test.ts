@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Role } from '../../../config/roles';
+import { InterviewMessage } from '../../../types';
+import { buildQuestionPlan, ScriptedInterviewEngine } from '../scriptedInterviewEngine';
+
+const role = (id: string, name: string, category?: string): Role => ({ id, name, category, retired: false });
+
+const ENGINEER = role('software-engineer', 'Software Engineer', 'engineering');
+const DESIGNER = role('product-designer', 'Product Designer', 'design');
+
+// Long enough to skip the "tell me more" follow-up, with no known topics
+const LONG_ANSWER = 'I led a small team that rebuilt our billing pages, and we shipped it on time for the launch.';
+
+const transcript = (answers: string[]): InterviewMessage[] =>
+  answers.flatMap((answer, index) => [
+    { id: `ai-${index}`, sender: 'ai' as const, content: 'Question', timestamp: new Date() },
+    { id: `user-${index}`, sender: 'user' as const, content: answer, timestamp: new Date() },
+  ]);
+
+describe('buildQuestionPlan', () => {
+  it('asks general questions when no role has a question bank', () => {
+    const plan = buildQuestionPlan([role('astronaut', 'Astronaut')], 6);
+
+    expect(plan).toHaveLength(3);
+    expect(plan[0]).toMatch(/most recent role/);
+    expect(plan[2]).toMatch(/team and work environment/);
+  });
+
+  it('takes role questions round-robin across categories', () => {
+    const plan = buildQuestionPlan([ENGINEER, DESIGNER], 10);
+
+    expect(plan.slice(2, 6)).toEqual([
+      expect.stringMatching(/architecture of a system/),
+      expect.stringMatching(/recent design project/),
+      expect.stringMatching(/testing and code review/),
+      expect.stringMatching(/disagreements with engineers/),
+    ]);
+  });
+
+  it('asks a category once when several roles share it', () => {
+    const plan = buildQuestionPlan([ENGINEER, role('backend-engineer', 'Backend Engineer', 'engineering')], 10);
+
+    expect(plan).toHaveLength(5);
+  });
+
+  it('keeps the closing question when trimming to maxQuestions', () => {
+    const plan = buildQuestionPlan([ENGINEER, DESIGNER], 4);
+
+    expect(plan).toHaveLength(4);
+    expect(plan[2]).toMatch(/architecture of a system/);
+    expect(plan[3]).toMatch(/team and work environment/);
+  });
+});
+
+describe('ScriptedInterviewEngine.respond', () => {
+  it('opens with the candidate\'s roles and the first question', async () => {
+    const turn = await new ScriptedInterviewEngine().respond({ roles: [ENGINEER, DESIGNER], messages: [] });
+
+    expect(turn.isFinal).toBe(false);
+    expect(turn.content).toMatch(/interested in Software Engineer and Product Designer roles/);
+    expect(turn.content).toMatch(/most recent role/);
+  });
+
+  it('follows up on a short answer', async () => {
+    const turn = await new ScriptedInterviewEngine().respond({ roles: [ENGINEER], messages: transcript(['Frontend work.']) });
+
+    expect(turn.content).toMatch(/tell me a bit more/);
+  });
+
+  it('follows up once on a mentioned topic, then moves on', async () => {
+    const engine = new ScriptedInterviewEngine();
+    const answer = 'Most of my time went into a React dashboard that our support team used to look up customer accounts.';
+
+    const followUp = await engine.respond({ roles: [ENGINEER], messages: transcript([answer]) });
+    const next = await engine.respond({ roles: [ENGINEER], messages: transcript([answer, LONG_ANSWER]) });
+
+    expect(followUp.content).toMatch(/You mentioned React/);
+    expect(next.content).toMatch(/challenging project/);
+  });
+
+  it('asks role questions after the general ones', async () => {
+    const turn = await new ScriptedInterviewEngine().respond({
+      roles: [DESIGNER],
+      messages: transcript([LONG_ANSWER, LONG_ANSWER]),
+    });
+
+    expect(turn.content).toMatch(/recent design project/);
+  });
+
+  it('closes the interview after maxQuestions answers', async () => {
+    const engine = new ScriptedInterviewEngine({ maxQuestions: 4 });
+    const answers = Array(4).fill(LONG_ANSWER);
+
+    const last = await engine.respond({ roles: [ENGINEER], messages: transcript(answers.slice(0, 3)) });
+    const closing = await engine.respond({ roles: [ENGINEER], messages: transcript(answers) });
+
+    expect(last.isFinal).toBe(false);
+    expect(last.content).toMatch(/^Thanks, that's really helpful. Last question:/);
+    expect(closing.isFinal).toBe(true);
+  });
+
+  it('streams the turn word by word through onToken', async () => {
+    const tokens: string[] = [];
+
+    const turn = await new ScriptedInterviewEngine().respond(
+      { roles: [ENGINEER], messages: [] },
+      { onToken: token => tokens.push(token) }
+    );
+
+    expect(tokens.length).toBeGreaterThan(10);
+    expect(tokens.join('')).toBe(turn.content);
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      new ScriptedInterviewEngine().respond({ roles: [ENGINEER], messages: [] }, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
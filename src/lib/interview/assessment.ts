@@ -0,0 +1,135 @@
+// Imports have to resolve under Deno for the edge function: type-only, or
+// with their extension
+import type { Role } from '../../config/roles';
+import type { InterviewMessage, Skill, SkillAssessment } from '../../types';
+import { findTopics } from './topics.ts';
+
+interface Competency {
+  name: string;
+  // Phrases that count as evidence, matched case-insensitively
+  signals: string[];
+  strength: string;
+  improvement: string;
+}
+
+const PROBLEM_SOLVING: Competency = {
+  name: 'Problem Solving',
+  signals: ['because', 'so that', 'trade-off', 'tradeoff', 'root cause', 'debug', 'approach', 'solution', 'solved', 'measure', 'impact', 'result', 'improved', 'reduced', 'increased'],
+  strength: 'Explains the reasoning and impact behind decisions',
+  improvement: 'Walk through how you reached a solution and what it changed',
+};
+
+const COLLABORATION: Competency = {
+  name: 'Collaboration',
+  signals: ['team', 'we ', 'together', 'stakeholder', 'mentor', 'collaborat', 'review', 'pair', 'cross-functional', 'customer'],
+  strength: 'Works well with others and involves stakeholders',
+  improvement: 'Share more about how you work with your team and stakeholders',
+};
+
+const CATEGORY_COMPETENCIES: Record<string, Competency> = {
+  engineering: {
+    name: 'System Design',
+    signals: ['architecture', 'scal', 'database', 'api', 'service', 'cache', 'queue', 'latency', 'design'],
+    strength: 'Thinks about architecture and how systems scale',
+    improvement: 'Go deeper on architecture choices and their trade-offs',
+  },
+  data: {
+    name: 'Data Analysis',
+    signals: ['data', 'model', 'analysis', 'experiment', 'statistic', 'metric', 'sql', 'pipeline', 'validat'],
+    strength: 'Grounds conclusions in data and validates results',
+    improvement: 'Describe how you validated your analyses and models',
+  },
+  product: {
+    name: 'Product Sense',
+    signals: ['user', 'customer', 'roadmap', 'priorit', 'launch', 'feedback', 'metric', 'research'],
+    strength: 'Keeps users and outcomes at the center of decisions',
+    improvement: 'Connect your work to user needs and business outcomes',
+  },
+  design: {
+    name: 'Design Process',
+    signals: ['research', 'prototype', 'user', 'usability', 'wireframe', 'figma', 'accessib', 'iterat'],
+    strength: 'Follows a clear, research-driven design process',
+    improvement: 'Talk through your research and iteration process',
+  },
+  management: {
+    name: 'Leadership',
+    signals: ['hire', 'hiring', 'mentor', 'coach', 'feedback', 'team', 'grow', '1:1', 'one-on-one', 'delegat'],
+    strength: 'Invests in growing and supporting their team',
+    improvement: 'Give examples of how you have led and developed people',
+  },
+};
+
+const MAX_TOPIC_SKILLS = 3;
+
+const clampLevel = (level: number) => Math.round(Math.min(95, Math.max(20, level)));
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Distinct signals that appear anywhere in the answers
+const countSignals = (text: string, signals: string[]) =>
+  signals.filter(signal => text.includes(signal)).length;
+
+/**
+ * Build a skill assessment from an interview transcript.
+ *
+ * Pure and deterministic: levels come from how much evidence the candidate's
+ * answers show for each competency and for the technologies they mention.
+ * Used by the scripted engine, and by the assess-interview edge function
+ * when no assessment API is configured.
+ */
+export function assessTranscript(roles: Role[], messages: InterviewMessage[]): SkillAssessment {
+  const answers = messages.filter(message => message.sender === 'user').map(message => message.content);
+  const text = ` ${answers.join(' ').toLowerCase()} `;
+  const averageWords = answers.length > 0
+    ? answers.reduce((sum, answer) => sum + countWords(answer), 0) / answers.length
+    : 0;
+
+  const competencies = [
+    PROBLEM_SOLVING,
+    COLLABORATION,
+    ...Array.from(new Set(roles.map(role => role.category)))
+      .map(category => (category ? CATEGORY_COMPETENCIES[category] : undefined))
+      .filter((competency): competency is Competency => !!competency),
+  ];
+
+  const scored: { skill: Skill; strength: string; improvement: string }[] = [
+    {
+      skill: { name: 'Communication', level: clampLevel(35 + averageWords * 1.2) },
+      strength: 'Gives clear, detailed answers',
+      improvement: 'Add more detail and concrete examples to your answers',
+    },
+    ...competencies.map(competency => ({
+      skill: { name: competency.name, level: clampLevel(35 + countSignals(text, competency.signals) * 9) },
+      strength: competency.strength,
+      improvement: competency.improvement,
+    })),
+  ];
+
+  // Technologies the candidate talked about, weighted by how many answers mention them
+  const topicMentions = new Map<string, number>();
+  answers.forEach(answer => {
+    findTopics(answer).forEach(topic => topicMentions.set(topic, (topicMentions.get(topic) || 0) + 1));
+  });
+  Array.from(topicMentions.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TOPIC_SKILLS)
+    .forEach(([topic, mentions]) => {
+      scored.push({
+        skill: { name: topic, level: clampLevel(50 + mentions * 12) },
+        strength: `Hands-on experience with ${topic}`,
+        improvement: `Share more about your depth with ${topic}`,
+      });
+    });
+
+  const byLevel = [...scored].sort((a, b) => b.skill.level - a.skill.level);
+  const strengths = byLevel.filter(entry => entry.skill.level >= 70).slice(0, 3).map(entry => entry.strength);
+  const weakest = [...byLevel].reverse();
+  const improvements = weakest.filter(entry => entry.skill.level < 60).slice(0, 3).map(entry => entry.improvement);
+
+  return {
+    skills: scored.map(entry => entry.skill),
+    strengths,
+    // Always suggest something to work on
+    areasOfImprovement: improvements.length > 0 ? improvements : weakest.slice(0, 1).map(entry => entry.improvement),
+  };
+}
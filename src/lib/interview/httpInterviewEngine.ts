@@ -0,0 +1,116 @@
+import { SkillAssessment } from '../../types';
+import { InterviewContext, InterviewEngine, InterviewRespondOptions, InterviewTurn } from './types';
+
+export interface HttpInterviewEngineOptions {
+  endpoint: string;
+  // Returns a SkillAssessment as JSON for a finished transcript
+  assessmentEndpoint: string;
+  // Extra request headers, e.g. the user's access token. Resolved per request.
+  getHeaders?: () => Promise<Record<string, string>>;
+}
+
+/**
+ * One line of the interviewer API's NDJSON response stream:
+ * `{"token":"..."}` chunks followed by a single `{"done":true,"final":false}`
+ */
+interface StreamEvent {
+  token?: string;
+  done?: boolean;
+  final?: boolean;
+  error?: string;
+}
+
+/**
+ * Interviewer backed by an LLM service. POSTs the roles and transcript to
+ * `endpoint` and streams the reply back token by token; finished interviews
+ * are graded by `assessmentEndpoint`.
+ */
+export class HttpInterviewEngine implements InterviewEngine {
+  readonly name = 'http';
+  private endpoint: string;
+  private assessmentEndpoint: string;
+  private getHeaders?: () => Promise<Record<string, string>>;
+
+  constructor(options: HttpInterviewEngineOptions) {
+    if (!options.endpoint) {
+      throw new Error('HttpInterviewEngine requires an endpoint');
+    }
+    this.endpoint = options.endpoint;
+    this.assessmentEndpoint = options.assessmentEndpoint;
+    this.getHeaders = options.getHeaders;
+  }
+
+  async respond(context: InterviewContext, { onToken, signal }: InterviewRespondOptions = {}): Promise<InterviewTurn> {
+    const response = await this.post(this.endpoint, context, 'application/x-ndjson', signal);
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Interviewer request failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let isFinal = false;
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const event = JSON.parse(line) as StreamEvent;
+      if (event.error) {
+        throw new Error(event.error);
+      }
+      if (event.token) {
+        content += event.token;
+        onToken?.(event.token);
+      }
+      if (event.done) {
+        isFinal = !!event.final;
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    return { content, isFinal };
+  }
+
+  async assess(context: InterviewContext, { signal }: Pick<InterviewRespondOptions, 'signal'> = {}): Promise<SkillAssessment> {
+    const response = await this.post(this.assessmentEndpoint, context, 'application/json', signal);
+    if (!response.ok) {
+      throw new Error(`Assessment request failed (${response.status})`);
+    }
+
+    const assessment = await response.json() as Partial<SkillAssessment>;
+    return {
+      skills: assessment.skills || [],
+      strengths: assessment.strengths || [],
+      areasOfImprovement: assessment.areasOfImprovement || [],
+    };
+  }
+
+  private async post(url: string, { roles, messages }: InterviewContext, accept: string, signal?: AbortSignal) {
+    const extraHeaders = this.getHeaders ? await this.getHeaders() : {};
+
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: accept,
+        ...extraHeaders,
+      },
+      body: JSON.stringify({
+        roles: roles.map(role => ({ id: role.id, name: role.name, category: role.category })),
+        messages: messages.map(message => ({ sender: message.sender, content: message.content })),
+      }),
+      signal,
+    });
+  }
+}
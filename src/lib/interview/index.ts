@@ -0,0 +1,32 @@
+import { interviewConfig, InterviewConfig } from '../../config/interview';
+import { supabase } from '../supabase';
+import { HttpInterviewEngine } from './httpInterviewEngine';
+import { ScriptedInterviewEngine } from './scriptedInterviewEngine';
+import { InterviewEngine } from './types';
+
+export * from './types';
+export { HttpInterviewEngine } from './httpInterviewEngine';
+export { ScriptedInterviewEngine, buildQuestionPlan } from './scriptedInterviewEngine';
+export { assessTranscript } from './assessment';
+
+/**
+ * Create the interview engine selected by configuration
+ */
+export function createInterviewEngine(config: InterviewConfig = interviewConfig): InterviewEngine {
+  if (config.engine === 'http') {
+    return new HttpInterviewEngine({
+      endpoint: config.endpoint,
+      assessmentEndpoint: config.assessmentEndpoint,
+      getHeaders: async (): Promise<Record<string, string>> => {
+        const { data } = await supabase.auth.getSession();
+        const token = data.session?.access_token;
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    });
+  }
+
+  return new ScriptedInterviewEngine({
+    maxQuestions: config.maxQuestions,
+    tokenDelayMs: config.tokenDelayMs,
+  });
+}
@@ -0,0 +1,203 @@
+import { Role } from '../../config/roles';
+import { SkillAssessment } from '../../types';
+import { assessTranscript } from './assessment';
+import { findTopics } from './topics';
+import { InterviewContext, InterviewEngine, InterviewRespondOptions, InterviewTurn } from './types';
+
+export interface ScriptedInterviewEngineOptions {
+  // Questions asked before the closing message, including the opener
+  maxQuestions?: number;
+  // Delay between streamed words; 0 streams everything immediately
+  tokenDelayMs?: number;
+}
+
+// Answers shorter than this get a "tell me more" follow-up
+const SHORT_ANSWER_WORDS = 12;
+
+const OPENING_QUESTION =
+  "Let's start with your background. Could you tell me about your most recent role and what you worked on day to day?";
+
+const GENERAL_QUESTIONS = [
+  'Tell me about a challenging project you worked on recently. What was your role, and how did you approach the problems you encountered?',
+];
+
+const CLOSING_QUESTION =
+  'What kind of team and work environment helps you do your best work?';
+
+const CATEGORY_QUESTIONS: Record<string, string[]> = {
+  engineering: [
+    "Walk me through the architecture of a system you've built. What would you change if you built it again?",
+    'How do you approach testing and code review on your team?',
+  ],
+  data: [
+    'Tell me about an analysis or model that changed a decision. How did you validate your results?',
+    'How do you deal with messy or incomplete data?',
+  ],
+  product: [
+    'How do you decide what to build next when there are more requests than capacity?',
+    "Tell me about a launch that didn't go as planned. What did you learn from it?",
+  ],
+  design: [
+    'Walk me through your process on a recent design project, from research to handoff.',
+    'How do you handle disagreements with engineers or product managers about a design decision?',
+  ],
+  management: [
+    'How do you support the growth of the people on your team?',
+    'Tell me about a time you had to make a difficult call about priorities or people.',
+  ],
+};
+
+const findTopic = (answer: string, alreadyProbed: string[]) =>
+  findTopics(answer).find(topic => !alreadyProbed.includes(topic));
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const joinNames = (names: string[]) =>
+  names.length <= 1
+    ? names.join('')
+    : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+/**
+ * The ordered questions for a set of roles: the opener, general questions,
+ * then role-category questions taken round-robin so every category is covered
+ */
+export const buildQuestionPlan = (roles: Role[], maxQuestions: number): string[] => {
+  const categories = Array.from(new Set(
+    roles.map(role => role.category).filter((category): category is string =>
+      !!category && !!CATEGORY_QUESTIONS[category]
+    )
+  ));
+
+  const roleQuestions: string[] = [];
+  const depth = Math.max(0, ...categories.map(category => CATEGORY_QUESTIONS[category].length));
+  for (let i = 0; i < depth; i++) {
+    categories.forEach(category => {
+      const question = CATEGORY_QUESTIONS[category][i];
+      if (question) roleQuestions.push(question);
+    });
+  }
+
+  const plan = [OPENING_QUESTION, ...GENERAL_QUESTIONS, ...roleQuestions];
+  return [...plan.slice(0, Math.max(1, maxQuestions - 1)), CLOSING_QUESTION];
+};
+
+type NextStep =
+  | { kind: 'question'; index: number }
+  | { kind: 'follow_up_short' }
+  | { kind: 'follow_up_topic'; topic: string }
+  | { kind: 'close' };
+
+/**
+ * Replays the transcript to work out what comes next. Deciding from the
+ * answers alone keeps the engine stateless, so an interview can be resumed
+ * from its stored messages.
+ */
+const planNextStep = (answers: string[], questionCount: number): NextStep => {
+  let questionIndex = 0;
+  let lastWasFollowUp = false;
+  const probedTopics: string[] = [];
+  let step: NextStep = { kind: 'question', index: 0 };
+
+  answers.forEach(answer => {
+    const topic = findTopic(answer, probedTopics);
+
+    if (!lastWasFollowUp && countWords(answer) < SHORT_ANSWER_WORDS) {
+      step = { kind: 'follow_up_short' };
+      lastWasFollowUp = true;
+    } else if (!lastWasFollowUp && topic) {
+      probedTopics.push(topic);
+      step = { kind: 'follow_up_topic', topic };
+      lastWasFollowUp = true;
+    } else {
+      questionIndex++;
+      lastWasFollowUp = false;
+      step = questionIndex < questionCount
+        ? { kind: 'question', index: questionIndex }
+        : { kind: 'close' };
+    }
+  });
+
+  return step;
+};
+
+/**
+ * Deterministic, offline interviewer. Asks role-specific questions from a
+ * fixed bank and follows up on short answers and mentioned technologies.
+ */
+export class ScriptedInterviewEngine implements InterviewEngine {
+  readonly name = 'scripted';
+  private maxQuestions: number;
+  private tokenDelayMs: number;
+
+  constructor(options: ScriptedInterviewEngineOptions = {}) {
+    this.maxQuestions = options.maxQuestions ?? 6;
+    this.tokenDelayMs = options.tokenDelayMs ?? 0;
+  }
+
+  async respond(context: InterviewContext, options: InterviewRespondOptions = {}): Promise<InterviewTurn> {
+    const turn = this.nextTurn(context);
+    await this.stream(turn.content, options);
+    return turn;
+  }
+
+  async assess({ roles, messages }: InterviewContext): Promise<SkillAssessment> {
+    return assessTranscript(roles, messages);
+  }
+
+  /**
+   * The next AI turn for a transcript, without streaming
+   */
+  nextTurn({ roles, messages }: InterviewContext): InterviewTurn {
+    const plan = buildQuestionPlan(roles, this.maxQuestions);
+    const answers = messages.filter(message => message.sender === 'user').map(message => message.content);
+
+    if (messages.length === 0) {
+      const roleNames = joinNames(roles.map(role => role.name));
+      const intro = roleNames
+        ? `Hi! I'm your RightBoss interviewer. I see you're interested in ${roleNames} roles, so I'll tailor my questions to that.`
+        : "Hi! I'm your RightBoss interviewer. I'll ask you a few questions about your experience.";
+      return { content: `${intro} ${plan[0]}`, isFinal: false };
+    }
+
+    const step = planNextStep(answers, plan.length);
+    switch (step.kind) {
+      case 'follow_up_short':
+        return {
+          content: 'Could you tell me a bit more? A specific example of what you did and how it turned out would help.',
+          isFinal: false,
+        };
+      case 'follow_up_topic':
+        return {
+          content: `You mentioned ${step.topic}. What's the most complex thing you've done with it, and what trade-offs did you have to make?`,
+          isFinal: false,
+        };
+      case 'question': {
+        const question = plan[step.index];
+        return {
+          content: step.index === plan.length - 1 ? `Thanks, that's really helpful. Last question: ${question}` : `Thanks. ${question}`,
+          isFinal: false,
+        };
+      }
+      case 'close':
+        return {
+          content: "Thanks for taking the time to chat! That's everything I need. I'll use your answers to build your skill assessment and find roles that suit you.",
+          isFinal: true,
+        };
+    }
+  }
+
+  private async stream(content: string, { onToken, signal }: InterviewRespondOptions) {
+    // Keep the whitespace so the streamed tokens join back into the original text
+    const tokens = content.match(/\S+\s*/g) || [];
+
+    for (const token of tokens) {
+      if (signal?.aborted) {
+        throw new DOMException('Interview response aborted', 'AbortError');
+      }
+      if (this.tokenDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs));
+      }
+      onToken?.(token);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// Technologies and practices the interviewer recognizes in answers
+export const KNOWN_TOPICS = [
+  'React', 'TypeScript', 'JavaScript', 'Node.js', 'Python', 'Java', 'Go', 'Rust', 'Swift', 'Kotlin',
+  'GraphQL', 'PostgreSQL', 'SQL', 'AWS', 'GCP', 'Azure', 'Kubernetes', 'Docker', 'Terraform',
+  'Spark', 'TensorFlow', 'PyTorch', 'Figma', 'A/B testing', 'microservices',
+];
+
+// Topics that are also everyday words only count when capitalized
+const CASE_SENSITIVE_TOPICS = ['Go', 'Rust', 'Swift', 'Spark'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const TOPIC_PATTERNS = KNOWN_TOPICS.map(topic => ({
+  topic,
+  pattern: new RegExp(
+    `(^|[^a-zA-Z])${escapeRegExp(topic)}($|[^a-zA-Z])`,
+    CASE_SENSITIVE_TOPICS.includes(topic) ? '' : 'i'
+  ),
+}));
+
+/**
+ * Known topics mentioned in a piece of text, in KNOWN_TOPICS order
+ */
+export const findTopics = (text: string): string[] =>
+  TOPIC_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ topic }) => topic);
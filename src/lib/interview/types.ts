@@ -0,0 +1,34 @@
+import { Role } from '../../config/roles';
+import { InterviewMessage, SkillAssessment } from '../../types';
+
+/**
+ * Everything an engine needs to decide the next AI turn
+ */
+export interface InterviewContext {
+  roles: Role[];
+  // Transcript so far, oldest first. Empty when the interview is just starting.
+  messages: InterviewMessage[];
+}
+
+export interface InterviewRespondOptions {
+  // Called with each chunk of text as it's produced
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface InterviewTurn {
+  content: string;
+  // True when this is the interviewer's closing message
+  isFinal: boolean;
+}
+
+/**
+ * An AI interviewer backend. Implementations stream the next AI message
+ * through `onToken` and resolve with the full turn once it's done.
+ */
+export interface InterviewEngine {
+  readonly name: string;
+  respond(context: InterviewContext, options?: InterviewRespondOptions): Promise<InterviewTurn>;
+  // Grade a finished interview's transcript
+  assess(context: InterviewContext, options?: Pick<InterviewRespondOptions, 'signal'>): Promise<SkillAssessment>;
+}
@@ -0,0 +1,90 @@
+import { JobAlert, JobAlertChange, JobAlertKind, JobStatus, JobWatchField } from '../types';
+import { formatSalary } from './matchScoring';
+import { SENIORITY_LABELS, isSeniorityLevel } from './seniority';
+
+export const JOB_WATCH_FIELDS: JobWatchField[] = [
+  'status',
+  'salary_min',
+  'salary_max',
+  'role_ids',
+  'locations',
+  'remote_policy',
+  'employment_type',
+  'seniority',
+  'skills',
+  'salary_currency',
+  'requirements',
+  'experience_min_years',
+  'experience_max_years',
+  'closes_at',
+];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  open: 'Open',
+  paused: 'Paused',
+  closed: 'Closed',
+};
+
+const ALERT_TITLES: Record<JobAlertKind, string> = {
+  status: 'Status changed',
+  compensation: 'Compensation changed',
+  requirements: 'Requirements changed',
+  closed: 'Job closed',
+};
+
+const FIELD_LABELS: Record<JobWatchField, string> = {
+  status: 'Status',
+  salary_min: 'Minimum salary',
+  salary_max: 'Maximum salary',
+  role_ids: 'Roles',
+  locations: 'Locations',
+  remote_policy: 'Work environment',
+  employment_type: 'Employment type',
+  seniority: 'Seniority',
+  skills: 'Skills',
+  salary_currency: 'Currency',
+  requirements: 'Requirements',
+  experience_min_years: 'Minimum experience',
+  experience_max_years: 'Maximum experience',
+  closes_at: 'Closing date',
+};
+
+export const isJobWatchField = (value: unknown): value is JobWatchField =>
+  JOB_WATCH_FIELDS.includes(value as JobWatchField);
+
+const formatValue = (field: JobWatchField, value: unknown): string => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return 'none';
+  if (Array.isArray(value)) return value.join(', ');
+  if ((field === 'salary_min' || field === 'salary_max') && typeof value === 'number') return formatSalary(value);
+  if (field === 'status' && typeof value === 'string' && value in JOB_STATUS_LABELS) {
+    return JOB_STATUS_LABELS[value as JobStatus];
+  }
+  if (field === 'seniority' && isSeniorityLevel(value)) return SENIORITY_LABELS[value];
+  if ((field === 'experience_min_years' || field === 'experience_max_years') && typeof value === 'number') {
+    return `${value} ${value === 1 ? 'year' : 'years'}`;
+  }
+  if (field === 'closes_at' && typeof value === 'string') {
+    return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+  return String(value).replace(/_/g, ' ');
+};
+
+export const jobAlertTitle = (alert: JobAlert) => `${ALERT_TITLES[alert.kind]}: ${alert.role}`;
+
+/**
+ * One line per changed field, like "Maximum salary: $180k → $200k". List
+ * fields show what was added and removed rather than the whole list.
+ */
+export function describeJobAlertChange({ field, before, after }: JobAlertChange): string {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const added = after.filter(item => !before.includes(item));
+    const removed = before.filter(item => !after.includes(item));
+    const parts = [
+      added.length > 0 ? `added ${added.join(', ')}` : '',
+      removed.length > 0 ? `removed ${removed.join(', ')}` : '',
+    ].filter(Boolean);
+    if (parts.length > 0) return `${FIELD_LABELS[field]}: ${parts.join('; ')}`;
+  }
+
+  return `${FIELD_LABELS[field]}: ${formatValue(field, before)} → ${formatValue(field, after)}`;
+}
@@ -0,0 +1,61 @@
+import { EmploymentType, JobPosting, NumberRange, RemotePolicy } from '../types';
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: 'Full-time',
+  part_time: 'Part-time',
+  contract: 'Contract',
+  internship: 'Internship',
+};
+
+export const REMOTE_POLICY_LABELS: Record<RemotePolicy, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  office: 'On-site',
+};
+
+const formatRange = (range: NumberRange, format: (value: number) => string) => {
+  if (range.min !== null && range.max !== null) {
+    return range.min === range.max ? format(range.min) : `${format(range.min)} - ${format(range.max)}`;
+  }
+  return range.min !== null ? `${format(range.min)}+` : `Up to ${format(range.max as number)}`;
+};
+
+/**
+ * "3-5 years", "5+ years" or "Up to 2 years"
+ */
+export function formatExperience(experience: NumberRange): string {
+  if (experience.min !== null && experience.max !== null && experience.min !== experience.max) {
+    return `${experience.min}-${experience.max} years`;
+  }
+  const years = formatRange(experience, value => String(value));
+  return `${years} ${experience.min === 1 && experience.max === 1 ? 'year' : 'years'}`;
+}
+
+/**
+ * A salary band in its own currency, in thousands: "$120k - $180k", "€60k+"
+ */
+export function formatCompensation(compensation: NonNullable<JobPosting['compensation']>): string {
+  const format = (amount: number) => {
+    try {
+      return new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: compensation.currency,
+        notation: 'compact',
+        maximumFractionDigits: 0,
+      }).format(amount);
+    } catch {
+      // An unknown currency code, show it as is
+      return `${compensation.currency} ${Math.round(amount / 1000)}k`;
+    }
+  };
+  return formatRange(compensation, format);
+}
+
+/**
+ * Where the job is done: "Remote", or "Hybrid · San Francisco, CA"
+ */
+export function formatWorkplace(posting: Pick<JobPosting, 'remotePolicy' | 'locations'>): string {
+  return [posting.remotePolicy ? REMOTE_POLICY_LABELS[posting.remotePolicy] : '', posting.locations.join(', ')]
+    .filter(Boolean)
+    .join(' · ');
+}
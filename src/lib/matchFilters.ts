@@ -0,0 +1,113 @@
+import { JobMatch, RemotePolicy } from '../types';
+
+export type MatchSort = 'score' | 'date';
+
+/**
+ * Which job matches to show, in what order and which page of them.
+ * Unset filters match everything.
+ */
+export interface MatchFilters {
+  statuses: JobMatch['status'][];
+  roleId: string | null;
+  location: string | null;
+  remotePolicy: RemotePolicy | null;
+  minMatch: number;
+  sort: MatchSort;
+  // 1-based
+  page: number;
+  limit: number;
+}
+
+export const MATCH_STATUSES: JobMatch['status'][] = ['pending', 'active', 'accepted', 'declined'];
+export const REMOTE_POLICIES: RemotePolicy[] = ['remote', 'hybrid', 'office'];
+export const MATCH_PAGE_LIMITS = [10, 25, 50];
+
+export const DEFAULT_MATCH_FILTERS: MatchFilters = {
+  statuses: [],
+  roleId: null,
+  location: null,
+  remotePolicy: null,
+  minMatch: 0,
+  sort: 'score',
+  page: 1,
+  limit: 10,
+};
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[]): T | null =>
+  value && options.includes(value as T) ? (value as T) : null;
+
+/**
+ * Read filters from a URL query string, ignoring values that aren't valid so
+ * an edited or stale bookmark still opens
+ */
+export function parseMatchFilters(params: URLSearchParams): MatchFilters {
+  const statuses = (params.get('status') || '')
+    .split(',')
+    .map(status => oneOf(status, MATCH_STATUSES))
+    .filter((status): status is JobMatch['status'] => status !== null);
+  const minMatch = Number(params.get('min'));
+  const page = Number(params.get('page'));
+  const limit = Number(params.get('limit'));
+
+  return {
+    statuses: [...new Set(statuses)],
+    roleId: params.get('role') || null,
+    location: params.get('location') || null,
+    remotePolicy: oneOf(params.get('remote'), REMOTE_POLICIES),
+    minMatch: Number.isFinite(minMatch) ? Math.min(Math.max(Math.round(minMatch), 0), 100) : 0,
+    sort: oneOf(params.get('sort'), ['score', 'date'] as const) || DEFAULT_MATCH_FILTERS.sort,
+    page: Number.isInteger(page) && page > 1 ? page : DEFAULT_MATCH_FILTERS.page,
+    limit: MATCH_PAGE_LIMITS.includes(limit) ? limit : DEFAULT_MATCH_FILTERS.limit,
+  };
+}
+
+/**
+ * Write filters to a URL query string, leaving out defaults to keep links short
+ */
+export function toMatchSearchParams(filters: MatchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+  if (filters.roleId) params.set('role', filters.roleId);
+  if (filters.location) params.set('location', filters.location);
+  if (filters.remotePolicy) params.set('remote', filters.remotePolicy);
+  if (filters.minMatch > 0) params.set('min', String(filters.minMatch));
+  if (filters.sort !== DEFAULT_MATCH_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.page !== DEFAULT_MATCH_FILTERS.page) params.set('page', String(filters.page));
+  if (filters.limit !== DEFAULT_MATCH_FILTERS.limit) params.set('limit', String(filters.limit));
+  return params;
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * The matches that pass every filter, best score or newest first.
+ * Ties fall back to the other order.
+ */
+export function filterJobMatches(matches: JobMatch[], filters: MatchFilters): JobMatch[] {
+  const byScore = (a: JobMatch, b: JobMatch) => b.matchPercentage - a.matchPercentage;
+  const byDate = (a: JobMatch, b: JobMatch) => b.createdAt.getTime() - a.createdAt.getTime();
+
+  return matches
+    .filter(match =>
+      (filters.statuses.length === 0 || filters.statuses.includes(match.status)) &&
+      (!filters.roleId || !!match.requirements?.roleIds.includes(filters.roleId)) &&
+      (!filters.location || !!match.requirements?.locations.some(location => sameText(location, filters.location!))) &&
+      (!filters.remotePolicy || match.requirements?.remotePolicy === filters.remotePolicy) &&
+      match.matchPercentage >= filters.minMatch
+    )
+    .sort((a, b) =>
+      filters.sort === 'date' ? byDate(a, b) || byScore(a, b) : byScore(a, b) || byDate(a, b)
+    );
+}
+
+/**
+ * One page of already filtered matches. A page past the end, say from a
+ * bookmark taken before matches were declined, shows the last page instead.
+ */
+export function paginateJobMatches(matches: JobMatch[], filters: Pick<MatchFilters, 'page' | 'limit'>) {
+  const pageCount = Math.max(Math.ceil(matches.length / filters.limit), 1);
+  const page = Math.min(filters.page, pageCount);
+  const start = (page - 1) * filters.limit;
+
+  return { matches: matches.slice(start, start + filters.limit), page, pageCount };
+}
@@ -0,0 +1,288 @@
+import type { ProfileData } from '../contexts/ProfileContext';
+import {
+  JobMatch,
+  JobRequirements,
+  MatchBreakdown,
+  MatchFactor,
+  MatchFactorId,
+  SkillProficiency,
+  UserPreferences,
+} from '../types';
+import { SkillIndex, resolveSkill } from './skills';
+import { SENIORITY_LABELS, seniorityForRoles, seniorityGap } from './seniority';
+
+/**
+ * The parts of a candidate profile the scorer looks at
+ */
+export type MatchCandidate = Pick<
+  ProfileData,
+  'selected_roles' | 'locations' | 'remote_preference' | 'employment_type' | 'company_stage_preferences'
+> & {
+  skills?: ProfileData['skills'];
+  role_seniority?: ProfileData['role_seniority'];
+  // A bound of 0 means the candidate hasn't set it
+  salaryExpectation?: UserPreferences['salaryExpectation'];
+};
+
+/**
+ * Relative importance of each factor in the overall score
+ */
+export const MATCH_FACTOR_WEIGHTS: Record<MatchFactorId, number> = {
+  role: 30,
+  seniority: 15,
+  skills: 25,
+  location: 15,
+  remote: 10,
+  employment_type: 10,
+  company_stage: 10,
+  compensation: 10,
+};
+
+const FACTOR_LABELS: Record<MatchFactorId, string> = {
+  role: 'Role',
+  seniority: 'Seniority',
+  skills: 'Skills',
+  location: 'Location',
+  remote: 'Work Environment',
+  employment_type: 'Employment Type',
+  company_stage: 'Company Stage',
+  compensation: 'Compensation',
+};
+
+// How well a candidate's remote preference fits a job's remote policy
+const REMOTE_FIT: Record<MatchCandidate['remote_preference'], Record<NonNullable<JobRequirements['remotePolicy']>, number>> = {
+  remote: { remote: 100, hybrid: 40, office: 0 },
+  hybrid: { remote: 80, hybrid: 100, office: 50 },
+  office: { remote: 30, hybrid: 70, office: 100 },
+  flexible: { remote: 100, hybrid: 100, office: 100 },
+};
+
+const STAGE_FIT = {
+  preferred: 100,
+  neutral: 60,
+  avoid: 0,
+} as const;
+
+// Fit by how many levels the candidate is above or below the job. Stepping
+// up a level is a smaller mismatch than stepping down one.
+const SENIORITY_FIT = {
+  above: [100, 60, 30, 10],
+  below: [100, 50, 0, 0],
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9+#]/g, '');
+
+const factor = (
+  id: MatchFactorId,
+  score: number,
+  reason: string,
+  applicable = true
+): MatchFactor => ({
+  id,
+  label: FACTOR_LABELS[id],
+  score: Math.round(Math.min(100, Math.max(0, score))),
+  weight: MATCH_FACTOR_WEIGHTS[id],
+  applicable,
+  reason,
+});
+
+const scoreRole = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  if (job.roleIds.length === 0) {
+    return factor('role', 100, 'Open to any role', false);
+  }
+  const matching = job.roleIds.filter(roleId => candidate.selected_roles.includes(roleId));
+  return matching.length > 0
+    ? factor('role', 100, 'Matches a role you selected')
+    : factor('role', 0, "Not one of the roles you're looking for");
+};
+
+const scoreSeniority = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  if (!job.seniority) {
+    return factor('seniority', 100, 'No seniority level specified', false);
+  }
+  const seniority = seniorityForRoles(candidate.role_seniority || [], job.roleIds);
+  if (!seniority) {
+    return factor('seniority', 100, 'Add your experience level to compare seniority', false);
+  }
+  const gap = seniorityGap(seniority.level, job.seniority);
+  const role = `Role is ${SENIORITY_LABELS[job.seniority].toLowerCase()}`;
+  return factor(
+    'seniority',
+    SENIORITY_FIT[gap > 0 ? 'above' : 'below'][Math.abs(gap)],
+    gap === 0 ? `${role}, at your level` : `${role}, ${gap > 0 ? 'below' : 'above'} your level`
+  );
+};
+
+// How much a matched skill counts towards the skills score
+const PROFICIENCY_CREDIT: Record<SkillProficiency, number> = { 1: 0.5, 2: 0.75, 3: 1, 4: 1, 5: 1 };
+
+// Jobs list skills by name, so aliases are resolved to the taxonomy skill when it's known
+const skillKey = (name: string, skillIndex?: SkillIndex) => {
+  const skill = skillIndex && resolveSkill(skillIndex, name);
+  return skill ? skill.id : `name:${normalize(name)}`;
+};
+
+const scoreSkills = (job: JobRequirements, candidate: MatchCandidate, skillIndex?: SkillIndex): MatchFactor => {
+  if (job.skills.length === 0) {
+    return factor('skills', 100, 'No specific skills listed', false);
+  }
+  const credits = new Map<string, number>();
+  (candidate.skills || []).forEach(skill => {
+    const credit = PROFICIENCY_CREDIT[skill.proficiency];
+    credits.set(skill.skillId, credit);
+    credits.set(`name:${normalize(skill.name)}`, credit);
+  });
+  const matched = job.skills.filter(skill => credits.has(skillKey(skill, skillIndex)));
+  const credit = matched.reduce((sum, skill) => sum + (credits.get(skillKey(skill, skillIndex)) || 0), 0);
+  return factor(
+    'skills',
+    (credit / job.skills.length) * 100,
+    matched.length > 0
+      ? `You have ${matched.length} of ${job.skills.length} required skills`
+      : 'None of the required skills are on your profile yet'
+  );
+};
+
+// "San Francisco, CA" → ['san francisco', 'ca']
+const locationParts = (location: string) =>
+  location.split(',').map(part => part.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+
+/**
+ * Whether two locations are the same place, or one contains the other:
+ * "Austin" and "Austin, TX" are the same city, and a region on its own,
+ * like "CA", covers everywhere in it. Parts are compared whole, so "CA"
+ * doesn't match "Chicago".
+ */
+const isSameLocation = (a: string, b: string) => {
+  const [shorter, longer] = [locationParts(a), locationParts(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return false;
+  if (shorter.every((part, index) => part === longer[index])) return true;
+  return shorter.length === 1 && longer.includes(shorter[0]);
+};
+
+const scoreLocation = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  if (job.remotePolicy === 'remote') {
+    return factor('location', 100, 'Fully remote role');
+  }
+  if (job.locations.length === 0) {
+    return factor('location', 100, 'No location requirement', false);
+  }
+  if (candidate.locations.length === 0) {
+    return factor('location', 50, 'Add preferred locations to improve this match');
+  }
+  const matching = candidate.locations.filter(location =>
+    job.locations.some(jobLocation => isSameLocation(location, jobLocation))
+  );
+  return matching.length > 0
+    ? factor('location', 100, `Located in ${matching[0]}`)
+    : factor('location', 0, `Based in ${job.locations.join(', ')}`);
+};
+
+const scoreRemote = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  if (!job.remotePolicy) {
+    return factor('remote', 100, 'No work environment requirement', false);
+  }
+  const score = REMOTE_FIT[candidate.remote_preference]?.[job.remotePolicy] ?? 50;
+  return factor(
+    'remote',
+    score,
+    score === 100
+      ? `${job.remotePolicy.charAt(0).toUpperCase()}${job.remotePolicy.slice(1)} fits your preference`
+      : `Role is ${job.remotePolicy}, you prefer ${candidate.remote_preference}`
+  );
+};
+
+const scoreEmploymentType = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  if (!job.employmentType) {
+    return factor('employment_type', 100, 'No employment type specified', false);
+  }
+  return job.employmentType === candidate.employment_type
+    ? factor('employment_type', 100, 'Matches your employment type')
+    : factor('employment_type', 0, `Role is ${job.employmentType.replace('_', '-')}`);
+};
+
+const scoreCompanyStage = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  if (!job.companyStage) {
+    return factor('company_stage', 100, 'Company stage unknown', false);
+  }
+  const preference = candidate.company_stage_preferences?.[job.companyStage] || 'neutral';
+  const reasons = {
+    preferred: 'A company stage you prefer',
+    neutral: 'A company stage you are neutral about',
+    avoid: 'A company stage you want to avoid',
+  };
+  return factor('company_stage', STAGE_FIT[preference], reasons[preference]);
+};
+
+export const formatSalary = (amount: number) => `$${Math.round(amount / 1000)}k`;
+
+const scoreCompensation = (job: JobRequirements, candidate: MatchCandidate): MatchFactor => {
+  const jobTop = job.salaryRange?.max ?? job.salaryRange?.min;
+  if (!jobTop) {
+    return factor('compensation', 100, 'Salary not listed', false);
+  }
+  // Compare against the candidate's floor, or their ceiling if that's all they gave
+  const expected = candidate.salaryExpectation?.min || candidate.salaryExpectation?.max;
+  if (!expected) {
+    return factor('compensation', 100, 'Add your salary expectations to compare pay', false);
+  }
+  if (jobTop >= expected) {
+    return factor('compensation', 100, `Pays up to ${formatSalary(jobTop)}, within your expectations`);
+  }
+  // Every 1% short of the expectation costs 4 points
+  const shortfall = 1 - jobTop / expected;
+  return factor(
+    'compensation',
+    100 - shortfall * 400,
+    `Pays up to ${formatSalary(jobTop)}, below your ${formatSalary(expected)} expectation`
+  );
+};
+
+/**
+ * Score a job's requirements against a candidate profile.
+ *
+ * Pure: the same inputs always produce the same breakdown, so it can be
+ * unit tested and re-run over many matches at once. Factors the job does
+ * not specify are reported but left out of the overall score. Pass the
+ * skill index to match skills listed under an alias.
+ */
+export function scoreMatch(job: JobRequirements, candidate: MatchCandidate, skillIndex?: SkillIndex): MatchBreakdown {
+  const factors = [
+    scoreRole(job, candidate),
+    scoreSeniority(job, candidate),
+    scoreSkills(job, candidate, skillIndex),
+    scoreLocation(job, candidate),
+    scoreRemote(job, candidate),
+    scoreEmploymentType(job, candidate),
+    scoreCompanyStage(job, candidate),
+    scoreCompensation(job, candidate),
+  ];
+
+  const applicable = factors.filter(f => f.applicable);
+  const totalWeight = applicable.reduce((sum, f) => sum + f.weight, 0);
+  const overall = totalWeight === 0
+    ? 100
+    : Math.round(applicable.reduce((sum, f) => sum + f.score * f.weight, 0) / totalWeight);
+
+  return { overall, factors };
+}
+
+/**
+ * Re-score a batch of matches. Matches without requirements keep their stored percentage.
+ */
+export function scoreJobMatches(
+  jobMatches: JobMatch[],
+  candidate: MatchCandidate,
+  skillIndex?: SkillIndex
+): JobMatch[] {
+  return jobMatches.map(jobMatch => {
+    if (!jobMatch.requirements) return jobMatch;
+
+    const breakdown = scoreMatch(jobMatch.requirements, candidate, skillIndex);
+    return {
+      ...jobMatch,
+      matchPercentage: breakdown.overall,
+      breakdown,
+    };
+  });
+}
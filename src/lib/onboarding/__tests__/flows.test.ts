@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseOnboardingSteps, withSections } from '../flows';
+import { ONBOARDING_STEPS } from '../steps';
+
+const ENGINEERING_FLOW = (['welcome', 'personal', 'roles', 'github', 'complete'] as const).map(id => ONBOARDING_STEPS[id]);
+
+describe('parseOnboardingSteps', () => {
+  const withGithubFields = (fields: unknown[]) => [
+    { id: 'welcome' },
+    { id: 'personal', required: true },
+    { id: 'roles', required: true },
+    { id: 'github', fields },
+    { id: 'complete' },
+  ];
+
+  it('keeps the fields a flow lists for a step', () => {
+    const steps = parseOnboardingSteps(withGithubFields([{ id: 'github-profile', tier: 'essential', required: true }]));
+
+    expect(steps[3].fields).toEqual([{ id: 'github-profile', tier: 'essential', required: true }]);
+  });
+
+  it('rejects fields without a guard', () => {
+    expect(() => parseOnboardingSteps(withGithubFields([{ id: 'github-profle', tier: 'essential' }])))
+      .toThrow('Step 4 field 1 has an unknown id "github-profle"');
+  });
+});
+
+describe('withSections', () => {
+  it('adds the sections a flow leaves out as optional steps before its last one', () => {
+    const steps = withSections(ENGINEERING_FLOW, ['personal', 'education', 'portfolio']);
+
+    expect(steps.map(step => step.id)).toEqual(['welcome', 'personal', 'roles', 'github', 'education', 'portfolio', 'complete']);
+    expect(steps.find(step => step.id === 'portfolio')?.required).toBe(false);
+  });
+
+  it('returns a flow that already has every section as it is', () => {
+    expect(withSections(ENGINEERING_FLOW, ['personal', 'github'])).toBe(ENGINEERING_FLOW);
+  });
+});
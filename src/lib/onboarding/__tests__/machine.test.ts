@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { canGoToStep, createOnboardingState, onboardingReducer, toOnboardingRecord } from '../machine';
+import { DEFAULT_ONBOARDING_FLOW, ONBOARDING_STEPS } from '../steps';
+import { OnboardingProfile, OnboardingState } from '../types';
+
+const validProfile: OnboardingProfile = {
+  full_name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  phone_number: '',
+  selected_roles: ['software-engineer'],
+  github_url: '',
+  website_url: '',
+  work_experiences: [],
+};
+
+const emptyProfile: OnboardingProfile = { ...validProfile, full_name: '', selected_roles: [] };
+
+const freshState = () => createOnboardingState({ completedSteps: [], completed: false });
+
+const ENGINEERING_FLOW = (['welcome', 'personal', 'roles', 'github', 'complete'] as const).map(id => ONBOARDING_STEPS[id]);
+
+describe('createOnboardingState', () => {
+  it('starts a new candidate on the first step', () => {
+    const state = freshState();
+
+    expect(state.current).toBe('welcome');
+    expect(state.completed).toEqual([]);
+    expect(state.finished).toBe(false);
+    expect(state.steps).toBe(DEFAULT_ONBOARDING_FLOW);
+  });
+
+  it('resumes at the first incomplete step', () => {
+    const state = createOnboardingState({ completedSteps: ['welcome', 'personal', 'experience'], completed: false });
+
+    expect(state.current).toBe('roles');
+    expect(state.completed).toEqual(['welcome', 'personal', 'experience']);
+  });
+
+  it('keeps completed steps in flow order and drops ones outside the flow', () => {
+    const state = createOnboardingState({ completedSteps: ['roles', 'github', 'welcome'], completed: false });
+
+    expect(state.completed).toEqual(['welcome', 'roles']);
+  });
+
+  it('puts a finished candidate on the last step', () => {
+    const state = createOnboardingState({ completedSteps: ['welcome'], completed: true });
+
+    expect(state.current).toBe('complete');
+    expect(state.finished).toBe(true);
+  });
+});
+
+describe('onboardingReducer', () => {
+  describe('NEXT', () => {
+    it('completes the current step and moves on', () => {
+      const state = onboardingReducer(freshState(), { type: 'NEXT', profile: emptyProfile });
+
+      expect(state.current).toBe('personal');
+      expect(state.completed).toEqual(['welcome']);
+    });
+
+    it('stays on a required step until its guard passes', () => {
+      const onPersonal = { ...freshState(), current: 'personal' as const, completed: ['welcome' as const] };
+
+      expect(onboardingReducer(onPersonal, { type: 'NEXT', profile: emptyProfile })).toBe(onPersonal);
+      expect(onboardingReducer(onPersonal, { type: 'NEXT', profile: validProfile }).current).toBe('roles');
+    });
+
+    it('checks the fields a flow lists instead of the step guard', () => {
+      const steps = [
+        { ...ONBOARDING_STEPS.github, required: true, fields: [{ id: 'github-profile', tier: 'essential' as const, required: true }] },
+        ONBOARDING_STEPS.complete,
+      ];
+      const state = createOnboardingState({ completedSteps: [], completed: false }, steps);
+
+      expect(onboardingReducer(state, { type: 'NEXT', profile: validProfile })).toBe(state);
+      expect(onboardingReducer(state, {
+        type: 'NEXT',
+        profile: { ...validProfile, github_url: 'https://github.com/ada' },
+      }).current).toBe('complete');
+    });
+
+    it('finishes the flow when leaving the last step', () => {
+      const state = onboardingReducer(
+        { ...freshState(), current: 'complete' },
+        { type: 'NEXT', profile: validProfile }
+      );
+
+      expect(state.finished).toBe(true);
+      expect(state.current).toBe('complete');
+      expect(state.completed).toContain('complete');
+    });
+  });
+
+  describe('BACK', () => {
+    it('goes to the previous step without changing progress', () => {
+      const state = onboardingReducer(
+        { ...freshState(), current: 'roles', completed: ['welcome', 'personal'] },
+        { type: 'BACK' }
+      );
+
+      expect(state.current).toBe('personal');
+      expect(state.completed).toEqual(['welcome', 'personal']);
+    });
+
+    it('does nothing on the first step', () => {
+      const state = freshState();
+
+      expect(onboardingReducer(state, { type: 'BACK' })).toBe(state);
+    });
+  });
+
+  describe('GO_TO', () => {
+    it('opens steps the candidate has reached', () => {
+      const state: OnboardingState = { ...freshState(), current: 'roles', completed: ['welcome', 'personal'] };
+
+      expect(onboardingReducer(state, { type: 'GO_TO', step: 'welcome' }).current).toBe('welcome');
+    });
+
+    it('ignores steps the candidate has not reached', () => {
+      const state = freshState();
+
+      expect(onboardingReducer(state, { type: 'GO_TO', step: 'resume' })).toBe(state);
+    });
+  });
+
+  it('RESTORE rebuilds the state from a record', () => {
+    const state = onboardingReducer(freshState(), {
+      type: 'RESTORE',
+      record: { completedSteps: ['welcome', 'personal'], completed: false },
+    });
+
+    expect(state.current).toBe('roles');
+    expect(state.completed).toEqual(['welcome', 'personal']);
+  });
+
+  describe('SET_FLOW', () => {
+    it('keeps progress on the steps both flows share', () => {
+      const state = onboardingReducer(
+        { ...freshState(), current: 'roles', completed: ['welcome', 'personal', 'experience'] },
+        { type: 'SET_FLOW', steps: ENGINEERING_FLOW }
+      );
+
+      expect(state.steps).toBe(ENGINEERING_FLOW);
+      expect(state.completed).toEqual(['welcome', 'personal']);
+      expect(state.current).toBe('roles');
+    });
+
+    it('moves to the first incomplete step when the open step is not in the new flow', () => {
+      const state = onboardingReducer(
+        { ...freshState(), current: 'experience', completed: ['welcome', 'personal', 'roles'] },
+        { type: 'SET_FLOW', steps: ENGINEERING_FLOW }
+      );
+
+      expect(state.current).toBe('github');
+    });
+
+    it('does nothing when the flow is unchanged', () => {
+      const state = freshState();
+
+      expect(onboardingReducer(state, { type: 'SET_FLOW', steps: state.steps })).toBe(state);
+    });
+  });
+});
+
+describe('canGoToStep', () => {
+  const state: OnboardingState = { ...freshState(), current: 'roles', completed: ['welcome', 'personal'] };
+
+  it('allows completed steps and the current one', () => {
+    expect(canGoToStep(state, 'personal')).toBe(true);
+    expect(canGoToStep(state, 'roles')).toBe(true);
+  });
+
+  it('allows the first incomplete step, but nothing past it', () => {
+    const onWelcome = { ...state, current: 'welcome' as const };
+
+    expect(canGoToStep(onWelcome, 'roles')).toBe(true);
+    expect(canGoToStep(onWelcome, 'experience')).toBe(false);
+  });
+
+  it('rejects steps outside the flow', () => {
+    expect(canGoToStep(state, 'github')).toBe(false);
+  });
+
+  it('allows any step in the flow once the required steps are done', () => {
+    const done = { ...state, completed: [...state.completed, 'roles' as const] };
+
+    expect(canGoToStep(done, 'resume')).toBe(true);
+  });
+});
+
+describe('toOnboardingRecord', () => {
+  it('keeps completed steps from outside the current flow', () => {
+    const record = toOnboardingRecord(
+      { ...freshState(), completed: ['welcome'] },
+      { completedSteps: ['github'], completed: false }
+    );
+
+    expect(record).toEqual({ completedSteps: ['github', 'welcome'], completed: false });
+  });
+});
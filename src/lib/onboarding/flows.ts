@@ -0,0 +1,116 @@
+import { Role } from '../../config/roles';
+import { OnboardingStep } from '../../types';
+import { resolveRole } from '../roleCatalogue';
+import { DEFAULT_ONBOARDING_FLOW, FIELD_GUARDS, ONBOARDING_STEPS, isOnboardingStep } from './steps';
+import { FieldTierName, OnboardingFieldDefinition, OnboardingFlow, OnboardingStepDefinition } from './types';
+
+const FIELD_TIER_NAMES: FieldTierName[] = ['essential', 'important', 'comprehensive'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseField(value: unknown, label: string): OnboardingFieldDefinition {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new Error(`${label} needs an id`);
+  }
+  // A field without a guard would never be checked, so a typo would skip it
+  if (!Object.prototype.hasOwnProperty.call(FIELD_GUARDS, value.id)) {
+    throw new Error(`${label} has an unknown id "${value.id}"`);
+  }
+  if (!FIELD_TIER_NAMES.includes(value.tier as FieldTierName)) {
+    throw new Error(`${label} (${value.id}) has an unknown tier "${String(value.tier)}"`);
+  }
+  if (value.required !== undefined && typeof value.required !== 'boolean') {
+    throw new Error(`${label} (${value.id}) has a non-boolean required flag`);
+  }
+
+  return { id: value.id, tier: value.tier as FieldTierName, required: value.required ?? false };
+}
+
+function parseStep(value: unknown, index: number): OnboardingStepDefinition {
+  const label = `Step ${index + 1}`;
+
+  if (!isRecord(value) || !isOnboardingStep(value.id)) {
+    throw new Error(`${label} has an unknown id "${isRecord(value) ? String(value.id) : value}"`);
+  }
+  if (value.required !== undefined && typeof value.required !== 'boolean') {
+    throw new Error(`${label} (${value.id}) has a non-boolean required flag`);
+  }
+
+  const step = ONBOARDING_STEPS[value.id];
+  const definition = { ...step, required: value.required ?? step.required };
+
+  if (value.fields === undefined) return definition;
+
+  if (!Array.isArray(value.fields)) {
+    throw new Error(`${label} (${value.id}) has fields that aren't a list`);
+  }
+  const fields = value.fields.map((field, fieldIndex) => parseField(field, `${label} field ${fieldIndex + 1}`));
+  if (new Set(fields.map(field => field.id)).size !== fields.length) {
+    throw new Error(`${label} (${value.id}) lists a field more than once`);
+  }
+
+  return { ...definition, fields };
+}
+
+/**
+ * Check the steps of a flow loaded from the database. Titles and
+ * descriptions come from ONBOARDING_STEPS, so a flow only picks the steps,
+ * their order and their required flags and fields. Throws when the flow
+ * couldn't be run.
+ */
+export function parseOnboardingSteps(value: unknown): OnboardingStepDefinition[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('Flow needs a list of steps');
+  }
+
+  const steps = value.map(parseStep);
+  const ids = steps.map(step => step.id);
+
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Flow lists a step more than once');
+  }
+  if (ids[0] !== 'welcome' || ids[ids.length - 1] !== 'complete') {
+    throw new Error('Flow has to start with welcome and end with complete');
+  }
+  // The flow is picked by the candidate's roles, so every flow has to ask for them
+  if (!ids.includes('roles')) {
+    throw new Error('Flow has no roles step');
+  }
+
+  return steps;
+}
+
+/**
+ * The steps for a candidate: the flow for the category of their first
+ * selected role, or else the flow without a category, or else the built-in
+ * flow
+ */
+export function selectOnboardingFlow(
+  flows: OnboardingFlow[],
+  selectedRoles: string[],
+  roles: Role[]
+): OnboardingStepDefinition[] {
+  const category = selectedRoles.length > 0 ? resolveRole(roles, selectedRoles[0])?.category : undefined;
+  const flow = (category && flows.find(item => item.roleCategory === category))
+    || flows.find(item => item.roleCategory === null);
+
+  return flow?.steps || DEFAULT_ONBOARDING_FLOW;
+}
+
+/**
+ * A flow with each of `sections` it leaves out added as an optional step
+ * before its last one. Profile mode uses it so that configuring a flow can't
+ * take away a section the candidate can edit.
+ */
+export function withSections(
+  steps: OnboardingStepDefinition[],
+  sections: OnboardingStep[]
+): OnboardingStepDefinition[] {
+  const missing = sections
+    .filter(id => !steps.some(step => step.id === id))
+    .map(id => ({ ...ONBOARDING_STEPS[id], required: false }));
+  if (missing.length === 0) return steps;
+
+  return [...steps.slice(0, -1), ...missing, steps[steps.length - 1]];
+}
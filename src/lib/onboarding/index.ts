@@ -0,0 +1,22 @@
+export * from './types';
+export {
+  ONBOARDING_STEPS,
+  DEFAULT_ONBOARDING_FLOW,
+  STEP_GUARDS,
+  FIELD_GUARDS,
+  isOnboardingStep,
+  isSectionStep,
+} from './steps';
+export { parseOnboardingSteps, selectOnboardingFlow, withSections } from './flows';
+export {
+  getOnboardingRecord,
+  isOnboardingFinished,
+  createOnboardingState,
+  getCurrentStep,
+  isStepValid,
+  canLeaveStep,
+  canGoToStep,
+  onboardingReducer,
+  toOnboardingRecord,
+  getOnboardingProgress,
+} from './machine';
@@ -0,0 +1,150 @@
+import type { ProfileData } from '../../contexts/ProfileContext';
+import { OnboardingStep } from '../../types';
+import { DEFAULT_ONBOARDING_FLOW, FIELD_GUARDS, STEP_GUARDS, isSectionStep } from './steps';
+import {
+  OnboardingEvent,
+  OnboardingProfile,
+  OnboardingRecord,
+  OnboardingState,
+  OnboardingStepDefinition,
+} from './types';
+
+export const getOnboardingRecord = (
+  profile: Pick<ProfileData, 'completed_steps' | 'onboarding_completed'>
+): OnboardingRecord => ({
+  completedSteps: profile.completed_steps || [],
+  completed: profile.onboarding_completed,
+});
+
+/**
+ * Whether a candidate is done with onboarding: they finished the flow, or
+ * have at least completed every required step
+ */
+export function isOnboardingFinished(
+  record: OnboardingRecord,
+  steps: OnboardingStepDefinition[] = DEFAULT_ONBOARDING_FLOW
+): boolean {
+  return record.completed || steps
+    .filter(step => step.required)
+    .every(step => record.completedSteps.includes(step.id));
+}
+
+/**
+ * Restore onboarding from what was persisted. An unfinished flow resumes at
+ * its first incomplete step, a finished one sits on the last step.
+ */
+export function createOnboardingState(
+  record: OnboardingRecord,
+  steps: OnboardingStepDefinition[] = DEFAULT_ONBOARDING_FLOW
+): OnboardingState {
+  const completed = steps
+    .map(step => step.id)
+    .filter(id => record.completedSteps.includes(id));
+  const finished = record.completed;
+  const lastStep = steps[steps.length - 1].id;
+  const resumeAt = steps.find(step => !completed.includes(step.id))?.id || lastStep;
+
+  return {
+    steps,
+    current: finished ? lastStep : resumeAt,
+    completed,
+    finished,
+  };
+}
+
+export const getCurrentStep = (state: OnboardingState): OnboardingStepDefinition =>
+  state.steps.find(step => step.id === state.current) || state.steps[0];
+
+// A step whose fields the flow lists is valid once its required fields are
+export function isStepValid(step: OnboardingStepDefinition, profile: OnboardingProfile): boolean {
+  if (!step.fields) return STEP_GUARDS[step.id]?.(profile) ?? true;
+
+  return step.fields
+    .filter(field => field.required)
+    .every(field => FIELD_GUARDS[field.id]?.(profile) ?? true);
+}
+
+// Guard for NEXT: required steps need valid input
+export function canLeaveStep(state: OnboardingState, profile: OnboardingProfile): boolean {
+  const step = getCurrentStep(state);
+  return !step.required || isStepValid(step, profile);
+}
+
+// Guard for GO_TO: until the required steps are done, only steps already reached can be opened
+export function canGoToStep(state: OnboardingState, step: OnboardingStep): boolean {
+  if (!state.steps.some(item => item.id === step)) return false;
+  if (isOnboardingFinished(toOnboardingRecord(state), state.steps)) return true;
+  if (state.completed.includes(step) || state.current === step) return true;
+
+  const firstIncomplete = state.steps.find(item => !state.completed.includes(item.id));
+  return firstIncomplete?.id === step;
+}
+
+export function onboardingReducer(state: OnboardingState, event: OnboardingEvent): OnboardingState {
+  const index = state.steps.findIndex(step => step.id === state.current);
+
+  switch (event.type) {
+    case 'NEXT': {
+      if (!canLeaveStep(state, event.profile)) return state;
+
+      const completed = state.completed.includes(state.current)
+        ? state.completed
+        : [...state.completed, state.current];
+      const next = state.steps[index + 1];
+
+      return next
+        ? { ...state, current: next.id, completed }
+        : { ...state, completed, finished: true };
+    }
+
+    case 'BACK':
+      return index > 0 ? { ...state, current: state.steps[index - 1].id } : state;
+
+    case 'GO_TO':
+      return canGoToStep(state, event.step) ? { ...state, current: event.step } : state;
+
+    case 'RESTORE':
+      return createOnboardingState(event.record, state.steps);
+
+    // Steps the flows share keep their progress, and the open step stays
+    // open if the new flow has it
+    case 'SET_FLOW': {
+      if (event.steps === state.steps) return state;
+
+      const next = createOnboardingState(toOnboardingRecord(state), event.steps);
+      return event.steps.some(step => step.id === state.current)
+        ? { ...next, current: state.current }
+        : next;
+    }
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * What to persist for the current state. Completed steps outside this flow
+ * are kept from the previous record.
+ */
+export function toOnboardingRecord(state: OnboardingState, previous?: OnboardingRecord): OnboardingRecord {
+  return {
+    completedSteps: [...new Set([...(previous?.completedSteps || []), ...state.completed])],
+    completed: state.finished,
+  };
+}
+
+/**
+ * Progress through the profile sections, leaving out the welcome and
+ * completion screens. `index` is -1 while on either of those.
+ */
+export function getOnboardingProgress(state: OnboardingState) {
+  const sections = state.steps.filter(step => isSectionStep(step.id));
+  const completedCount = sections.filter(step => state.completed.includes(step.id)).length;
+
+  return {
+    sections,
+    index: sections.findIndex(step => step.id === state.current),
+    completedCount,
+    percent: sections.length > 0 ? Math.round((completedCount / sections.length) * 100) : 100,
+  };
+}
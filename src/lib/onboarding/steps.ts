@@ -0,0 +1,117 @@
+import { OnboardingStep } from '../../types';
+import { OnboardingProfile, OnboardingStepDefinition } from './types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s-()]{10,}$/;
+const GITHUB_PATTERN = /^https?:\/\/(www\.)?github\.com\/[\w-]+\/?$/i;
+const URL_PATTERN = /^https?:\/\/[^\s.]+\.[^\s]+$/i;
+
+type Guard = (profile: OnboardingProfile) => boolean;
+
+const hasPersonalInfo: Guard = profile =>
+  profile.full_name.trim().length >= 2 &&
+  EMAIL_PATTERN.test(profile.email) &&
+  (!profile.phone_number?.trim() || PHONE_PATTERN.test(profile.phone_number));
+
+const hasRoles: Guard = profile => profile.selected_roles.length > 0;
+
+/**
+ * Whether a step's input is valid, for steps that check any
+ */
+export const STEP_GUARDS: Partial<Record<OnboardingStep, Guard>> = {
+  personal: hasPersonalInfo,
+  roles: hasRoles,
+};
+
+/**
+ * Whether a field's input is valid, keyed by the id its section gives it.
+ * Used instead of the step guard when a flow lists a step's fields.
+ */
+export const FIELD_GUARDS: Record<string, Guard> = {
+  'basic-info': hasPersonalInfo,
+  'primary-roles': hasRoles,
+  'github-profile': profile => GITHUB_PATTERN.test(profile.github_url?.trim() || ''),
+  'portfolio-link': profile => URL_PATTERN.test(profile.website_url?.trim() || ''),
+  positions: profile => profile.work_experiences.some(experience => !!experience.company.trim() && !!experience.title.trim()),
+  'role-highlights': profile => profile.work_experiences.some(experience => !!experience.description?.trim()),
+  technologies: profile => profile.work_experiences.some(experience => experience.technologies.length > 0),
+};
+
+export const ONBOARDING_STEPS: Record<OnboardingStep, OnboardingStepDefinition> = {
+  welcome: {
+    id: 'welcome',
+    title: 'Welcome',
+    description: '',
+    required: false,
+  },
+  personal: {
+    id: 'personal',
+    title: 'Personal Information',
+    description: 'Tell us about yourself so companies can get to know you',
+    required: true,
+  },
+  roles: {
+    id: 'roles',
+    title: 'Roles & Skills',
+    description: 'Select roles and skills that match your expertise and career goals',
+    required: true,
+  },
+  github: {
+    id: 'github',
+    title: 'GitHub',
+    description: 'Link your GitHub so companies can see the code behind your experience',
+    required: false,
+  },
+  portfolio: {
+    id: 'portfolio',
+    title: 'Portfolio',
+    description: 'Share your portfolio so companies can see your design work',
+    required: false,
+  },
+  experience: {
+    id: 'experience',
+    title: 'Work Experience',
+    description: 'Add the roles you have held to show where your skills come from',
+    required: false,
+  },
+  preferences: {
+    id: 'preferences',
+    title: 'Preferences',
+    description: 'Set your preferences to help us find the perfect opportunities for you',
+    required: false,
+  },
+  education: {
+    id: 'education',
+    title: 'Education',
+    description: 'Share your educational background to strengthen your profile',
+    required: false,
+  },
+  resume: {
+    id: 'resume',
+    title: 'Resume',
+    description: 'Upload your resume so we can fill in the gaps for you',
+    required: false,
+  },
+  interview: {
+    id: 'interview',
+    title: 'AI Interview',
+    description: 'Chat with our AI interviewer to showcase your skills',
+    required: false,
+  },
+  complete: {
+    id: 'complete',
+    title: 'Complete',
+    description: '',
+    required: false,
+  },
+};
+
+export const DEFAULT_ONBOARDING_FLOW: OnboardingStepDefinition[] = (
+  ['welcome', 'personal', 'roles', 'experience', 'preferences', 'education', 'resume', 'complete'] as const
+).map(id => ONBOARDING_STEPS[id]);
+
+export const isOnboardingStep = (value: unknown): value is OnboardingStep =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ONBOARDING_STEPS, value);
+
+// The welcome and completion screens frame the flow but aren't profile sections
+export const isSectionStep = (step: OnboardingStep) => step !== 'welcome' && step !== 'complete';
@@ -0,0 +1,74 @@
+import type { ProfileData } from '../../contexts/ProfileContext';
+import { OnboardingStep } from '../../types';
+
+/**
+ * The parts of a profile the step guards look at
+ */
+export type OnboardingProfile = Pick<
+  ProfileData,
+  'full_name' | 'email' | 'phone_number' | 'selected_roles' | 'github_url' | 'website_url' | 'work_experiences'
+>;
+
+export type FieldTierName = 'essential' | 'important' | 'comprehensive';
+
+/**
+ * How a flow sets up one of a section's fields. Essential fields are shown
+ * during onboarding, the rest only on the profile page.
+ */
+export interface OnboardingFieldDefinition {
+  // The id the section component gives the field
+  id: string;
+  tier: FieldTierName;
+  // A required field's guard has to pass before a required step can be left
+  required: boolean;
+}
+
+export interface OnboardingStepDefinition {
+  id: OnboardingStep;
+  title: string;
+  // Shown under the title while the step is open
+  description: string;
+  // A required step can't be left until its guard passes
+  required: boolean;
+  // Overrides for the section's own field tiers. Without them the step is
+  // checked by its step guard.
+  fields?: OnboardingFieldDefinition[];
+}
+
+/**
+ * An ordered flow of steps for candidates whose roles fall in a category
+ */
+export interface OnboardingFlow {
+  // null for the flow used by categories without their own
+  roleCategory: string | null;
+  steps: OnboardingStepDefinition[];
+}
+
+/**
+ * Where a candidate is in onboarding. Steps run in order from the welcome
+ * screen to the completion screen.
+ */
+export interface OnboardingState {
+  steps: OnboardingStepDefinition[];
+  current: OnboardingStep;
+  completed: OnboardingStep[];
+  // Set once the candidate leaves the last step
+  finished: boolean;
+}
+
+export type OnboardingEvent =
+  // The profile as it stands, for the current step's guard
+  | { type: 'NEXT'; profile: OnboardingProfile }
+  | { type: 'BACK' }
+  | { type: 'GO_TO'; step: OnboardingStep }
+  | { type: 'RESTORE'; record: OnboardingRecord }
+  // Switch flows, e.g. once the candidate's roles pick a different one
+  | { type: 'SET_FLOW'; steps: OnboardingStepDefinition[] };
+
+/**
+ * What's persisted to user_onboarding between sessions
+ */
+export interface OnboardingRecord {
+  completedSteps: string[];
+  completed: boolean;
+}
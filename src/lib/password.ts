@@ -0,0 +1,12 @@
+// Shared by sign up and password reset so both enforce the same rule
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * The reason a new password is rejected, or null when it's acceptable
+ */
+export function validatePassword(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
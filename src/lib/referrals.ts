@@ -0,0 +1,35 @@
+import type { User as SupabaseUser } from '@supabase/supabase-js';
+import { ReferralStatus } from '../types';
+
+// Furthest last
+export const REFERRAL_STATUSES: ReferralStatus[] = ['invited', 'signed_up', 'matched', 'applied'];
+
+export const REFERRAL_STATUS_LABELS: Record<ReferralStatus, string> = {
+  invited: 'Invited',
+  signed_up: 'Signed up',
+  matched: 'Matched',
+  applied: 'Applied',
+};
+
+export const isReferralStatus = (value: unknown): value is ReferralStatus =>
+  REFERRAL_STATUSES.includes(value as ReferralStatus);
+
+// Query parameter carrying a referral code on the sign-up page
+export const REFERRAL_CODE_PARAM = 'ref';
+
+// Holds the code across a Google sign-up, which can't carry user metadata
+const PENDING_REFERRAL_KEY = 'pending_referral_code';
+
+export const referralLink = (code: string) =>
+  `${window.location.origin}/signup?${REFERRAL_CODE_PARAM}=${encodeURIComponent(code)}`;
+
+export const storePendingReferralCode = (code: string) => localStorage.setItem(PENDING_REFERRAL_KEY, code);
+
+export const clearPendingReferralCode = () => localStorage.removeItem(PENDING_REFERRAL_KEY);
+
+/**
+ * The code a new candidate signed up with: from their user metadata after
+ * an email sign-up, or from storage after a Google one
+ */
+export const getPendingReferralCode = (user: Pick<SupabaseUser, 'user_metadata'>): string | null =>
+  user.user_metadata?.referral_code || localStorage.getItem(PENDING_REFERRAL_KEY);
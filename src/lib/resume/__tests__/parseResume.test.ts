@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { parseResume } from '../parseResume';
+
+const RESUME = `
+Ada Lovelace
+Senior Software Engineer
+London, UK | ada@example.com | +44 20 7946 0958
+linkedin.com/in/ada | github.com/ada | ada.dev
+
+Summary
+Engineer who likes analytical engines.
+
+Experience
+Senior Software Engineer | Analytical Engines Ltd
+Mar 2021 - Present
+• Built the TypeScript billing service on React and PostgreSQL
+• Led a team of four
+
+Babbage & Co, Software Developer, 01/2018 - 02/2021
+• Maintained the Python data pipeline
+
+Education
+University of London
+Bachelor of Science in Mathematics
+09/2014 - 06/2017
+GPA: 3.8, magna cum laude
+• Chess club
+
+Skills
+Languages: TypeScript, Python; Go
+Tools: Docker | Kubernetes
+`;
+
+describe('parseResume', () => {
+  const parsed = parseResume(RESUME);
+
+  it('reads the name, contact details and links from the header', () => {
+    expect(parsed.fullName).toBe('Ada Lovelace');
+    expect(parsed.email).toBe('ada@example.com');
+    expect(parsed.phoneNumber).toBe('+44 20 7946 0958');
+    expect(parsed.location).toBe('London, UK');
+    expect(parsed.linkedinUrl).toBe('https://linkedin.com/in/ada');
+    expect(parsed.githubUrl).toBe('https://github.com/ada');
+    expect(parsed.websiteUrl).toBe('https://ada.dev');
+  });
+
+  it('reads each position from its date range, whichever way round title and company are', () => {
+    expect(parsed.workExperiences.map(({ title, company, startDate, endDate, current }) =>
+      ({ title, company, startDate, endDate, current })
+    )).toEqual([
+      { title: 'Senior Software Engineer', company: 'Analytical Engines Ltd', startDate: '2021-03', endDate: '', current: true },
+      { title: 'Software Developer', company: 'Babbage & Co', startDate: '2018-01', endDate: '2021-02', current: false },
+    ]);
+  });
+
+  it('keeps the lines after a position as its description', () => {
+    expect(parsed.workExperiences[0].description).toBe(
+      'Built the TypeScript billing service on React and PostgreSQL\nLed a team of four'
+    );
+    expect(parsed.workExperiences[1].description).toBe('Maintained the Python data pipeline');
+  });
+
+  it('reads the school, degree, dates, GPA, honors and activities', () => {
+    expect(parsed.educations).toHaveLength(1);
+    expect(parsed.educations[0]).toMatchObject({
+      school: 'University of London',
+      degree: 'Bachelor of Science',
+      field: 'Mathematics',
+      startDate: '09/2014',
+      endDate: '06/2017',
+      current: false,
+      gpa: '3.8',
+      honors: 'magna cum laude',
+      activities: 'Chess club',
+    });
+  });
+
+  it('lists skills after their labels, split on any separator', () => {
+    expect(parsed.skills).toEqual(expect.arrayContaining(['TypeScript', 'Python', 'Go', 'Docker', 'Kubernetes']));
+  });
+
+  it('rejects date ranges with a month that does not exist', () => {
+    const { workExperiences } = parseResume('Experience\nSoftware Engineer | Acme\n13/2021 - Present');
+
+    expect(workExperiences).toEqual([]);
+  });
+
+  it('reads a year-only range as starting in January', () => {
+    const [experience] = parseResume('Experience\nData Analyst, Acme, 2019 - 2020').workExperiences;
+
+    expect(experience).toMatchObject({ title: 'Data Analyst', company: 'Acme', startDate: '2019-01', endDate: '2020-01' });
+  });
+
+  it('takes a place after the school for a location, not a Master of Arts', () => {
+    const [education] = parseResume('Education\nState University\nBoston, MA\nBSc Computer Science, 2012').educations;
+
+    expect(education).toMatchObject({ school: 'State University', degree: 'BSc Computer Science', endDate: '05/2012' });
+  });
+
+  it('reads a degree on the same line as its school', () => {
+    const [education] = parseResume('Education\nMBA, Harvard Business School').educations;
+
+    expect(education).toMatchObject({ school: 'Harvard Business School', degree: 'MBA' });
+  });
+});
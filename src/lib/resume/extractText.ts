@@ -0,0 +1,58 @@
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Whether text can be extracted from the file. Legacy .doc files can
+ * still be uploaded but aren't parsed.
+ */
+export const canExtractText = (file: File) =>
+  file.type === PDF_MIME_TYPE || file.type === DOCX_MIME_TYPE;
+
+// Rebuild the PDF's lines from its positioned text runs
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const document = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let pageText = '';
+
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        pageText += item.str;
+        if (item.hasEOL) pageText += '\n';
+      }
+
+      pages.push(pageText);
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return pages.join('\n');
+}
+
+async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ arrayBuffer: data });
+  return value;
+}
+
+/**
+ * Extract a resume's plain text in the browser. Nothing is sent to a server.
+ */
+export async function extractResumeText(file: File): Promise<string> {
+  const data = await file.arrayBuffer();
+
+  if (file.type === PDF_MIME_TYPE) return extractPdfText(data);
+  if (file.type === DOCX_MIME_TYPE) return extractDocxText(data);
+
+  throw new Error('Only PDF and DOCX resumes can be read');
+}
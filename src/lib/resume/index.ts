@@ -0,0 +1,4 @@
+export * from './types';
+export { canExtractText, extractResumeText } from './extractText';
+export { parseResume } from './parseResume';
+export { buildResumeSuggestions, applyResumeSuggestions } from './suggestions';
@@ -0,0 +1,331 @@
+import { Education, WorkExperience } from '../../types';
+import { findTopics } from '../interview/topics';
+import { ParsedResume } from './types';
+
+type SectionId = 'header' | 'experience' | 'education' | 'skills' | 'other';
+
+const SECTION_HEADINGS: { id: SectionId; pattern: RegExp }[] = [
+  { id: 'experience', pattern: /^(work |professional |relevant )?(experience|employment( history)?|work history|career history)$/i },
+  { id: 'education', pattern: /^(education|academic background|education & training)$/i },
+  { id: 'skills', pattern: /^((technical |core |key )?skills|technologies|tech stack|skills & (technologies|tools))$/i },
+  { id: 'other', pattern: /^(summary|profile|about( me)?|objective|projects|certifications|awards|publications|interests|languages|volunteering|references)$/i },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{4}|\d{1,2}/\d{4}|\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now)`, 'i');
+const SINGLE_YEAR = /\b(19|20)\d{2}\b/;
+
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+const PHONE = /(\+?\(?\d[\d\s().-]{7,}\d)/;
+const URL = /(https?:\/\/)?(www\.)?[\w-]+(\.[\w-]+)+(\/[\w\-./?%&=#]*)?/gi;
+const LOCATION = /^[A-Z][a-zA-Z.'-]*( [A-Z][a-zA-Z.'-]*)*, ([A-Z]{2}|[A-Z][a-zA-Z]+( [A-Z][a-zA-Z]+)*)$/;
+const BULLET = /^[•▪●◦‣∙*-]\s*/;
+
+const JOB_TITLE_WORDS = /\b(engineer|developer|manager|designer|analyst|scientist|lead|director|intern|consultant|architect|head|officer|specialist|researcher|administrator|programmer|vp|president)\b/i;
+const SCHOOL_WORDS = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const DEGREE = /\b(bachelor(?:'s)?|master(?:'s)?|associate(?:'s)?|doctor(?:ate)?|ph\.?\s?d\.?|mba|b\.?\s?s\.?c?|b\.?\s?a\.?|m\.?\s?s\.?c?|m\.?\s?a\.?|b\.?\s?eng|m\.?\s?eng|diploma|certificate)\b/i;
+const GPA = /\bGPA:?\s*([0-4](?:\.\d{1,2})?)/i;
+const HONORS = /\b(summa cum laude|magna cum laude|cum laude|with (?:first class )?honou?rs|dean's list)\b/i;
+
+// Separators between title, company and dates on one line
+const PART_SEPARATOR = /\s+(?:\||•|·|—|–|-|@|at)\s+|,\s+|\s{2,}|\t/;
+
+const clean = (line: string) => line.replace(BULLET, '').replace(/\s+/g, ' ').trim();
+
+const newId = () => crypto.randomUUID();
+
+const headingFor = (line: string): SectionId | null => {
+  const text = line.replace(/:$/, '').trim();
+  if (text.length > 40) return null;
+  return SECTION_HEADINGS.find(({ pattern }) => pattern.test(text))?.id || null;
+};
+
+/**
+ * Split the resume into its sections, keyed by heading. Lines before the
+ * first heading are the header.
+ */
+const splitSections = (lines: string[]) => {
+  const sections: Record<SectionId, string[]> = { header: [], experience: [], education: [], skills: [], other: [] };
+  let current: SectionId = 'header';
+
+  for (const line of lines) {
+    const heading = headingFor(line);
+    if (heading) {
+      current = heading;
+    } else {
+      sections[current].push(line);
+    }
+  }
+
+  return sections;
+};
+
+const toYearMonth = (year: string, month: number) =>
+  month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : null;
+
+// "Mar 2021", "03/2021" or "2021" → "2021-03", or null when the month isn't one
+const toMonth = (value: string): string | null => {
+  const text = value.toLowerCase().trim();
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric) return toYearMonth(numeric[2], Number(numeric[1]));
+
+  const named = text.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (named) return toYearMonth(named[2], MONTHS.indexOf(named[1].slice(0, 3)) + 1);
+
+  return `${text}-01`;
+};
+
+// A range with a month that doesn't exist, like "13/2021", isn't a date range
+const parseDateRange = (line: string) => {
+  const match = line.match(DATE_RANGE);
+  if (!match) return null;
+
+  const current = /^(present|current|now)$/i.test(match[2]);
+  const startDate = toMonth(match[1]);
+  const endDate = current ? '' : toMonth(match[2]);
+  if (startDate === null || endDate === null) return null;
+
+  return {
+    startDate,
+    endDate,
+    current,
+    rest: clean(line.replace(match[0], ' ').replace(/[|,(]\s*\)?\s*$/, '')),
+  };
+};
+
+const splitParts = (text: string) =>
+  text.split(PART_SEPARATOR).map(part => part.trim()).filter(Boolean);
+
+// Order a title and a company, whichever way round the resume lists them
+const toTitleAndCompany = (parts: string[]) => {
+  const titleIndex = parts.findIndex(part => JOB_TITLE_WORDS.test(part));
+  if (titleIndex === -1) return { title: parts[0] || '', company: parts[1] || '' };
+
+  const company = parts.find((_, index) => index !== titleIndex) || '';
+  return { title: parts[titleIndex], company };
+};
+
+/**
+ * Positions start at each line with a date range. Title and company come
+ * from that line, or the line above when it holds only one of them; the
+ * lines after it are the description.
+ */
+const parseWorkExperiences = (lines: string[]): WorkExperience[] => {
+  const experiences: WorkExperience[] = [];
+  let pending: string[] = [];
+  let currentEntry: { experience: WorkExperience; description: string[] } | null = null;
+
+  const finishEntry = () => {
+    if (!currentEntry) return;
+    const description = currentEntry.description.join('\n');
+    experiences.push({
+      ...currentEntry.experience,
+      description: description || undefined,
+      technologies: findTopics(description),
+    });
+    currentEntry = null;
+  };
+
+  lines.forEach((line, index) => {
+    const range = parseDateRange(line);
+    if (!range) {
+      // A short line right before a dated line belongs to the next position
+      const nextIsDated = index + 1 < lines.length && !!parseDateRange(lines[index + 1]);
+      if (nextIsDated && !BULLET.test(line)) {
+        pending.push(clean(line));
+      } else if (currentEntry) {
+        currentEntry.description.push(clean(line));
+      }
+      return;
+    }
+
+    finishEntry();
+    const parts = [...pending.flatMap(splitParts), ...splitParts(range.rest)];
+    pending = [];
+    const { title, company } = toTitleAndCompany(parts);
+
+    currentEntry = {
+      experience: {
+        id: newId(),
+        company,
+        title,
+        startDate: range.startDate,
+        endDate: range.endDate,
+        current: range.current,
+        technologies: [],
+      },
+      description: [],
+    };
+  });
+
+  finishEntry();
+  return experiences.filter(experience => experience.company || experience.title);
+};
+
+// "2021-03" → "03/2021", the format education dates are kept in
+const toEducationDate = (month: string) => {
+  const [year, monthNumber] = month.split('-');
+  return year && monthNumber ? `${monthNumber}/${year}` : '';
+};
+
+const parseDegree = (text: string) => {
+  const match = text.match(DEGREE);
+  if (!match || match.index === undefined) return null;
+
+  const phrase = clean(text.slice(match.index).split(/,|\||\s{2,}/)[0]);
+  // "Bachelor of Science in Computer Science" keeps "of Science" in the degree
+  const fieldMatch = phrase.match(/\s+in\s+(.+)$/i) || phrase.match(/\s+of\s+(.+)$/i);
+  const field = fieldMatch ? fieldMatch[1].replace(DATE_RANGE, '').replace(SINGLE_YEAR, '').trim() : '';
+  const degree = fieldMatch ? phrase.slice(0, fieldMatch.index).trim() : phrase;
+
+  return { degree, field };
+};
+
+/**
+ * Schools start at each line naming a university, college or similar.
+ * Degree, dates, GPA and honors are read from the lines that follow.
+ */
+const parseEducations = (lines: string[]): Education[] => {
+  const educations: Education[] = [];
+  const activities: string[][] = [];
+
+  for (const line of lines) {
+    const text = clean(line);
+    const last = educations[educations.length - 1];
+    const schoolMatch = SCHOOL_WORDS.test(text);
+
+    if (schoolMatch || !last) {
+      const school = schoolMatch
+        ? splitParts(text.replace(DATE_RANGE, ' ')).find(part => SCHOOL_WORDS.test(part)) || text
+        : '';
+      educations.push({
+        id: newId(),
+        school,
+        degree: '',
+        field: '',
+        startDate: '',
+        endDate: '',
+        current: false,
+      });
+      activities.push([]);
+    }
+
+    const education = educations[educations.length - 1];
+    const range = parseDateRange(text);
+    if (range && !education.startDate) {
+      education.startDate = toEducationDate(range.startDate);
+      education.endDate = toEducationDate(range.endDate);
+      education.current = range.current;
+    } else if (!range && !education.endDate) {
+      const year = text.match(SINGLE_YEAR);
+      if (year && (schoolMatch || DEGREE.test(text))) education.endDate = `05/${year[0]}`;
+    }
+
+    // "Boston, MA" is a place, not a Master of Arts, but "MBA, Harvard
+    // Business School" names a degree before the comma
+    const isPlace = LOCATION.test(text) && !DEGREE.test(text.split(',')[0]);
+    const degree = isPlace ? null : parseDegree(text);
+    if (degree && !education.degree && !schoolMatch) {
+      education.degree = degree.degree;
+      education.field = degree.field;
+    } else if (degree && !education.degree && schoolMatch) {
+      // "BSc Computer Science, State University"
+      const rest = text.replace(education.school, ' ');
+      const sameLine = parseDegree(rest);
+      if (sameLine) {
+        education.degree = sameLine.degree;
+        education.field = sameLine.field;
+      }
+    }
+
+    const gpa = text.match(GPA);
+    if (gpa) education.gpa = gpa[1];
+
+    const honors = text.match(HONORS);
+    if (honors) education.honors = honors[1];
+
+    if (!schoolMatch && !degree && !range && !gpa && !honors && BULLET.test(line)) {
+      activities[activities.length - 1].push(text);
+    }
+  }
+
+  return educations
+    .map((education, index) => ({
+      ...education,
+      activities: activities[index].join('\n') || undefined,
+    }))
+    .filter(education => education.school || education.degree);
+};
+
+/**
+ * Skills listed in a skills section, plus known technologies mentioned
+ * anywhere in the resume
+ */
+const parseSkills = (lines: string[], text: string): string[] => {
+  const listed = lines
+    .map(clean)
+    // "Languages: TypeScript, Go" lists the skills after the label
+    .map(line => line.replace(/^[^:,]{1,30}:\s*/, ''))
+    .flatMap(line => line.split(/\s*[,;|•·]\s*/))
+    .map(skill => skill.replace(/\.$/, '').trim())
+    .filter(skill => skill.length > 1 && skill.length <= 40 && skill.split(' ').length <= 4);
+
+  const skills: string[] = [];
+  for (const skill of [...listed, ...findTopics(text)]) {
+    if (!skills.some(existing => existing.toLowerCase() === skill.toLowerCase())) {
+      skills.push(skill);
+    }
+  }
+  return skills;
+};
+
+const isName = (text: string) =>
+  /^[A-Z][a-zA-Z'.-]+( [A-Z][a-zA-Z'.-]*){1,3}$/.test(text) && !JOB_TITLE_WORDS.test(text);
+
+/**
+ * Name, contact details and links from the top of the resume
+ */
+const parseHeader = (lines: string[], text: string) => {
+  const parts = lines.flatMap(line => line.split(/\s+[|•·]\s+|\t/)).map(clean).filter(Boolean);
+  const withoutEmails = (value: string) => value.replace(new RegExp(EMAIL.source, 'g'), ' ');
+  const urls = withoutEmails(text).match(URL) || [];
+  const findUrl = (host: string) => urls.find(url => url.toLowerCase().includes(host));
+  const withProtocol = (url?: string) => (url && !/^https?:\/\//i.test(url) ? `https://${url}` : url);
+
+  return {
+    fullName: parts.find(isName),
+    email: text.match(EMAIL)?.[0],
+    phoneNumber: parts.map(part => part.match(PHONE)?.[1]).find(Boolean)?.trim(),
+    location: parts.find(part => LOCATION.test(part)),
+    linkedinUrl: withProtocol(findUrl('linkedin.com')),
+    githubUrl: withProtocol(findUrl('github.com')),
+    // Only a link from the header counts as a personal website
+    websiteUrl: withProtocol(
+      parts
+        .flatMap(part => withoutEmails(part).match(URL) || [])
+        .find(url => !/linkedin\.com|github\.com/i.test(url) && /\.[a-z]{2,}$/i.test(url.split('/')[0]))
+    ),
+  };
+};
+
+/**
+ * Pull profile details out of a resume's plain text. The parser works on
+ * headings and line patterns common to most resumes, so every result is
+ * a suggestion for the candidate to review.
+ */
+export function parseResume(text: string): ParsedResume {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+
+  return {
+    ...parseHeader(sections.header, sections.header.join('\n')),
+    workExperiences: parseWorkExperiences(sections.experience),
+    educations: parseEducations(sections.education),
+    skills: parseSkills(sections.skills, text),
+  };
+}
@@ -0,0 +1,160 @@
+import type { ProfileData } from '../../contexts/ProfileContext';
+import { SkillIndex, resolveSkill } from '../skills';
+import { Education, WorkExperience } from '../../types';
+import { ParsedResume, ResumeSuggestion } from './types';
+
+type ContactField = 'full_name' | 'email' | 'phone_number' | 'location' | 'linkedin_url' | 'github_url' | 'website_url';
+
+const CONTACT_FIELDS: { field: ContactField; key: keyof ParsedResume; label: string }[] = [
+  { field: 'full_name', key: 'fullName', label: 'Full Name' },
+  { field: 'email', key: 'email', label: 'Email' },
+  { field: 'phone_number', key: 'phoneNumber', label: 'Phone Number' },
+  { field: 'location', key: 'location', label: 'Location' },
+  { field: 'linkedin_url', key: 'linkedinUrl', label: 'LinkedIn' },
+  { field: 'github_url', key: 'githubUrl', label: 'GitHub' },
+  { field: 'website_url', key: 'websiteUrl', label: 'Website' },
+];
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const describeWorkExperience = (experience: WorkExperience) => {
+  const dates = `${experience.startDate} – ${experience.current ? 'Present' : experience.endDate || '?'}`;
+  return [experience.title, experience.company, dates].filter(Boolean).join(' · ');
+};
+
+const describeEducation = (education: Education) => {
+  const degree = [education.degree, education.field].filter(Boolean).join(' in ');
+  return [education.school, degree, education.endDate].filter(Boolean).join(' · ');
+};
+
+const hasWorkExperience = (profile: ProfileData, experience: WorkExperience) =>
+  profile.work_experiences.some(existing =>
+    normalize(existing.company) === normalize(experience.company) &&
+    normalize(existing.title) === normalize(experience.title)
+  );
+
+const hasEducation = (profile: ProfileData, education: Education) =>
+  profile.educations.some(existing =>
+    normalize(existing.school) === normalize(education.school) &&
+    normalize(existing.degree) === normalize(education.degree)
+  );
+
+/**
+ * Turn a parsed resume into suggestions for the review screen. Fields that
+ * already match the profile, and positions, schools or skills already
+ * listed, are left out.
+ */
+export function buildResumeSuggestions(
+  parsed: ParsedResume,
+  profile: ProfileData,
+  skillIndex: SkillIndex
+): ResumeSuggestion[] {
+  const suggestions: ResumeSuggestion[] = [];
+
+  for (const { field, key, label } of CONTACT_FIELDS) {
+    const value = parsed[key];
+    if (typeof value !== 'string' || !value || normalize(value) === normalize(profile[field])) continue;
+
+    suggestions.push({
+      id: `contact-${field}`,
+      group: 'contact',
+      label,
+      value,
+      currentValue: profile[field] || undefined,
+      apply: () => ({ [field]: value }),
+    });
+  }
+
+  for (const experience of parsed.workExperiences) {
+    if (hasWorkExperience(profile, experience)) continue;
+
+    suggestions.push({
+      id: `experience-${experience.id}`,
+      group: 'experience',
+      label: experience.title || 'Position',
+      value: describeWorkExperience(experience),
+      apply: current => ({ work_experiences: [...current.work_experiences, experience] }),
+    });
+  }
+
+  for (const education of parsed.educations) {
+    if (hasEducation(profile, education)) continue;
+
+    suggestions.push({
+      id: `education-${education.id}`,
+      group: 'education',
+      label: education.school || 'Education',
+      value: describeEducation(education),
+      apply: current => ({ educations: [...current.educations, education] }),
+    });
+  }
+
+  // Skills in the taxonomy become candidate skills. Any other skill is kept as
+  // a technology of the most recent position, so needs a position to keep it.
+  const hasPosition = profile.work_experiences.length > 0;
+  const canAddPosition = suggestions.some(suggestion => suggestion.group === 'experience');
+  const suggestedSkillIds = new Set<string>();
+
+  for (const skill of parsed.skills) {
+    const definition = resolveSkill(skillIndex, skill);
+
+    if (definition) {
+      if (suggestedSkillIds.has(definition.id) || profile.skills.some(item => item.skillId === definition.id)) continue;
+      suggestedSkillIds.add(definition.id);
+
+      suggestions.push({
+        id: `skill-${definition.id}`,
+        group: 'skills',
+        label: definition.name,
+        value: definition.name,
+        apply: current => (current.skills.some(item => item.skillId === definition.id)
+          ? {}
+          : { skills: [...current.skills, { skillId: definition.id, name: definition.name, proficiency: 3 }] }),
+      });
+      continue;
+    }
+
+    if (!hasPosition && !canAddPosition) continue;
+
+    suggestions.push({
+      id: `skill-${normalize(skill)}`,
+      group: 'skills',
+      label: skill,
+      value: skill,
+      note: hasPosition ? undefined : 'Only kept if you accept a position above',
+      apply: current => {
+        const [latest, ...rest] = current.work_experiences;
+        if (!latest || latest.technologies.some(technology => normalize(technology) === normalize(skill))) {
+          return {};
+        }
+        return {
+          work_experiences: [{ ...latest, technologies: [...latest.technologies, skill] }, ...rest],
+        };
+      },
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * The profile changes from the accepted suggestions, applied in order so
+ * later suggestions build on earlier ones
+ */
+export function applyResumeSuggestions(
+  suggestions: ResumeSuggestion[],
+  acceptedIds: Set<string>,
+  profile: ProfileData
+): Partial<ProfileData> {
+  let current = profile;
+  let changes: Partial<ProfileData> = {};
+
+  for (const suggestion of suggestions) {
+    if (!acceptedIds.has(suggestion.id)) continue;
+    const change = suggestion.apply(current);
+    current = { ...current, ...change };
+    changes = { ...changes, ...change };
+  }
+
+  return changes;
+}
@@ -0,0 +1,38 @@
+import type { ProfileData } from '../../contexts/ProfileContext';
+import { Education, WorkExperience } from '../../types';
+
+/**
+ * What the parser could find in a resume. Anything it couldn't find is
+ * left undefined or empty.
+ */
+export interface ParsedResume {
+  fullName?: string;
+  email?: string;
+  phoneNumber?: string;
+  location?: string;
+  linkedinUrl?: string;
+  githubUrl?: string;
+  websiteUrl?: string;
+  workExperiences: WorkExperience[];
+  educations: Education[];
+  skills: string[];
+}
+
+export type ResumeSuggestionGroup = 'contact' | 'experience' | 'education' | 'skills';
+
+/**
+ * One field the candidate can accept or reject before it's merged
+ * into their profile
+ */
+export interface ResumeSuggestion {
+  id: string;
+  group: ResumeSuggestionGroup;
+  label: string;
+  value: string;
+  // What the profile holds today, when the suggestion would replace it
+  currentValue?: string;
+  // Anything the candidate should know before accepting it
+  note?: string;
+  // The profile changes to make if accepted, given the profile so far
+  apply: (profile: ProfileData) => Partial<ProfileData>;
+}
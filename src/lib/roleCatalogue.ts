@@ -0,0 +1,74 @@
+import { Role } from '../config/roles';
+
+export interface RoleCategoryGroup {
+  category: string;
+  label: string;
+  roles: Role[];
+}
+
+const UNCATEGORIZED = 'other';
+
+const formatCategory = (category: string) =>
+  category
+    .split(/[_\s]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const byPopularity = (a: Role, b: Role) =>
+  (a.popularityRank ?? Number.MAX_SAFE_INTEGER) - (b.popularityRank ?? Number.MAX_SAFE_INTEGER) ||
+  a.name.localeCompare(b.name);
+
+/**
+ * The role an id stands for now, following merges. Undefined for ids the
+ * catalogue doesn't have.
+ */
+export function resolveRole(roles: Role[], id: string): Role | undefined {
+  const visited = new Set<string>();
+  let role = roles.find(item => item.id === id);
+
+  while (role?.mergedInto && !visited.has(role.id)) {
+    visited.add(role.id);
+    const mergedInto = role.mergedInto;
+    const target = roles.find(item => item.id === mergedInto);
+    if (!target) break;
+    role = target;
+  }
+
+  return role;
+}
+
+/**
+ * Role ids as they stand now, with merged roles replaced and duplicates
+ * dropped. Ids the catalogue doesn't have are kept as they are.
+ */
+export const resolveRoleIds = (roles: Role[], ids: string[]): string[] =>
+  [...new Set(ids.map(id => resolveRole(roles, id)?.id || id))];
+
+// The roles behind a list of ids, in the same order
+export const findRoles = (roles: Role[], ids: string[]): Role[] =>
+  resolveRoleIds(roles, ids)
+    .map(id => roles.find(role => role.id === id))
+    .filter((role): role is Role => !!role);
+
+// Role titles containing every word of the query
+export function searchRoles(roles: Role[], query: string): Role[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return roles.filter(role => words.every(word => role.name.toLowerCase().includes(word)));
+}
+
+/**
+ * Roles grouped by category, most popular first. Categories are in the
+ * order of their most popular role.
+ */
+export function groupRolesByCategory(roles: Role[]): RoleCategoryGroup[] {
+  const groups = new Map<string, RoleCategoryGroup>();
+
+  [...roles].sort(byPopularity).forEach(role => {
+    const category = role.category || UNCATEGORIZED;
+    const group = groups.get(category) || { category, label: formatCategory(category), roles: [] };
+    group.roles.push(role);
+    groups.set(category, group);
+  });
+
+  return [...groups.values()];
+}
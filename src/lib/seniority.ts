@@ -0,0 +1,52 @@
+import { Role } from '../config/roles';
+import { RoleSeniority, SeniorityLevel } from '../types';
+import { resolveRole } from './roleCatalogue';
+
+export const SENIORITY_LEVELS: SeniorityLevel[] = ['entry', 'mid', 'senior', 'lead'];
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  entry: 'Entry Level',
+  mid: 'Mid Level',
+  senior: 'Senior',
+  lead: 'Lead/Manager',
+};
+
+export const isSeniorityLevel = (value: unknown): value is SeniorityLevel =>
+  SENIORITY_LEVELS.includes(value as SeniorityLevel);
+
+// How many levels apart two levels are, positive when `level` is above `target`
+export const seniorityGap = (level: SeniorityLevel, target: SeniorityLevel) =>
+  SENIORITY_LEVELS.indexOf(level) - SENIORITY_LEVELS.indexOf(target);
+
+/**
+ * The candidate's seniority for a job: their level in the first of its roles
+ * they've rated, or else their most senior level in any role
+ */
+export function seniorityForRoles(seniority: RoleSeniority[], roleIds: string[]): RoleSeniority | undefined {
+  const forRole = roleIds
+    .map(roleId => seniority.find(item => item.roleId === roleId))
+    .find((item): item is RoleSeniority => !!item);
+  if (forRole) return forRole;
+
+  return [...seniority].sort((a, b) => seniorityGap(b.level, a.level))[0];
+}
+
+/**
+ * Move seniority set on merged roles onto the role they were merged into.
+ * When both were rated, the first one listed is kept.
+ */
+export function resolveRoleSeniority(roles: Role[], seniority: RoleSeniority[]): RoleSeniority[] {
+  const resolved: RoleSeniority[] = [];
+  seniority.forEach(item => {
+    const roleId = resolveRole(roles, item.roleId)?.id || item.roleId;
+    if (!resolved.some(existing => existing.roleId === roleId)) {
+      resolved.push({ ...item, roleId });
+    }
+  });
+  return resolved;
+}
+
+export const formatSeniority = ({ level, yearsOfExperience }: RoleSeniority) =>
+  yearsOfExperience === undefined
+    ? SENIORITY_LABELS[level]
+    : `${SENIORITY_LABELS[level]} · ${yearsOfExperience} ${yearsOfExperience === 1 ? 'year' : 'years'}`;
@@ -0,0 +1,58 @@
+import { CandidateSkill, Skill, SkillDefinition, SkillProficiency } from '../types';
+
+/**
+ * Skills by every name they go by: their own name and their aliases
+ */
+export type SkillIndex = Map<string, SkillDefinition>;
+
+export const SKILL_PROFICIENCIES: SkillProficiency[] = [1, 2, 3, 4, 5];
+
+export const PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  1: 'Beginner',
+  2: 'Familiar',
+  3: 'Proficient',
+  4: 'Advanced',
+  5: 'Expert',
+};
+
+export const normalizeSkillName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export function buildSkillIndex(skills: SkillDefinition[]): SkillIndex {
+  const index: SkillIndex = new Map();
+  skills.forEach(skill => {
+    [skill.name, ...skill.aliases].forEach(name => index.set(normalizeSkillName(name), skill));
+  });
+  return index;
+}
+
+// The taxonomy skill a name or alias refers to
+export const resolveSkill = (index: SkillIndex, name: string): SkillDefinition | undefined =>
+  index.get(normalizeSkillName(name));
+
+/**
+ * Skills whose name or an alias contains the query. Skills whose name
+ * starts with it come first.
+ */
+export function searchSkills(skills: SkillDefinition[], query: string, limit = 8): SkillDefinition[] {
+  const normalized = normalizeSkillName(query);
+  if (!normalized) return [];
+
+  const matches = skills.filter(skill =>
+    [skill.name, ...skill.aliases].some(name => normalizeSkillName(name).includes(normalized))
+  );
+  const startsWith = (skill: SkillDefinition) => normalizeSkillName(skill.name).startsWith(normalized);
+
+  return [...matches]
+    .sort((a, b) => Number(startsWith(b)) - Number(startsWith(a)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * A candidate's strongest skills in the shape SkillRadarChart draws, with
+ * proficiency scaled to 0-100
+ */
+export const toRadarSkills = (skills: CandidateSkill[], limit = 8): Skill[] =>
+  [...skills]
+    .sort((a, b) => b.proficiency - a.proficiency || (b.yearsOfExperience ?? 0) - (a.yearsOfExperience ?? 0))
+    .slice(0, limit)
+    .map(skill => ({ name: skill.name, level: skill.proficiency * 20 }));
@@ -0,0 +1,25 @@
+import type { ProfileData } from '../contexts/ProfileContext';
+import { UserPreferences } from '../types';
+
+const REMOTE_PREFERENCES: Record<ProfileData['remote_preference'], UserPreferences['remotePreference']> = {
+  remote: 'remote',
+  hybrid: 'hybrid',
+  office: 'onsite',
+  flexible: 'flexible',
+};
+
+/**
+ * The job-matching preferences held in a candidate's profile.
+ * A salary bound the candidate hasn't set is 0.
+ */
+export function toUserPreferences(profile: ProfileData): UserPreferences {
+  return {
+    location: profile.locations,
+    remotePreference: profile.work_environment || REMOTE_PREFERENCES[profile.remote_preference] || 'flexible',
+    salaryExpectation: {
+      min: profile.salary_min || 0,
+      max: profile.salary_max || 0,
+    },
+    roles: profile.selected_roles,
+  };
+}
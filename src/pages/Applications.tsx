@@ -0,0 +1,184 @@
+import React, { useMemo } from 'react';
+import { Briefcase } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Card from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import { useNavigation } from '../hooks/useNavigation';
+import { useApplications } from '../hooks/useApplications';
+import { useJobMatches } from '../hooks/useJobMatches';
+import { useSavedJobs } from '../hooks/useSavedJobs';
+import { APPLICATION_STAGES, APPLICATION_STAGE_LABELS, isActiveApplication } from '../lib/applications';
+import { Application, ApplicationStage, SavedJob } from '../types';
+
+// Columns of the pipeline after the saved jobs not yet applied to; rejected
+// and withdrawn applications are listed below it
+const PIPELINE_STAGES: ApplicationStage[] = ['applied', 'screening', 'interviewing', 'offer'];
+const CLOSED_STAGES: ApplicationStage[] = ['rejected', 'withdrawn'];
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * The candidate's applications laid out as a pipeline, from saved jobs
+ * through to offers, with the date each application reached each stage
+ */
+const Applications: React.FC = () => {
+  const { goToJobDetails, goToMatches, goToSavedJobs } = useNavigation();
+  const { applications, isLoading, error, withdraw } = useApplications();
+  const { savedJobs } = useSavedJobs();
+  const { jobMatches } = useJobMatches();
+
+  // Job pages are opened through the candidate's match for the job
+  const matchIdByJob = useMemo(
+    () => new Map(jobMatches.map(match => [match.jobId, match.id])),
+    [jobMatches]
+  );
+
+  const closedApplications = applications.filter(application => CLOSED_STAGES.includes(application.stage));
+  const savedToApply = savedJobs.filter(savedJob =>
+    !applications.some(application => application.jobId === savedJob.jobId)
+  );
+
+  const renderSavedJob = (savedJob: SavedJob) => {
+    const matchId = matchIdByJob.get(savedJob.jobId);
+
+    return (
+      <Card key={savedJob.id} bordered className="p-4">
+        <h3 className="text-sm font-semibold text-white">{savedJob.role}</h3>
+        <p className="text-xs text-gray-400">{savedJob.company.name}</p>
+        <p className="mt-3 text-xs text-gray-400">Saved {formatDate(savedJob.createdAt)}</p>
+        {matchId && (
+          <div className="flex gap-2 mt-3">
+            <Button variant="ghost" size="sm" onClick={() => goToJobDetails(matchId)}>
+              View Job
+            </Button>
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  const renderApplication = (application: Application) => {
+    const matchId = matchIdByJob.get(application.jobId);
+    const history = APPLICATION_STAGES.filter(stage => application.stageChangedAt[stage]);
+
+    return (
+      <Card key={application.id} bordered className="p-4">
+        <h3 className="text-sm font-semibold text-white">{application.role}</h3>
+        <p className="text-xs text-gray-400">{application.company.name}</p>
+
+        <ol className="mt-3 space-y-1 text-xs text-gray-400">
+          {history.map(stage => (
+            <li key={stage} className="flex justify-between gap-2">
+              <span className={stage === application.stage ? 'text-purple-300' : ''}>
+                {APPLICATION_STAGE_LABELS[stage]}
+              </span>
+              <span>{formatDate(application.stageChangedAt[stage] as Date)}</span>
+            </li>
+          ))}
+        </ol>
+
+        {(matchId || isActiveApplication(application.stage)) && (
+          <div className="flex gap-2 mt-3">
+            {matchId && (
+              <Button variant="ghost" size="sm" onClick={() => goToJobDetails(matchId)}>
+                View Job
+              </Button>
+            )}
+            {isActiveApplication(application.stage) && (
+              <Button variant="outline" size="sm" onClick={() => withdraw(application.id)}>
+                Withdraw
+              </Button>
+            )}
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  const renderPipeline = () => {
+    if (isLoading && applications.length === 0) {
+      return <p className="text-gray-400 text-sm">Loading your applications...</p>;
+    }
+
+    if (applications.length === 0 && savedJobs.length === 0) {
+      return (
+        <Card className="p-8 text-center">
+          <Briefcase className="h-10 w-10 text-purple-400 mx-auto mb-4" />
+          <p className="text-white mb-2">You haven't saved or applied to any jobs yet</p>
+          <p className="text-gray-400 text-sm mb-6">Jobs you save or apply to from your matches show up here.</p>
+          <Button variant="primary" gradient onClick={goToMatches}>
+            Browse Matches
+          </Button>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+          <div>
+            <h2 className="text-sm font-medium text-gray-300 mb-3">
+              <button onClick={goToSavedJobs} className="hover:text-white">
+                Saved
+              </button>
+              <span className="text-gray-500"> ({savedToApply.length})</span>
+            </h2>
+            <div className="space-y-3">
+              {savedToApply.map(renderSavedJob)}
+            </div>
+          </div>
+          {PIPELINE_STAGES.map(stage => {
+            const items = applications.filter(application => application.stage === stage);
+            return (
+              <div key={stage}>
+                <h2 className="text-sm font-medium text-gray-300 mb-3">
+                  {APPLICATION_STAGE_LABELS[stage]}
+                  <span className="text-gray-500"> ({items.length})</span>
+                </h2>
+                <div className="space-y-3">
+                  {items.map(renderApplication)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {closedApplications.length > 0 && (
+          <div className="mt-10">
+            <h2 className="text-sm font-medium text-gray-300 mb-3">
+              Closed
+              <span className="text-gray-500"> ({closedApplications.length})</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+              {closedApplications.map(renderApplication)}
+            </div>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">My Applications</h1>
+          <p className="text-gray-400 mt-1">Track every job you've saved or applied to</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        {renderPipeline()}
+      </main>
+    </div>
+  );
+};
+
+export default Applications;
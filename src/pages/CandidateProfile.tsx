@@ -0,0 +1,158 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { ArrowLeft, Github, Globe, Linkedin, MapPin, User as UserIcon } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+import LoadingScreen from '../components/ui/LoadingScreen';
+import SkillRadarChart from '../components/features/SkillRadarChart';
+import { useNavigation } from '../hooks/useNavigation';
+import { useCandidateProfile } from '../hooks/useCandidateProfile';
+import { useCareerRoles } from '../hooks/useCareerRoles';
+import { findRoles } from '../lib/roleCatalogue';
+import { formatSeniority, resolveRoleSeniority } from '../lib/seniority';
+import { PROFICIENCY_LABELS, toRadarSkills } from '../lib/skills';
+
+/**
+ * A candidate's profile as recruiters see it: who they are, the roles
+ * they're after and how senior they are in each, and the skills they've
+ * rated themselves on
+ */
+const CandidateProfile: React.FC = () => {
+  const { candidateId } = useParams<{ candidateId: string }>();
+  const { goBack, goToDashboard } = useNavigation();
+  const { candidate, isLoading, error } = useCandidateProfile(candidateId);
+  const { roles } = useCareerRoles();
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading candidate profile..." />;
+  }
+
+  if (!candidate) {
+    return (
+      <div className="min-h-screen bg-black">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card className="p-8 text-center">
+            <h2 className="text-2xl font-bold text-white mb-4">Candidate Not Found</h2>
+            <p className="text-gray-400 mb-6">
+              {error || "This profile doesn't exist or you don't have access to it."}
+            </p>
+            <Button variant="primary" gradient onClick={goToDashboard}>
+              Return to Dashboard
+            </Button>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const candidateRoles = findRoles(roles, candidate.roleIds);
+  const seniority = resolveRoleSeniority(roles, candidate.seniority);
+  const links = [
+    { href: candidate.linkedinUrl, label: 'LinkedIn', icon: Linkedin },
+    { href: candidate.githubUrl, label: 'GitHub', icon: Github },
+    { href: candidate.websiteUrl, label: 'Website', icon: Globe },
+  ].filter(link => link.href);
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={goBack}
+          className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Back
+        </button>
+
+        <Card className="p-4 sm:p-6 mb-6">
+          <div className="flex items-start gap-6">
+            <div className="h-20 w-20 bg-gray-800 rounded-full flex items-center justify-center overflow-hidden flex-shrink-0">
+              {candidate.avatarUrl ? (
+                <img src={candidate.avatarUrl} alt={candidate.fullName} className="h-full w-full object-cover" />
+              ) : (
+                <UserIcon className="h-10 w-10 text-gray-500" />
+              )}
+            </div>
+
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold text-white">{candidate.fullName}</h1>
+              {candidate.location && (
+                <div className="flex items-center gap-2 mt-2 text-gray-400">
+                  <MapPin className="h-4 w-4" />
+                  <span>{candidate.location}</span>
+                </div>
+              )}
+
+              {candidateRoles.length > 0 && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {candidateRoles.map(role => {
+                    const roleSeniority = seniority.find(item => item.roleId === role.id);
+                    return (
+                      <span key={role.id} className="px-3 py-1 rounded-full text-xs bg-purple-900/50 text-purple-200">
+                        {role.name}
+                        {roleSeniority && <span className="text-purple-300/70"> · {formatSeniority(roleSeniority)}</span>}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+
+              {links.length > 0 && (
+                <div className="mt-4 flex flex-wrap gap-4">
+                  {links.map(({ href, label, icon: Icon }) => (
+                    <a
+                      key={label}
+                      href={href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                      <Icon className="h-4 w-4" />
+                      {label}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-4 sm:p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Skills</h2>
+
+          {candidate.skills.length === 0 ? (
+            <p className="text-gray-400 text-sm">No skills listed yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <SkillRadarChart
+                skills={toRadarSkills(candidate.skills)}
+                size={280}
+                className="mx-auto"
+              />
+
+              <ul className="space-y-2">
+                {candidate.skills.map(skill => (
+                  <li key={skill.skillId} className="flex items-center justify-between p-3 rounded-lg bg-gray-800/50">
+                    <span className="text-gray-200">{skill.name}</span>
+                    <span className="text-sm text-gray-400">
+                      {PROFICIENCY_LABELS[skill.proficiency]}
+                      {skill.yearsOfExperience !== undefined && (
+                        <> · {skill.yearsOfExperience} {skill.yearsOfExperience === 1 ? 'year' : 'years'}</>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default CandidateProfile;
@@ -0,0 +1,212 @@
+import React, { useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { ArrowLeft, Bookmark, BookmarkCheck, Briefcase, Building2, DollarSign, MapPin, TrendingUp, Users } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+import LoadingScreen from '../components/ui/LoadingScreen';
+import { useProfile } from '../contexts/ProfileContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useCompanyProfile } from '../hooks/useCompanyProfile';
+import { useJobMatches } from '../hooks/useJobMatches';
+import { useSavedJobs } from '../hooks/useSavedJobs';
+import { COMPANY_SIZE_LABELS, COMPANY_STAGE_LABELS, formatFunding } from '../lib/companies';
+import { formatCompensation, formatExperience, formatWorkplace } from '../lib/jobPostings';
+import { CompanyOpenRole } from '../types';
+
+const STAGE_PREFERENCE_NOTES = {
+  preferred: 'A stage you prefer',
+  avoid: 'A stage you want to avoid',
+};
+
+/**
+ * A portfolio company: its stage, size, industry, funding, tech stack,
+ * culture and the roles it has open
+ */
+const CompanyProfile: React.FC = () => {
+  const { companyId } = useParams<{ companyId: string }>();
+  const { goBack, goToDashboard, goToJobDetails } = useNavigation();
+  const { company, isLoading, error } = useCompanyProfile(companyId);
+  const { profileData } = useProfile();
+  const { jobMatches } = useJobMatches();
+  const { findSavedJob, saveJob, unsaveJob, error: savedJobsError } = useSavedJobs();
+
+  // Job pages are opened through the candidate's match for the job
+  const matchIdByJob = useMemo(
+    () => new Map(jobMatches.map(match => [match.jobId, match.id])),
+    [jobMatches]
+  );
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading company..." />;
+  }
+
+  if (!company) {
+    return (
+      <div className="min-h-screen bg-black">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card className="p-8 text-center">
+            <h2 className="text-2xl font-bold text-white mb-4">Company Not Found</h2>
+            <p className="text-gray-400 mb-6">
+              {error || "The company you're looking for doesn't exist or has been removed."}
+            </p>
+            <Button variant="primary" gradient onClick={goToDashboard}>
+              Return to Dashboard
+            </Button>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const stagePreference = company.stage ? profileData?.company_stage_preferences?.[company.stage] : undefined;
+  const facts = [
+    {
+      label: 'Stage',
+      icon: TrendingUp,
+      value: company.stage ? COMPANY_STAGE_LABELS[company.stage] : null,
+      note: stagePreference && stagePreference !== 'neutral' ? STAGE_PREFERENCE_NOTES[stagePreference] : null,
+    },
+    { label: 'Size', icon: Users, value: company.size ? COMPANY_SIZE_LABELS[company.size] : null },
+    { label: 'Industry', icon: Building2, value: company.industry || null },
+    { label: 'Funding', icon: DollarSign, value: company.funding ? formatFunding(company.funding) : null },
+  ];
+
+  const renderOpenRole = (role: CompanyOpenRole) => {
+    const matchId = matchIdByJob.get(role.jobId);
+    const savedJob = findSavedJob(role.jobId);
+    const details = [
+      formatWorkplace(role.posting),
+      role.posting.experienceYears ? formatExperience(role.posting.experienceYears) : '',
+      role.posting.compensation ? formatCompensation(role.posting.compensation) : '',
+    ].filter(Boolean);
+
+    return (
+      <li key={role.jobId} className="flex flex-wrap justify-between items-center gap-3 p-4 rounded-lg bg-gray-800/50">
+        <div>
+          <h3 className="font-semibold text-white">{role.title}</h3>
+          {details.length > 0 && <p className="text-sm text-gray-400 mt-1">{details.join(' · ')}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            leftIcon={savedJob ? <BookmarkCheck className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+            onClick={() => (savedJob ? unsaveJob(savedJob.id) : saveJob(role.jobId))}
+          >
+            {savedJob ? 'Saved' : 'Save'}
+          </Button>
+          {matchId && (
+            <Button variant="primary" size="sm" gradient onClick={() => goToJobDetails(matchId)}>
+              View Job
+            </Button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={goBack}
+          className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Back
+        </button>
+
+        <Card className="p-4 sm:p-6 mb-6">
+          <div className="flex items-start gap-6">
+            <div className="h-20 w-20 bg-gray-800 rounded-lg flex items-center justify-center p-4 flex-shrink-0">
+              <img
+                src={company.logo || 'https://via.placeholder.com/80'}
+                alt={company.name}
+                className="max-h-full max-w-full object-contain"
+              />
+            </div>
+
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold text-white">{company.name}</h1>
+              {company.location && (
+                <div className="flex items-center gap-2 mt-2 text-gray-400">
+                  <MapPin className="h-4 w-4" />
+                  <span>{company.location}</span>
+                </div>
+              )}
+              {company.description && <p className="text-gray-300 mt-4">{company.description}</p>}
+            </div>
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          {facts.map(({ label, icon: Icon, value, note }) => (
+            <Card key={label} className="p-4">
+              <div className="flex items-center gap-2 text-gray-300 mb-1">
+                <Icon className="h-4 w-4" />
+                <span className="text-sm">{label}</span>
+              </div>
+              <p className="text-white font-medium">{value || 'Not specified'}</p>
+              {note && <p className="text-xs text-purple-300 mt-1">{note}</p>}
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="p-4 sm:p-6 lg:col-span-2 self-start">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
+              <Briefcase className="h-5 w-5 text-purple-400" />
+              Open Roles
+            </h2>
+
+            {savedJobsError && <p className="mb-4 text-red-500 text-sm">{savedJobsError}</p>}
+
+            {company.openRoles.length === 0 ? (
+              <p className="text-gray-400 text-sm">{company.name} has no open roles right now.</p>
+            ) : (
+              <ul className="space-y-3">
+                {company.openRoles.map(renderOpenRole)}
+              </ul>
+            )}
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="p-4 sm:p-6">
+              <h2 className="text-lg font-semibold text-white mb-4">Tech Stack</h2>
+              {company.techStack.length === 0 ? (
+                <p className="text-gray-400 text-sm">Not shared yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {company.techStack.map(tech => (
+                    <span key={tech} className="px-3 py-1 rounded-full text-xs bg-purple-900/50 text-purple-200">
+                      {tech}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            <Card className="p-4 sm:p-6">
+              <h2 className="text-lg font-semibold text-white mb-4">Culture</h2>
+              {company.cultureNotes.length === 0 ? (
+                <p className="text-gray-400 text-sm">Not shared yet.</p>
+              ) : (
+                <ul className="list-disc list-inside text-gray-300 text-sm space-y-2">
+                  {company.cultureNotes.map((note, i) => (
+                    <li key={i}>{note}</li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CompanyProfile;
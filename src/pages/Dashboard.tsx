@@ -1,15 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { ChevronLeft, ChevronRight, Briefcase, LineChart, Building2, Bell, CheckCircle2, X } from 'lucide-react';
 import Header from '../components/layout/Header';
 import Card from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import JobMatchCard from '../components/features/JobMatchCard';
 import CompanyCard from '../components/features/CompanyCard';
-import SkillRadarChart from '../components/features/SkillRadarChart';
+import SkillAssessmentCard from '../components/features/SkillAssessmentCard';
+import ReferralForm from '../components/features/ReferralForm';
+import ReferralsCard from '../components/features/ReferralsCard';
 import { JobMatch, Company } from '../types';
 import { useUser } from '../contexts/UserContext';
 import { useProfile } from '../contexts/ProfileContext';
 import { useNavigation } from '../hooks/useNavigation';
+import { useJobMatches } from '../hooks/useJobMatches';
+import { useSkillAssessments } from '../hooks/useSkillAssessments';
+import { useReferrals } from '../hooks/useReferrals';
 import LoadingScreen from '../components/ui/LoadingScreen';
 import CollapsibleDebugPanel from '../components/ui/CollapsibleDebugPanel';
 import { useDebug } from '../components/ui/DebugController';
@@ -20,89 +25,46 @@ const mockUser = {
   profilePicture: undefined,
 };
 
-const mockJobMatches: JobMatch[] = [
-  {
-    id: '1',
-    company: {
-      id: '101',
-      name: 'Uncountable',
-      logo: '',
-      location: 'Multiple Locations',
-      description: 'Accelerating Industrial R&D with AI',
-    },
-    role: 'Senior Frontend Engineer',
-    matchPercentage: 92,
-    status: 'active',
-  },
-  {
-    id: '2',
-    company: {
-      id: '102',
-      name: 'TechFlow',
-      logo: '',
-      location: 'San Francisco, CA',
-      description: 'Building next-generation developer tools',
-    },
-    role: 'Product Manager',
-    matchPercentage: 85,
-    status: 'pending',
-  },
-  {
-    id: '3',
-    company: {
-      id: '103',
-      name: 'HealthCare (YC)',
-      logo: '',
-      location: 'San Francisco, CA',
-      description: 'AI-powered solutions for Health Systems',
-    },
-    role: 'Engineering Manager',
-    matchPercentage: 78,
-    status: 'pending',
-  },
-];
-
-const mockCompanies: Company[] = [
-  {
-    id: '101',
-    name: 'Uncountable',
-    logo: '',
-    location: 'Multiple Locations',
-    description: 'Accelerating Industrial R&D with AI and machine learning to optimize experimental workflows.',
-  },
-  {
-    id: '102',
-    name: 'TechFlow',
-    logo: '',
-    location: 'San Francisco, CA',
-    description: 'Building next-generation developer tools to streamline software engineering workflows.',
-  },
-  {
-    id: '103',
-    name: 'HealthCare (YC)',
-    logo: '',
-    location: 'San Francisco, CA',
-    description: 'AI-powered solutions for Health Systems improving patient outcomes and operational efficiency.',
-  },
-];
-
-const mockSkills = [
-  { name: 'React', level: 90 },
-  { name: 'TypeScript', level: 85 },
-  { name: 'UI/UX', level: 75 },
-  { name: 'Communication', level: 95 },
-  { name: 'System Design', level: 70 },
-  { name: 'Problem Solving', level: 85 },
-];
-
 const Dashboard: React.FC = () => {
-  const { goToOnboarding, goToJobDetails } = useNavigation();
+  const { goToOnboarding, goToJobDetails, goToMatches, goToCompany } = useNavigation();
   const { user, profile, isLoading: userLoading } = useUser();
   const { isOnboardingComplete, isLoading: profileLoading } = useProfile();
   const { isDebugEnabled } = useDebug();
-  const [activeJobMatches, setActiveJobMatches] = useState<JobMatch[]>(mockJobMatches);
+  const {
+    jobMatches: activeJobMatches,
+    isLoading: jobMatchesLoading,
+    error: jobMatchesError,
+    updateStatus: updateJobMatchStatus,
+  } = useJobMatches();
+  const {
+    assessments,
+    isLoading: assessmentsLoading,
+    error: assessmentsError,
+  } = useSkillAssessments();
+  const {
+    referrals,
+    isLoading: referralsLoading,
+    isSubmitting: referralSubmitting,
+    error: referralsError,
+    createReferral,
+    sendInvitation,
+    cancelReferral,
+  } = useReferrals();
+  const [referringCompany, setReferringCompany] = useState<Company | null>(null);
   const [showWelcomeBanner, setShowWelcomeBanner] = useState(true);
   const [redirectingToOnboarding, setRedirectingToOnboarding] = useState(false);
+
+  // The companies behind the candidate's matches, best match first
+  const matchedCompanies = useMemo(() => {
+    const companies = new Map<string, Company>();
+    [...activeJobMatches]
+      .filter(match => match.status !== 'declined')
+      .sort((a, b) => b.matchPercentage - a.matchPercentage)
+      .forEach(match => {
+        if (!companies.has(match.company.id)) companies.set(match.company.id, match.company);
+      });
+    return [...companies.values()];
+  }, [activeJobMatches]);
   
   // Log component lifecycle and check onboarding status
   useEffect(() => {
@@ -216,19 +178,11 @@ const Dashboard: React.FC = () => {
   }
 
   const handleAcceptJob = (jobId: string) => {
-    setActiveJobMatches(prevMatches => 
-      prevMatches.map(match => 
-        match.id === jobId ? { ...match, status: 'active' as const } : match
-      )
-    );
+    updateJobMatchStatus(jobId, 'active');
   };
   
   const handleDeclineJob = (jobId: string) => {
-    setActiveJobMatches(prevMatches => 
-      prevMatches.map(match => 
-        match.id === jobId ? { ...match, status: 'declined' as const } : match
-      )
-    );
+    updateJobMatchStatus(jobId, 'declined');
   };
 
   const handleViewJob = (job: JobMatch) => {
@@ -352,12 +306,29 @@ const Dashboard: React.FC = () => {
                 size="sm" 
                 rightIcon={<ChevronRight className="h-4 w-4" />}
                 className="hidden sm:flex"
+                onClick={goToMatches}
               >
                 View All
               </Button>
             </div>
             
+            {jobMatchesError && (
+              <div className="p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+                {jobMatchesError}
+              </div>
+            )}
+            
             <div className="space-y-4">
+              {jobMatchesLoading && (
+                <p className="text-gray-400 text-sm">Loading your matches...</p>
+              )}
+              
+              {!jobMatchesLoading && activeJobMatches.length === 0 && (
+                <Card className="p-6 text-center">
+                  <p className="text-gray-400">No matches yet. We'll let you know as soon as we find one.</p>
+                </Card>
+              )}
+              
               {activeJobMatches.map(jobMatch => (
                 <JobMatchCard
                   key={jobMatch.id}
@@ -381,53 +352,51 @@ const Dashboard: React.FC = () => {
               </div>
             </div>
             
+            {referringCompany && (
+              <ReferralForm
+                key={referringCompany.id}
+                company={referringCompany}
+                isSubmitting={referralSubmitting}
+                error={referralsError}
+                onSubmit={createReferral}
+                onSendInvitation={sendInvitation}
+                onClose={() => setReferringCompany(null)}
+              />
+            )}
+
             <div className="grid grid-cols-1 gap-4">
-              {mockCompanies.slice(0, 2).map(company => (
+              {!jobMatchesLoading && matchedCompanies.length === 0 && (
+                <Card className="p-6 text-center">
+                  <p className="text-gray-400">Companies will show up here as you're matched with their roles.</p>
+                </Card>
+              )}
+
+              {matchedCompanies.slice(0, 2).map((company, index) => (
                 <CompanyCard
                   key={company.id}
                   company={company}
-                  highlight={company.id === '101'}
-                  onLearnMore={(id) => console.log('Learn more about company', id)}
-                  onRefer={(id) => console.log('Refer company', id)}
+                  highlight={index === 0}
+                  onLearnMore={goToCompany}
+                  onRefer={(id) => setReferringCompany(matchedCompanies.find(item => item.id === id) || null)}
                 />
               ))}
             </div>
           </div>
           
           <div className="space-y-6">
-            <Card className="p-4 sm:p-6">
-              <h2 className="text-lg font-semibold text-white mb-4">Skills Assessment</h2>
-              <SkillRadarChart 
-                skills={mockSkills} 
-                size={240} 
-                className="mx-auto mb-4 scale-90 sm:scale-100" 
-              />
-              <div className="mt-4">
-                <h3 className="text-sm font-medium text-gray-300 mb-2">Top Skills</h3>
-                <div className="flex flex-wrap gap-2">
-                  {mockSkills
-                    .sort((a, b) => b.level - a.level)
-                    .slice(0, 4)
-                    .map(skill => (
-                      <span
-                        key={skill.name}
-                        className="px-3 py-1 bg-gray-800 rounded-full text-xs text-gray-300"
-                      >
-                        {skill.name}
-                      </span>
-                    ))
-                  }
-                </div>
-              </div>
-              <Button
-                variant="outline"
-                size="sm"
-                fullWidth
-                className="mt-4"
-              >
-                View Full Assessment
-              </Button>
-            </Card>
+            <SkillAssessmentCard
+              assessments={assessments}
+              isLoading={assessmentsLoading}
+              error={assessmentsError}
+            />
+
+            <ReferralsCard
+              referrals={referrals}
+              isLoading={referralsLoading}
+              error={referringCompany ? null : referralsError}
+              onSendInvitation={sendInvitation}
+              onCancel={cancelReferral}
+            />
             
             <Card className="p-4 sm:p-6">
               <div className="flex justify-between items-center mb-4">
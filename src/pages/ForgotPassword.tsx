@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ArrowLeft, MailCheck } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import { supabase } from '../lib/supabase';
+import { useNavigation } from '../hooks/useNavigation';
+
+// Sends a password reset link that brings the user back to /reset-password
+const ForgotPassword: React.FC = () => {
+  const { goToSignIn } = useNavigation();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+
+      if (error) {
+        console.error('ForgotPassword: Error sending reset email:', error);
+        if (error.status === 429) {
+          setError('Too many reset requests. Please wait a few minutes and try again.');
+        } else {
+          setError(error.message);
+        }
+        return;
+      }
+
+      // Shown whether or not the address has an account, so it can't be used to look accounts up
+      setSent(true);
+    } catch (err) {
+      console.error('ForgotPassword: Unexpected error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900/20 via-black to-black flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center">
+            <div className="h-12 w-12 bg-gradient-to-r from-purple-600 to-indigo-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-2xl">R</span>
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-white mt-6 mb-2">Reset your password</h1>
+          <p className="text-gray-400">We'll email you a link to choose a new one</p>
+        </div>
+
+        <div className="bg-gray-900 rounded-xl p-8 shadow-2xl border border-gray-800">
+          {sent ? (
+            <div className="text-center">
+              <div className="inline-flex h-12 w-12 bg-purple-600/20 rounded-full items-center justify-center mb-4">
+                <MailCheck className="h-6 w-6 text-purple-400" />
+              </div>
+              <p className="text-white mb-2">Check your email</p>
+              <p className="text-gray-400 text-sm mb-6">
+                If an account exists for <span className="text-gray-200">{email.trim()}</span>, you'll get a
+                link to reset your password. The link expires after a short while, so use it soon.
+              </p>
+              <Button variant="outline" fullWidth onClick={() => setSent(false)}>
+                Send another link
+              </Button>
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="mb-4 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Input
+                  label="Email"
+                  name="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Enter your email"
+                  required
+                />
+
+                <Button
+                  type="submit"
+                  variant="primary"
+                  gradient
+                  fullWidth
+                  size="lg"
+                  className="mt-6"
+                  isLoading={loading}
+                >
+                  Send Reset Link
+                </Button>
+              </form>
+            </>
+          )}
+
+          <div className="text-center mt-6">
+            <Button
+              variant="ghost"
+              onClick={goToSignIn}
+              className="text-purple-400 hover:text-purple-300 mx-auto"
+              leftIcon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Sign In
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
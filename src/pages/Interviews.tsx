@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { BotMessageSquare, CalendarClock, CheckCircle2, MessageSquare, PlayCircle } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Card from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import ChatInterface from '../components/features/ChatInterface';
+import SkillAssessmentCard from '../components/features/SkillAssessmentCard';
+import { Role } from '../config/roles';
+import { findRoles } from '../lib/roleCatalogue';
+import { useCareerRoles } from '../hooks/useCareerRoles';
+import { useProfile } from '../contexts/ProfileContext';
+import { useNavigation } from '../hooks/useNavigation';
+import { useInterview } from '../hooks/useInterview';
+import { useInterviews } from '../hooks/useInterviews';
+import { Interview, InterviewStatus } from '../types';
+
+const STATUS_GROUPS: { status: InterviewStatus; title: string; icon: React.ReactNode }[] = [
+  { status: 'in_progress', title: 'In Progress', icon: <PlayCircle className="h-4 w-4 text-yellow-500" /> },
+  { status: 'scheduled', title: 'Scheduled', icon: <CalendarClock className="h-4 w-4 text-blue-400" /> },
+  { status: 'completed', title: 'Completed', icon: <CheckCircle2 className="h-4 w-4 text-green-500" /> },
+];
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const roleNames = (roles: Role[], roleIds: string[]) =>
+  findRoles(roles, roleIds).map(role => role.name).join(', ');
+
+interface InterviewSessionProps {
+  // Omitted to resume the candidate's unfinished interview or start a new one
+  interviewId?: string;
+  roleIds: string[];
+  // Called with the interview whenever its status or assessment changes
+  onChange: (interview: Interview) => void;
+}
+
+/**
+ * A single interview: the live chat while it's unfinished, or the read-only
+ * transcript next to its assessment once it's complete
+ */
+const InterviewSession: React.FC<InterviewSessionProps> = ({ interviewId, roleIds, onChange }) => {
+  const {
+    interview,
+    messages,
+    streamingMessage,
+    isLoading,
+    isResponding,
+    isFinished,
+    isAssessing,
+    isUnavailable,
+    error,
+    start,
+    sendMessage,
+    retryAssessment,
+  } = useInterview({ roleIds });
+
+  useEffect(() => {
+    start(interviewId);
+  }, [start, interviewId]);
+
+  // The last change the list was told about
+  const reportedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!interview) return;
+
+    // Only tell the list about changes it shows, not every new message
+    const change = `${interview.id}:${interview.status}:${interview.assessment?.id || ''}`;
+    if (change === reportedRef.current) return;
+    reportedRef.current = change;
+    onChange(interview);
+  }, [interview, onChange]);
+
+  const isComplete = interview?.status === 'completed';
+
+  return (
+    <div className={`grid grid-cols-1 gap-6 ${isFinished ? 'xl:grid-cols-5' : ''}`}>
+      <div className={`h-[600px] flex flex-col ${isFinished ? 'xl:col-span-3' : ''}`}>
+        {error && (
+          <div className="mb-4 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+        <div className="flex-1 min-h-0">
+          <ChatInterface
+            messages={messages}
+            streamingMessage={streamingMessage}
+            isLoading={isLoading || isResponding}
+            disabled={isFinished || isUnavailable}
+            readOnly={isComplete}
+            placeholder={isFinished ? 'Interview complete' : undefined}
+            onSendMessage={sendMessage}
+          />
+        </div>
+      </div>
+
+      {isFinished && (
+        <div className="xl:col-span-2">
+          <SkillAssessmentCard
+            assessments={interview?.assessment ? [interview.assessment] : []}
+            isLoading={isAssessing}
+          />
+          {interview && !interview.assessment && !isAssessing && (
+            <Button variant="outline" size="sm" className="mt-4" onClick={retryAssessment}>
+              Retry Assessment
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The candidate's interviews, grouped by status. Picking one resumes it or,
+ * once it's complete, shows its transcript and skill assessment.
+ */
+const Interviews: React.FC = () => {
+  const { interviewId } = useParams<{ interviewId: string }>();
+  const { goToDashboard, goToInterview } = useNavigation();
+  const { profileData } = useProfile();
+  const { interviews, resumableInterview, isLoading, error, reload } = useInterviews();
+  const { roles } = useCareerRoles();
+  const [activeInterviewId, setActiveInterviewId] = useState<string | null>(null);
+
+  const isNew = interviewId === 'new';
+  const selectedId = isNew ? activeInterviewId : interviewId || null;
+
+  const handleSessionChange = useCallback((interview: Interview) => {
+    setActiveInterviewId(interview.id);
+    reload();
+  }, [reload]);
+
+  const renderInterview = (interview: Interview) => (
+    <button
+      key={interview.id}
+      onClick={() => goToInterview(interview.id)}
+      className={`w-full text-left p-3 rounded-lg border transition-colors ${
+        interview.id === selectedId
+          ? 'border-purple-500 bg-purple-900/20'
+          : 'border-gray-800 bg-gray-800/50 hover:border-gray-700'
+      }`}
+    >
+      <p className="text-sm font-medium text-white">
+        {roleNames(roles, interview.roleIds) || 'General interview'}
+      </p>
+      <div className="flex items-center gap-3 mt-1 text-xs text-gray-400">
+        <span>{formatDate(interview.completedAt || interview.startedAt || interview.createdAt)}</span>
+        <span className="flex items-center gap-1">
+          <MessageSquare className="h-3 w-3" />
+          {interview.messages.length}
+        </span>
+        {interview.status === 'completed' && !interview.assessment && (
+          <span className="text-yellow-500">No assessment</span>
+        )}
+      </div>
+    </button>
+  );
+
+  const renderList = () => {
+    if (isLoading && interviews.length === 0) {
+      return <p className="text-gray-400 text-sm">Loading your interviews...</p>;
+    }
+
+    if (interviews.length === 0) {
+      return <p className="text-gray-400 text-sm">You haven't had any interviews yet.</p>;
+    }
+
+    return STATUS_GROUPS.map(group => {
+      const items = interviews.filter(interview => interview.status === group.status);
+      if (items.length === 0) return null;
+
+      return (
+        <div key={group.status} className="mb-6 last:mb-0">
+          <h3 className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+            {group.icon}
+            {group.title}
+            <span className="text-gray-500">({items.length})</span>
+          </h3>
+          <div className="space-y-2">
+            {items.map(renderInterview)}
+          </div>
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-white">Interviews</h1>
+            <p className="text-gray-400 mt-1">Pick up where you left off or review past interviews</p>
+          </div>
+          <Button
+            variant="primary"
+            gradient
+            leftIcon={<BotMessageSquare className="h-4 w-4" />}
+            onClick={() => goToInterview(resumableInterview?.id)}
+          >
+            {resumableInterview ? 'Resume Interview' : 'Start New Interview'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="p-4 sm:p-6 lg:col-span-1 self-start">
+            {renderList()}
+          </Card>
+
+          <div className="lg:col-span-3">
+            {interviewId ? (
+              <InterviewSession
+                key={interviewId}
+                interviewId={isNew ? undefined : interviewId}
+                roleIds={profileData?.selected_roles || []}
+                onChange={handleSessionChange}
+              />
+            ) : (
+              <Card className="p-8 text-center">
+                <BotMessageSquare className="h-10 w-10 text-purple-400 mx-auto mb-4" />
+                <p className="text-white mb-2">Select an interview to continue it or review its transcript</p>
+                <p className="text-gray-400 text-sm mb-6">
+                  Completed interviews show your skill assessment alongside the conversation.
+                </p>
+                <Button variant="outline" onClick={goToDashboard}>
+                  Back to Dashboard
+                </Button>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Interviews;
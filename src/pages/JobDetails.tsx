@@ -1,50 +1,62 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { MapPin, Building2, Clock, DollarSign, Briefcase, CheckCircle2, ArrowLeft } from 'lucide-react';
+import { MapPin, Building2, Clock, DollarSign, Briefcase, CheckCircle2, ArrowLeft, Bookmark, BookmarkCheck } from 'lucide-react';
 import Header from '../components/layout/Header';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
+import LoadingScreen from '../components/ui/LoadingScreen';
+import MatchBreakdown from '../components/features/MatchBreakdown';
+import ResumeSelect from '../components/features/ResumeSelect';
 import { useNavigation } from '../hooks/useNavigation';
-import { JobMatch } from '../types';
-
-// This would typically come from an API call using the jobId
-const getJobDetails = (jobId: string): JobMatch | undefined => {
-  const mockJobMatches: JobMatch[] = [
-    {
-      id: '1',
-      company: {
-        id: '101',
-        name: 'Uncountable',
-        logo: '',
-        location: 'Multiple Locations',
-        description: 'Accelerating Industrial R&D with AI and machine learning to optimize experimental workflows.',
-      },
-      role: 'Senior Frontend Engineer',
-      matchPercentage: 92,
-      status: 'active',
-    },
-    {
-      id: '2',
-      company: {
-        id: '102',
-        name: 'TechFlow',
-        logo: '',
-        location: 'San Francisco, CA',
-        description: 'Building next-generation developer tools to streamline software engineering workflows.',
-      },
-      role: 'Product Manager',
-      matchPercentage: 85,
-      status: 'pending',
-    },
-  ];
-
-  return mockJobMatches.find(job => job.id === jobId);
+import { useJobMatch } from '../hooks/useJobMatches';
+import { useResumes } from '../hooks/useResumes';
+import { useJobApplication } from '../hooks/useApplications';
+import { useSavedJobs } from '../hooks/useSavedJobs';
+import { APPLICATION_STAGE_LABELS, isActiveApplication } from '../lib/applications';
+import { JOB_STATUS_LABELS } from '../lib/jobAlerts';
+import { EMPLOYMENT_TYPE_LABELS, formatCompensation, formatExperience, formatWorkplace } from '../lib/jobPostings';
+import { Resume } from '../types';
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const resumeVersionLabel = (resumes: Resume[], resumeVersionId?: string) => {
+  const resume = resumes.find(item => item.versions.some(version => version.id === resumeVersionId));
+  const version = resume?.versions.find(item => item.id === resumeVersionId);
+  return resume && version ? `${resume.name} (v${version.version})` : 'No resume';
 };
 
+const renderSection = (title: string, items: string[]) =>
+  items.length > 0 && (
+    <>
+      <h2 className="text-xl font-semibold text-white mb-4">{title}</h2>
+      <ul className="list-disc list-inside text-gray-300 space-y-2 mb-6">
+        {items.map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+      </ul>
+    </>
+  );
+
 const JobDetails: React.FC = () => {
   const { jobId } = useParams<{ jobId: string }>();
-  const { goToDashboard } = useNavigation();
-  const job = jobId ? getJobDetails(jobId) : undefined;
+  const { goToDashboard, goToApplications, goToCompany } = useNavigation();
+  const { jobMatch: job, isLoading, error, attachResume } = useJobMatch(jobId);
+  const { resumes, primaryResume } = useResumes();
+  const {
+    application,
+    isSubmitting,
+    error: applicationError,
+    apply,
+    withdraw,
+  } = useJobApplication(job?.jobId);
+  const { lists, findSavedJob, saveJob, unsaveJob, moveToList, error: savedJobsError } = useSavedJobs();
+  const [isApplying, setIsApplying] = useState(false);
+  const [coverNote, setCoverNote] = useState('');
+
+  if (isLoading) {
+    return <LoadingScreen message="Loading job details..." />;
+  }
 
   if (!job) {
     return (
@@ -63,12 +75,34 @@ const JobDetails: React.FC = () => {
     );
   }
 
+  // Withdrawn applications can be sent again
+  const isSent = !!application && application.stage !== 'withdrawn';
+  const savedJob = findSavedJob(job.jobId);
+  const { posting } = job;
+  const isClosed = posting.status === 'closed';
+
+  // Start from the candidate's primary resume unless one is already attached
   const handleApply = () => {
-    console.log('Applying to job:', job.id);
+    if (!job.resumeVersionId && primaryResume?.versions[0]) {
+      attachResume(primaryResume.versions[0].id);
+    }
+    setIsApplying(true);
+  };
+
+  const handleSubmitApplication = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await apply(job.resumeVersionId || null, coverNote)) {
+      setIsApplying(false);
+      setCoverNote('');
+    }
   };
 
   const handleSave = () => {
-    console.log('Saving job:', job.id);
+    if (savedJob) {
+      unsaveJob(savedJob.id);
+    } else {
+      saveJob(job.jobId);
+    }
   };
 
   return (
@@ -102,26 +136,62 @@ const JobDetails: React.FC = () => {
                   <span>{job.company.name}</span>
                   <span className="text-gray-600">•</span>
                   <MapPin className="h-4 w-4" />
-                  <span>{job.company.location}</span>
+                  <span>{formatWorkplace(posting) || job.company.location}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-gray-500">
+                  {posting.status !== 'open' && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-gray-800 text-yellow-400">
+                      {JOB_STATUS_LABELS[posting.status]}
+                    </span>
+                  )}
+                  {posting.postedAt && <span>Posted {formatDate(posting.postedAt)}</span>}
+                  {posting.postedAt && posting.closesAt && <span className="text-gray-600">•</span>}
+                  {posting.closesAt && (
+                    <span>{posting.closesAt < new Date() ? 'Closed' : 'Closes'} {formatDate(posting.closesAt)}</span>
+                  )}
                 </div>
               </div>
               
-              <div className="flex items-center gap-3">
-                <Button
-                  variant="outline"
-                  size="lg"
-                  onClick={handleSave}
-                >
-                  Save
-                </Button>
-                <Button
-                  variant="primary"
-                  size="lg"
-                  gradient
-                  onClick={handleApply}
-                >
-                  Apply Now
-                </Button>
+              <div className="flex flex-col items-end gap-2">
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    leftIcon={savedJob ? <BookmarkCheck className="h-5 w-5" /> : <Bookmark className="h-5 w-5" />}
+                    onClick={handleSave}
+                  >
+                    {savedJob ? 'Saved' : 'Save'}
+                  </Button>
+                  {isSent ? (
+                    <span className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 text-gray-200">
+                      <CheckCircle2 className="h-5 w-5 text-green-500" />
+                      {APPLICATION_STAGE_LABELS[application.stage]}
+                    </span>
+                  ) : (
+                    <Button
+                      variant="primary"
+                      size="lg"
+                      gradient
+                      onClick={handleApply}
+                      disabled={isApplying || isClosed}
+                    >
+                      {application?.stage === 'withdrawn' ? 'Apply Again' : 'Apply Now'}
+                    </Button>
+                  )}
+                </div>
+                {savedJob && lists.length > 0 && (
+                  <select
+                    aria-label="Saved job list"
+                    value={savedJob.listId || ''}
+                    onChange={(e) => moveToList(savedJob.id, e.target.value || null)}
+                    className="px-2 py-1 text-sm bg-gray-800 text-gray-300 border border-gray-700 rounded-md"
+                  >
+                    <option value="">No list</option>
+                    {lists.map(list => (
+                      <option key={list.id} value={list.id}>{list.name}</option>
+                    ))}
+                  </select>
+                )}
               </div>
             </div>
           </div>
@@ -133,7 +203,9 @@ const JobDetails: React.FC = () => {
                   <Clock className="h-4 w-4" />
                   <span className="text-sm">Experience</span>
                 </div>
-                <p className="text-white font-medium">3-5 years</p>
+                <p className="text-white font-medium">
+                  {posting.experienceYears ? formatExperience(posting.experienceYears) : 'Not specified'}
+                </p>
               </Card>
               
               <Card className="p-4 bg-gray-800/50">
@@ -141,7 +213,9 @@ const JobDetails: React.FC = () => {
                   <DollarSign className="h-4 w-4" />
                   <span className="text-sm">Compensation</span>
                 </div>
-                <p className="text-white font-medium">$120k - $180k</p>
+                <p className="text-white font-medium">
+                  {posting.compensation ? formatCompensation(posting.compensation) : 'Not specified'}
+                </p>
               </Card>
               
               <Card className="p-4 bg-gray-800/50">
@@ -149,25 +223,125 @@ const JobDetails: React.FC = () => {
                   <Briefcase className="h-4 w-4" />
                   <span className="text-sm">Employment Type</span>
                 </div>
-                <p className="text-white font-medium">Full-time</p>
+                <p className="text-white font-medium">
+                  {posting.employmentType ? EMPLOYMENT_TYPE_LABELS[posting.employmentType] : 'Not specified'}
+                </p>
               </Card>
             </div>
             
+            {isSent && (
+              <Card className="p-4 bg-gray-800/50 mb-8">
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">Your Application</h2>
+                    <p className="text-sm text-gray-400 mt-1">
+                      {APPLICATION_STAGE_LABELS[application.stage]}
+                      {application.stageChangedAt.applied && ` · Applied ${formatDate(application.stageChangedAt.applied)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Button variant="ghost" size="sm" onClick={goToApplications}>
+                      My Applications
+                    </Button>
+                    {isActiveApplication(application.stage) && (
+                      <Button variant="outline" size="sm" onClick={withdraw} isLoading={isSubmitting}>
+                        Withdraw
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <dl className="mt-4 space-y-2 text-sm">
+                  <div>
+                    <dt className="text-gray-400">Resume</dt>
+                    <dd className="text-gray-200">{resumeVersionLabel(resumes, application.resumeVersionId)}</dd>
+                  </div>
+                  {application.coverNote && (
+                    <div>
+                      <dt className="text-gray-400">Cover note</dt>
+                      <dd className="text-gray-200 whitespace-pre-wrap">{application.coverNote}</dd>
+                    </div>
+                  )}
+                </dl>
+              </Card>
+            )}
+
+            {!isSent && isApplying && (
+              <Card className="p-4 bg-gray-800/50 mb-8">
+                <form onSubmit={handleSubmitApplication} className="space-y-4">
+                  <div>
+                    <label htmlFor="application-resume" className="block text-sm text-gray-300 mb-2">
+                      Resume for this application
+                    </label>
+                    <ResumeSelect
+                      id="application-resume"
+                      resumes={resumes}
+                      value={job.resumeVersionId || null}
+                      onChange={attachResume}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="application-cover-note" className="block text-sm text-gray-300 mb-2">
+                      Cover note <span className="text-gray-500">(optional)</span>
+                    </label>
+                    <textarea
+                      id="application-cover-note"
+                      rows={4}
+                      value={coverNote}
+                      onChange={(e) => setCoverNote(e.target.value)}
+                      disabled={isSubmitting}
+                      placeholder={`Why you'd be a great fit at ${job.company.name}`}
+                      className="w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+                    />
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    <Button type="button" variant="ghost" onClick={() => setIsApplying(false)} disabled={isSubmitting}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" variant="primary" gradient isLoading={isSubmitting}>
+                      Submit Application
+                    </Button>
+                  </div>
+                </form>
+              </Card>
+            )}
+
+            {(error || applicationError || savedJobsError) && (
+              <p className="mb-8 text-red-500 text-sm">{applicationError || savedJobsError || error}</p>
+            )}
+            
             <div className="prose prose-invert max-w-none">
-              <h2 className="text-xl font-semibold text-white mb-4">About the Role</h2>
-              <p className="text-gray-300 mb-6">
-                {job.company.description}
-              </p>
-              
-              <h2 className="text-xl font-semibold text-white mb-4">Requirements</h2>
-              <ul className="list-disc list-inside text-gray-300 space-y-2">
-                <li>3+ years of experience in frontend development</li>
-                <li>Strong proficiency in React and TypeScript</li>
-                <li>Experience with modern frontend build tools and workflows</li>
-                <li>Understanding of UI/UX principles</li>
-                <li>Excellent problem-solving skills</li>
-              </ul>
+              {posting.description && (
+                <>
+                  <h2 className="text-xl font-semibold text-white mb-4">About the Role</h2>
+                  <p className="text-gray-300 mb-6 whitespace-pre-line">{posting.description}</p>
+                </>
+              )}
+
+              {renderSection('Requirements', posting.requirements)}
+              {renderSection('Nice to Have', posting.niceToHaves)}
+              {renderSection('Benefits', posting.benefits)}
+
+              {job.company.description && (
+                <>
+                  <h2 className="text-xl font-semibold text-white mb-4">About {job.company.name}</h2>
+                  <p className="text-gray-300">{job.company.description}</p>
+                  <Button variant="ghost" size="sm" className="mt-2" onClick={() => goToCompany(job.company.id)}>
+                    View company profile
+                  </Button>
+                </>
+              )}
             </div>
+
+            {job.breakdown && (
+              <Card className="p-4 sm:p-6 bg-gray-800/50 mt-8">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold text-white">Why You Matched</h2>
+                  <span className="text-lg font-semibold text-purple-400">{job.matchPercentage}% match</span>
+                </div>
+                <MatchBreakdown breakdown={job.breakdown} />
+              </Card>
+            )}
           </div>
         </Card>
       </main>
@@ -0,0 +1,312 @@
+import React, { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, SlidersHorizontal, X } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Card from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import JobMatchCard from '../components/features/JobMatchCard';
+import { useNavigation } from '../hooks/useNavigation';
+import { useJobMatches } from '../hooks/useJobMatches';
+import { useCareerRoles } from '../hooks/useCareerRoles';
+import { findRoles } from '../lib/roleCatalogue';
+import { REMOTE_POLICY_LABELS } from '../lib/jobPostings';
+import {
+  DEFAULT_MATCH_FILTERS,
+  MATCH_PAGE_LIMITS,
+  MATCH_STATUSES,
+  MatchFilters,
+  REMOTE_POLICIES,
+  filterJobMatches,
+  paginateJobMatches,
+  parseMatchFilters,
+  toMatchSearchParams,
+} from '../lib/matchFilters';
+import { JobMatch, RemotePolicy } from '../types';
+
+const STATUS_LABELS: Record<JobMatch['status'], string> = {
+  pending: 'Pending',
+  active: 'Active',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+const MIN_MATCH_OPTIONS = [0, 50, 60, 70, 80, 90];
+
+const selectClassName = 'w-full px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md';
+
+/**
+ * Every job match, filtered, sorted and paged. Filters and the page live in
+ * the query string so a filtered view can be bookmarked or shared.
+ */
+const Matches: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { goToJobDetails } = useNavigation();
+  const { jobMatches, isLoading, error, updateStatus } = useJobMatches();
+  const { roles } = useCareerRoles();
+
+  const filters = useMemo(() => parseMatchFilters(searchParams), [searchParams]);
+  const visibleMatches = useMemo(() => filterJobMatches(jobMatches, filters), [jobMatches, filters]);
+  const { matches: pageMatches, page, pageCount } = useMemo(
+    () => paginateJobMatches(visibleMatches, filters),
+    [visibleMatches, filters]
+  );
+
+  // Only offer roles and locations some match actually has
+  const roleOptions = useMemo(
+    () => findRoles(roles, jobMatches.flatMap(match => match.requirements?.roleIds || []))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [roles, jobMatches]
+  );
+  const locationOptions = useMemo(
+    () => [...new Set(jobMatches.flatMap(match => match.requirements?.locations || []))].sort(),
+    [jobMatches]
+  );
+
+  const hasFilters = toMatchSearchParams({
+    ...filters,
+    sort: DEFAULT_MATCH_FILTERS.sort,
+    page: DEFAULT_MATCH_FILTERS.page,
+    limit: DEFAULT_MATCH_FILTERS.limit,
+  }).toString() !== '';
+
+  // Any change but the page itself goes back to the first page
+  const updateFilters = (changes: Partial<MatchFilters>) => {
+    setSearchParams(
+      toMatchSearchParams({ ...filters, page: DEFAULT_MATCH_FILTERS.page, ...changes }),
+      { replace: true }
+    );
+  };
+
+  const goToPage = (next: number) => {
+    setSearchParams(toMatchSearchParams({ ...filters, page: next }));
+    window.scrollTo({ top: 0 });
+  };
+
+  const toggleStatus = (status: JobMatch['status']) => {
+    updateFilters({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter(item => item !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  const clearFilters = () => {
+    updateFilters({ ...DEFAULT_MATCH_FILTERS, sort: filters.sort, limit: filters.limit });
+  };
+
+  const renderMatches = () => {
+    if (isLoading) {
+      return <p className="text-gray-400 text-sm">Loading your matches...</p>;
+    }
+
+    if (jobMatches.length === 0) {
+      return (
+        <Card className="p-6 text-center">
+          <p className="text-gray-400">No matches yet. We'll let you know as soon as we find one.</p>
+        </Card>
+      );
+    }
+
+    if (visibleMatches.length === 0) {
+      return (
+        <Card className="p-6 text-center">
+          <p className="text-gray-400 mb-4">No matches fit these filters.</p>
+          <Button variant="outline" size="sm" onClick={clearFilters}>
+            Clear Filters
+          </Button>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        {pageMatches.map(jobMatch => (
+          <JobMatchCard
+            key={jobMatch.id}
+            jobMatch={jobMatch}
+            onView={(match) => goToJobDetails(match.id)}
+            onAccept={(id) => updateStatus(id, 'active')}
+            onDecline={(id) => updateStatus(id, 'declined')}
+          />
+        ))}
+
+        <div className="flex flex-wrap justify-between items-center gap-4 pt-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor="match-limit" className="text-sm text-gray-400">Per page</label>
+            <select
+              id="match-limit"
+              className="px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+              value={filters.limit}
+              onChange={(e) => updateFilters({ limit: Number(e.target.value) })}
+            >
+              {MATCH_PAGE_LIMITS.map(limit => (
+                <option key={limit} value={limit}>{limit}</option>
+              ))}
+            </select>
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                leftIcon={<ChevronLeft className="h-4 w-4" />}
+                disabled={page <= 1}
+                onClick={() => goToPage(page - 1)}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-gray-400">Page {page} of {pageCount}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                rightIcon={<ChevronRight className="h-4 w-4" />}
+                disabled={page >= pageCount}
+                onClick={() => goToPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-white">Job Matches</h1>
+            <p className="text-gray-400 mt-1">
+              {isLoading
+                ? 'Finding your matches...'
+                : `Showing ${visibleMatches.length} of ${jobMatches.length} matches`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="match-sort" className="text-sm text-gray-400">Sort by</label>
+            <select
+              id="match-sort"
+              className="px-3 py-2 bg-gray-700 text-white border border-gray-600 rounded-md"
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as MatchFilters['sort'] })}
+            >
+              <option value="score">Best match</option>
+              <option value="date">Newest</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="p-4 sm:p-6 lg:col-span-1 self-start space-y-5">
+            <div className="flex justify-between items-center">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+                <SlidersHorizontal className="h-4 w-4" />
+                Filters
+              </h2>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" leftIcon={<X className="h-3 w-3" />} onClick={clearFilters}>
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-300 mb-2">Status</h3>
+              <div className="flex flex-wrap gap-2">
+                {MATCH_STATUSES.map(status => (
+                  <button
+                    key={status}
+                    onClick={() => toggleStatus(status)}
+                    className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                      filters.statuses.includes(status)
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {STATUS_LABELS[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="match-role" className="block text-sm font-medium text-gray-300 mb-2">Role</label>
+              <select
+                id="match-role"
+                className={selectClassName}
+                value={filters.roleId || ''}
+                onChange={(e) => updateFilters({ roleId: e.target.value || null })}
+              >
+                <option value="">Any role</option>
+                {roleOptions.map(role => (
+                  <option key={role.id} value={role.id}>{role.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="match-location" className="block text-sm font-medium text-gray-300 mb-2">Location</label>
+              <select
+                id="match-location"
+                className={selectClassName}
+                value={filters.location || ''}
+                onChange={(e) => updateFilters({ location: e.target.value || null })}
+              >
+                <option value="">Any location</option>
+                {locationOptions.map(location => (
+                  <option key={location} value={location}>{location}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="match-remote" className="block text-sm font-medium text-gray-300 mb-2">Work Environment</label>
+              <select
+                id="match-remote"
+                className={selectClassName}
+                value={filters.remotePolicy || ''}
+                onChange={(e) => updateFilters({ remotePolicy: (e.target.value as RemotePolicy) || null })}
+              >
+                <option value="">Any</option>
+                {REMOTE_POLICIES.map(policy => (
+                  <option key={policy} value={policy}>{REMOTE_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="match-min" className="block text-sm font-medium text-gray-300 mb-2">Minimum Match</label>
+              <select
+                id="match-min"
+                className={selectClassName}
+                value={filters.minMatch}
+                onChange={(e) => updateFilters({ minMatch: Number(e.target.value) })}
+              >
+                {/* Keep a hand-edited value selectable */}
+                {[...new Set([...MIN_MATCH_OPTIONS, filters.minMatch])].sort((a, b) => a - b).map(value => (
+                  <option key={value} value={value}>{value === 0 ? 'Any' : `${value}%+`}</option>
+                ))}
+              </select>
+            </div>
+          </Card>
+
+          <div className="lg:col-span-3 space-y-4">
+            {renderMatches()}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Matches;
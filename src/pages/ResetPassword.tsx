@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { CheckCircle2 } from 'lucide-react';
+import { isAuthSessionMissingError } from '@supabase/supabase-js';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import { supabase } from '../lib/supabase';
+import { MIN_PASSWORD_LENGTH, validatePassword } from '../lib/password';
+import { useUser } from '../contexts/UserContext';
+import { useNavigation } from '../hooks/useNavigation';
+
+const EXPIRED_LINK_MESSAGE = 'This password reset link has expired. Request a new one to continue.';
+const INVALID_LINK_MESSAGE = 'This password reset link is invalid or has already been used. Request a new one to continue.';
+
+// Supabase reports a bad reset link in the URL hash (implicit flow) or query (PKCE flow)
+const getLinkError = (search: string, hash: string): string | null => {
+  const params = new URLSearchParams(search);
+  new URLSearchParams(hash.replace(/^#/, '')).forEach((value, key) => params.set(key, value));
+
+  if (!params.get('error') && !params.get('error_code')) return null;
+
+  console.error('ResetPassword: Reset link error:', params.get('error_code'), params.get('error_description'));
+  return params.get('error_code') === 'otp_expired' ? EXPIRED_LINK_MESSAGE : INVALID_LINK_MESSAGE;
+};
+
+// Where the password reset link lands; the link itself signs the user in
+const ResetPassword: React.FC = () => {
+  const location = useLocation();
+  const { goTo, goToDashboard } = useNavigation();
+  const { user, isLoading: userContextLoading, isPasswordRecovery, completePasswordRecovery } = useUser();
+  const [linkError] = useState(() => getLinkError(location.search, location.hash));
+  const [formData, setFormData] = useState({ password: '', confirmPassword: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+    setError(null);
+
+    const passwordError = validatePassword(formData.password);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.auth.updateUser({ password: formData.password });
+
+      if (error) {
+        console.error('ResetPassword: Error updating password:', error);
+        if (isAuthSessionMissingError(error) || error.status === 401 || error.status === 403) {
+          setError(EXPIRED_LINK_MESSAGE);
+        } else if (error.code === 'same_password') {
+          setError('Your new password must be different from your current one.');
+        } else {
+          setError(error.message);
+        }
+        return;
+      }
+
+      completePasswordRecovery();
+      setSuccess(true);
+    } catch (err) {
+      console.error('ResetPassword: Unexpected error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (userContextLoading && !linkError) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-purple-500"></div>
+        </div>
+      );
+    }
+
+    if (success) {
+      return (
+        <div className="text-center">
+          <div className="inline-flex h-12 w-12 bg-green-600/20 rounded-full items-center justify-center mb-4">
+            <CheckCircle2 className="h-6 w-6 text-green-500" />
+          </div>
+          <p className="text-white mb-2">Your password has been updated</p>
+          <p className="text-gray-400 text-sm mb-6">Use your new password the next time you sign in.</p>
+          <Button variant="primary" gradient fullWidth size="lg" onClick={goToDashboard}>
+            Continue to Dashboard
+          </Button>
+        </div>
+      );
+    }
+
+    // Only a session the reset link started can change the password here
+    if (linkError || !user || !isPasswordRecovery) {
+      return (
+        <>
+          <div className="mb-6 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {linkError || INVALID_LINK_MESSAGE}
+          </div>
+          <Button variant="primary" gradient fullWidth size="lg" onClick={() => goTo('/forgot-password')}>
+            Request a New Link
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        {error && (
+          <div className="mb-4 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {error}
+            {error === EXPIRED_LINK_MESSAGE && (
+              <button
+                type="button"
+                onClick={() => goTo('/forgot-password')}
+                className="block mt-2 text-purple-300 hover:text-purple-200 underline"
+              >
+                Request a new link
+              </button>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="New Password"
+            name="password"
+            type="password"
+            value={formData.password}
+            onChange={handleChange}
+            placeholder={`Choose a password (min ${MIN_PASSWORD_LENGTH} characters)`}
+            required
+            minLength={MIN_PASSWORD_LENGTH}
+          />
+
+          <Input
+            label="Confirm Password"
+            name="confirmPassword"
+            type="password"
+            value={formData.confirmPassword}
+            onChange={handleChange}
+            placeholder="Enter the password again"
+            required
+            minLength={MIN_PASSWORD_LENGTH}
+          />
+
+          <Button
+            type="submit"
+            variant="primary"
+            gradient
+            fullWidth
+            size="lg"
+            className="mt-6"
+            isLoading={loading}
+          >
+            Update Password
+          </Button>
+        </form>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900/20 via-black to-black flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center">
+            <div className="h-12 w-12 bg-gradient-to-r from-purple-600 to-indigo-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-2xl">R</span>
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-white mt-6 mb-2">Choose a new password</h1>
+          {user?.email && isPasswordRecovery && !linkError && <p className="text-gray-400">for {user.email}</p>}
+        </div>
+
+        <div className="bg-gray-900 rounded-xl p-8 shadow-2xl border border-gray-800">
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Bell, Bookmark, Plus, Trash2 } from 'lucide-react';
+import Header from '../components/layout/Header';
+import Card from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import { useNavigation } from '../hooks/useNavigation';
+import { useSavedJobs } from '../hooks/useSavedJobs';
+import { useJobAlerts } from '../hooks/useJobAlerts';
+import { useJobMatches } from '../hooks/useJobMatches';
+import { JOB_STATUS_LABELS, describeJobAlertChange, jobAlertTitle } from '../lib/jobAlerts';
+import { JobAlert, SavedJob } from '../types';
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const selectClassName = 'px-2 py-1 text-sm bg-gray-700 text-white border border-gray-600 rounded-md';
+
+/**
+ * The candidate's saved jobs, grouped into lists, with alerts about saved
+ * jobs that changed or closed. The open list lives in the query string.
+ */
+const SavedJobs: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { goToJobDetails, goToMatches } = useNavigation();
+  const {
+    savedJobs,
+    lists,
+    isLoading,
+    error,
+    unsaveJob,
+    moveToList,
+    createList,
+    deleteList,
+  } = useSavedJobs();
+  const { alerts, unreadCount, error: alertsError, markRead, markAllRead } = useJobAlerts();
+  const { jobMatches } = useJobMatches();
+  const [newListName, setNewListName] = useState('');
+
+  // Unknown list ids, from a deleted list or an old bookmark, show every saved job
+  const listParam = searchParams.get('list');
+  const activeListId = lists.some(list => list.id === listParam) ? listParam : null;
+
+  const visibleJobs = activeListId
+    ? savedJobs.filter(savedJob => savedJob.listId === activeListId)
+    : savedJobs;
+
+  // Job pages are opened through the candidate's match for the job
+  const matchIdByJob = useMemo(
+    () => new Map(jobMatches.map(match => [match.jobId, match.id])),
+    [jobMatches]
+  );
+
+  const openList = (listId: string | null) => {
+    setSearchParams(listId ? { list: listId } : {}, { replace: true });
+  };
+
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const list = await createList(newListName);
+    if (list) {
+      setNewListName('');
+      openList(list.id);
+    }
+  };
+
+  const handleDeleteList = async (listId: string) => {
+    if (await deleteList(listId)) openList(null);
+  };
+
+  const openAlert = (alert: JobAlert) => {
+    markRead([alert.id]);
+    const matchId = matchIdByJob.get(alert.jobId);
+    if (matchId) goToJobDetails(matchId);
+  };
+
+  const renderListButton = (listId: string | null, name: string, count: number) => (
+    <button
+      key={listId || 'all'}
+      onClick={() => openList(listId)}
+      className={`w-full flex justify-between text-left px-3 py-2 rounded-md text-sm transition-colors ${
+        activeListId === listId ? 'bg-purple-900/30 text-white' : 'text-gray-300 hover:bg-gray-800'
+      }`}
+    >
+      <span>{name}</span>
+      <span className="text-gray-500">{count}</span>
+    </button>
+  );
+
+  const renderSavedJob = (savedJob: SavedJob) => {
+    const matchId = matchIdByJob.get(savedJob.jobId);
+
+    return (
+      <Card key={savedJob.id} bordered className="p-4">
+        <div className="flex justify-between items-start gap-3">
+          <div>
+            <h3 className="font-semibold text-white">{savedJob.role}</h3>
+            <p className="text-sm text-gray-400">{savedJob.company.name}</p>
+          </div>
+          {savedJob.jobStatus !== 'open' && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-gray-800 text-yellow-400">
+              {JOB_STATUS_LABELS[savedJob.jobStatus]}
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">Saved {formatDate(savedJob.createdAt)}</p>
+
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          {lists.length > 0 && (
+            <select
+              aria-label={`List for ${savedJob.role}`}
+              value={savedJob.listId || ''}
+              onChange={(e) => moveToList(savedJob.id, e.target.value || null)}
+              className={selectClassName}
+            >
+              <option value="">No list</option>
+              {lists.map(list => (
+                <option key={list.id} value={list.id}>{list.name}</option>
+              ))}
+            </select>
+          )}
+          {matchId && (
+            <Button variant="ghost" size="sm" onClick={() => goToJobDetails(matchId)}>
+              View Job
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => unsaveJob(savedJob.id)}>
+            Remove
+          </Button>
+        </div>
+      </Card>
+    );
+  };
+
+  const renderAlerts = () => {
+    if (alerts.length === 0) return null;
+
+    return (
+      <Card className="p-4 sm:p-6 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Bell className="h-5 w-5 text-purple-400" />
+            Alerts
+            {unreadCount > 0 && <span className="text-sm text-purple-300">({unreadCount} new)</span>}
+          </h2>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <ul className="space-y-2">
+          {alerts.map(alert => (
+            <li key={alert.id}>
+              <button
+                onClick={() => openAlert(alert)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  alert.read ? 'border-gray-800 bg-gray-800/30' : 'border-purple-700 bg-purple-900/20'
+                }`}
+              >
+                <div className="flex justify-between gap-3">
+                  <span className="text-sm font-medium text-white">{jobAlertTitle(alert)}</span>
+                  <span className="text-xs text-gray-500">{formatDate(alert.createdAt)}</span>
+                </div>
+                <p className="text-xs text-gray-400">{alert.companyName}</p>
+                <ul className="mt-1 text-xs text-gray-300">
+                  {alert.changes.map(change => (
+                    <li key={change.field}>{describeJobAlertChange(change)}</li>
+                  ))}
+                </ul>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </Card>
+    );
+  };
+
+  const renderJobs = () => {
+    if (isLoading && savedJobs.length === 0) {
+      return <p className="text-gray-400 text-sm">Loading your saved jobs...</p>;
+    }
+
+    if (savedJobs.length === 0) {
+      return (
+        <Card className="p-8 text-center">
+          <Bookmark className="h-10 w-10 text-purple-400 mx-auto mb-4" />
+          <p className="text-white mb-2">You haven't saved any jobs yet</p>
+          <p className="text-gray-400 text-sm mb-6">
+            Save jobs from your matches to keep track of them. We'll let you know when they change.
+          </p>
+          <Button variant="primary" gradient onClick={goToMatches}>
+            Browse Matches
+          </Button>
+        </Card>
+      );
+    }
+
+    if (visibleJobs.length === 0) {
+      return <p className="text-gray-400 text-sm">No saved jobs in this list yet.</p>;
+    }
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {visibleJobs.map(renderSavedJob)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">Saved Jobs</h1>
+          <p className="text-gray-400 mt-1">Keep an eye on jobs you're interested in</p>
+        </div>
+
+        {(error || alertsError) && (
+          <div className="mb-6 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+            {error || alertsError}
+          </div>
+        )}
+
+        {renderAlerts()}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="p-4 lg:col-span-1 self-start">
+            <div className="space-y-1">
+              {renderListButton(null, 'All saved jobs', savedJobs.length)}
+              {lists.map(list => renderListButton(
+                list.id,
+                list.name,
+                savedJobs.filter(savedJob => savedJob.listId === list.id).length
+              ))}
+            </div>
+
+            <form onSubmit={handleCreateList} className="flex gap-2 mt-4">
+              <input
+                type="text"
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                placeholder="New list"
+                aria-label="New list name"
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-gray-700 text-white border border-gray-600 rounded-md"
+              />
+              <Button type="submit" variant="secondary" size="sm" iconOnly disabled={!newListName.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+
+            {activeListId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-4 text-red-400"
+                leftIcon={<Trash2 className="h-4 w-4" />}
+                onClick={() => handleDeleteList(activeListId)}
+              >
+                Delete list
+              </Button>
+            )}
+          </Card>
+
+          <div className="lg:col-span-3">
+            {renderJobs()}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SavedJobs;
@@ -4,6 +4,10 @@ import { ArrowRight } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import { supabase } from '../lib/supabase';
+import { MIN_PASSWORD_LENGTH, validatePassword } from '../lib/password';
+import { REFERRAL_CODE_PARAM, clearPendingReferralCode, storePendingReferralCode } from '../lib/referrals';
+import { ReferralService } from '../services/referralService';
+import { ReferralInvite } from '../types';
 import { useUser } from '../contexts/UserContext';
 import { useNavigation } from '../hooks/useNavigation';
 
@@ -115,6 +119,28 @@ const SignUp: React.FC = () => {
   const [googleLoading, setGoogleLoading] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<boolean | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [invite, setInvite] = useState<ReferralInvite | null>(null);
+
+  // A friend's referral code from their invitation link
+  const referralCode = new URLSearchParams(location.search).get(REFERRAL_CODE_PARAM);
+
+  // Only codes nobody has signed up with yet are attached to the new account
+  useEffect(() => {
+    let isMounted = true;
+
+    if (!referralCode) {
+      setInvite(null);
+      return;
+    }
+
+    ReferralService.getInvite(referralCode).then(({ data }) => {
+      if (isMounted) setInvite(data || null);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [referralCode]);
 
   // Test Supabase connection on mount, but with a better approach
   useEffect(() => {
@@ -217,9 +243,10 @@ const SignUp: React.FC = () => {
     }
 
     // Basic validation
-    if (formData.password.length < 8) {
+    const passwordError = validatePassword(formData.password);
+    if (passwordError) {
       debugLog('Password validation failed - too short');
-      setError('Password must be at least 8 characters');
+      setError(passwordError);
       return;
     }
 
@@ -249,6 +276,7 @@ const SignUp: React.FC = () => {
         options: {
           data: {
             full_name: formData.fullName,
+            ...(invite && referralCode ? { referral_code: referralCode } : {}),
           },
           // Add important options
           emailRedirectTo: `${window.location.origin}/auth/callback`
@@ -292,11 +320,6 @@ const SignUp: React.FC = () => {
         emailConfirmed: authData.user?.email_confirmed_at ? 'yes' : 'no'
       });
 
-      // Set a flag in localStorage to force onboarding flow
-      localStorage.setItem('force_onboarding', 'true');
-      localStorage.setItem('force_onboarding_timestamp', Date.now().toString());
-      debugLog('Set force_onboarding flag in localStorage');
-
       // Check if email confirmation is pending
       if (authData.user && !authData.user.email_confirmed_at) {
         debugLog('Email confirmation required, showing email sent screen');
@@ -305,6 +328,11 @@ const SignUp: React.FC = () => {
         return;
       }
 
+      // Signed in straight away, so credit the friend who referred them now
+      if (invite && referralCode) {
+        await ReferralService.claimReferral(referralCode);
+      }
+
       // Redirect to onboarding instead of dashboard
       debugLog('No email confirmation needed, redirecting to force-onboarding');
       goToOnboarding();
@@ -372,6 +400,13 @@ const SignUp: React.FC = () => {
       const redirectPath = `${site_url}/auth/callback?redirect_to=/force-onboarding`;
       debugLog('Using redirect URL with force parameter', { redirectUrl: redirectPath });
       
+      // Google sign-ups can't carry user metadata; AuthCallback claims the code from storage
+      if (invite && referralCode) {
+        storePendingReferralCode(referralCode);
+      } else {
+        clearPendingReferralCode();
+      }
+
       const { data, error } = await supabase.auth.signInWithOAuth({
         provider: 'google',
         options: {
@@ -452,6 +487,12 @@ const SignUp: React.FC = () => {
           <p className="text-gray-400">Connect directly with company leadership</p>
         </div>
 
+        {invite && (
+          <div className="mb-4 p-3 rounded bg-purple-900/30 border border-purple-800 text-purple-200 text-sm text-center">
+            {invite.referrerName || 'A friend'} referred you to {invite.companyName}
+          </div>
+        )}
+
         <div className="bg-gray-900 rounded-xl p-8 shadow-2xl border border-gray-800">
           {connectionStatus === false && (
             <div className="mb-4 p-3 rounded bg-yellow-900/50 border border-yellow-800 text-yellow-200 text-sm">
@@ -533,9 +574,9 @@ const SignUp: React.FC = () => {
               type="password"
               value={formData.password}
               onChange={handleChange}
-              placeholder="Create a password (min 8 characters)"
+              placeholder={`Create a password (min ${MIN_PASSWORD_LENGTH} characters)`}
               required
-              minLength={8}
+              minLength={MIN_PASSWORD_LENGTH}
             />
 
             <Button
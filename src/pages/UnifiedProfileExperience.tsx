@@ -1,40 +1,65 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
+import { useParams } from 'react-router-dom';
 import Header from '../components/layout/Header';
 import Card from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import { useProfile } from '../contexts/ProfileContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useDebug } from '../components/ui/DebugController';
-import { useNavigation } from '../hooks/useNavigation';
+import { useNavigation, isProfileSection, PROFILE_SECTIONS } from '../hooks/useNavigation';
+import { useInterview } from '../hooks/useInterview';
 import { ProgressBar } from '../components/ui/ProgressBar';
 import ChatInterface from '../components/features/ChatInterface';
-import { OnboardingStep, InterviewMessage } from '../types';
+import { OnboardingStep } from '../types';
 import LoadingScreen from '../components/ui/LoadingScreen';
+import {
+  OnboardingFieldDefinition,
+  canLeaveStep,
+  createOnboardingState,
+  getCurrentStep,
+  getOnboardingProgress,
+  getOnboardingRecord,
+  isSectionStep,
+  isStepValid,
+  onboardingReducer,
+  toOnboardingRecord,
+  withSections,
+} from '../lib/onboarding';
 
 // Import all tiered section components
 import TieredRoleSelection from '../components/profile/sections/TieredRoleSelection';
 import TieredUserPreferences from '../components/profile/sections/TieredUserPreferences';
 import TieredPersonalInfo from '../components/profile/sections/TieredPersonalInfo';
 import TieredEducation from '../components/profile/sections/TieredEducation';
+import TieredWorkExperience from '../components/profile/sections/TieredWorkExperience';
 import TieredResumeUpload from '../components/profile/sections/TieredResumeUpload';
+import TieredGithubProfile from '../components/profile/sections/TieredGithubProfile';
+import TieredPortfolio from '../components/profile/sections/TieredPortfolio';
 
 interface UnifiedProfileExperienceProps {
   initialMode?: 'onboarding' | 'profile';
   forceMode?: boolean;
 }
 
-// Mock interview messages for the AI interview
-const mockInterviewMessages: InterviewMessage[] = [
-  {
-    id: '1',
-    sender: 'ai',
-    content: "Hi there! I'm the RightBos AI interviewer. I'd like to learn about your skills and experience through a casual conversation. Let's start with your background - could you tell me about your most recent role and the technologies you've been working with?",
-    timestamp: new Date(),
-  },
-];
+interface SectionProps {
+  forceMode?: 'onboarding' | 'profile';
+  hideTitle?: boolean;
+  hideDescription?: boolean;
+  hideSaveButton?: boolean;
+  fieldSettings?: OnboardingFieldDefinition[];
+}
 
-// Placeholder component for welcome and completion screens
-const PlaceholderScreen: React.FC = () => <div />;
+// The form behind each step. The welcome, completion and interview steps are rendered by the page.
+const SECTION_COMPONENTS: Partial<Record<OnboardingStep, React.ComponentType<SectionProps>>> = {
+  personal: TieredPersonalInfo,
+  roles: TieredRoleSelection,
+  github: TieredGithubProfile,
+  portfolio: TieredPortfolio,
+  experience: TieredWorkExperience,
+  preferences: TieredUserPreferences,
+  education: TieredEducation,
+  resume: TieredResumeUpload,
+};
 
 const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({ 
   initialMode = 'profile',
@@ -44,77 +69,48 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
     profileData, 
     isLoading, 
     isOnboardingComplete,
-    saveProfile,
-    updateProfile
+    onboardingSteps,
+    saveProfile
   } = useProfile();
   
   const { mode, setMode } = useTheme();
   const { isDebugEnabled } = useDebug();
-  const { goToDashboard, goToProfile } = useNavigation();
+  const { goToDashboard, goToProfile, goToCandidateProfile } = useNavigation();
+  // Set on /profile/:section, which opens that section directly
+  const { section: sectionParam } = useParams<{ section?: string }>();
   
-  const [currentStep, setCurrentStep] = useState(0);
-  const [activeSection, setActiveSection] = useState('welcome');
+  // Which step is open and which are done, restored from the profile once it loads
+  const [onboarding, dispatch] = useReducer(
+    onboardingReducer,
+    { completedSteps: [], completed: false },
+    record => createOnboardingState(record, onboardingSteps)
+  );
+  const hasRestoredRef = useRef(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [showWelcome, setShowWelcome] = useState(true);
   const [saveSuccessMessage, setSaveSuccessMessage] = useState('');
-  const [messages, setMessages] = useState<InterviewMessage[]>(mockInterviewMessages);
-  const [isChatLoading, setIsChatLoading] = useState(false);
-  const [isFormValid, setIsFormValid] = useState(false);
   const [hasAttemptedContinue, setHasAttemptedContinue] = useState(false);
+
+  const currentSection = getCurrentStep(onboarding);
+  const activeSection = onboarding.current;
+  const progress = getOnboardingProgress(onboarding);
+  const isFormValid = !!profileData && isStepValid(currentSection, profileData);
   
-  // Set up the list of steps/sections with their components
-  const profileSections = [
-    {
-      id: 'welcome',
-      title: 'Welcome',
-      component: PlaceholderScreen
-    },
-    {
-      id: 'personal',
-      title: 'Personal Information',
-      component: TieredPersonalInfo,
-      required: true
-    },
-    {
-      id: 'roles',
-      title: 'Roles & Skills',
-      component: TieredRoleSelection,
-      required: true
-    },
-    {
-      id: 'preferences',
-      title: 'Preferences',
-      component: TieredUserPreferences,
-      required: false
-    },
-    {
-      id: 'education',
-      title: 'Education',
-      component: TieredEducation,
-      required: false
-    },
-    {
-      id: 'resume',
-      title: 'Resume',
-      component: TieredResumeUpload,
-      required: false
-    },
-    {
-      id: 'complete',
-      title: 'Complete',
-      component: PlaceholderScreen
+  // AI interview, tailored to the roles the candidate selected
+  const interview = useInterview({ roleIds: profileData?.selected_roles || [] });
+  const isInterviewSection = activeSection === 'interview';
+  const { start: startInterview } = interview;
+
+  useEffect(() => {
+    if (isInterviewSection) {
+      startInterview();
     }
-  ];
-  
+  }, [isInterviewSection, startInterview]);
+
   // Determine if we should show onboarding or profile mode
   useEffect(() => {
     // If force mode is enabled, always use onboarding mode
     if (forceMode) {
       setMode('onboarding');
-      if (!localStorage.getItem('force_onboarding')) {
-        localStorage.setItem('force_onboarding', 'true');
-        localStorage.setItem('force_onboarding_timestamp', Date.now().toString());
-      }
       return;
     }
     
@@ -126,104 +122,72 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
     }
   }, [initialMode, isOnboardingComplete, forceMode, setMode]);
   
-  // Set initial step/section based on profile data
+  // Follow the flow for the candidate's roles, which can change at the roles
+  // step. Profile mode offers every profile section, whatever the flow lists.
+  const flowSteps = useMemo(
+    () => (mode === 'profile' ? withSections(onboardingSteps, PROFILE_SECTIONS) : onboardingSteps),
+    [mode, onboardingSteps]
+  );
   useEffect(() => {
-    // Only set initial step if we haven't started yet (currentStep is 0)
-    if (!isLoading && profileData && currentStep === 0) {
-      if (mode === 'onboarding') {
-        // For onboarding, check if welcome is already completed
-        if (profileData.completed_steps?.includes('welcome')) {
-          const nextIncompleteIndex = profileSections.findIndex(
-            (section, index) => index > 0 && !profileData.completed_steps?.includes(section.id)
-          );
-          
-          if (nextIncompleteIndex !== -1) {
-            setCurrentStep(nextIncompleteIndex);
-            setActiveSection(profileSections[nextIncompleteIndex].id);
-            setShowWelcome(false);
-          }
-        } else if (!showWelcome) {
-          // If welcome is not completed but showWelcome is false, move to first section
-          setCurrentStep(1);
-          setActiveSection(profileSections[1].id);
-        }
-      } else {
-        // For profile editing, start at personal section
-        setActiveSection('personal');
-        setCurrentStep(profileSections.findIndex(s => s.id === 'personal'));
-      }
+    dispatch({ type: 'SET_FLOW', steps: flowSteps });
+  }, [flowSteps]);
+  
+  // Resume onboarding where the candidate left off once their profile has loaded
+  useEffect(() => {
+    if (isLoading || !profileData || hasRestoredRef.current) return;
+
+    hasRestoredRef.current = true;
+    dispatch({ type: 'RESTORE', record: getOnboardingRecord(profileData) });
+  }, [isLoading, profileData]);
+
+  // In profile mode the URL decides the section, so deep links and browser
+  // back/forward both land on the right one. /profile opens personal info.
+  useEffect(() => {
+    if (initialMode !== 'profile' || mode !== 'profile') return;
+
+    if (!isProfileSection(sectionParam)) {
+      goToProfile('personal', true);
+      return;
+    }
+
+    // Retried once the saved progress is restored, which may unlock the section
+    if (activeSection !== sectionParam) {
+      dispatch({ type: 'GO_TO', step: sectionParam });
     }
-  }, [isLoading, profileData, mode, showWelcome, currentStep, profileSections]);
+  }, [initialMode, mode, sectionParam, activeSection, onboarding.completed, goToProfile]);
   
   // If user has completed onboarding, redirect to dashboard
   useEffect(() => {
     if (!forceMode && mode === 'onboarding' && isOnboardingComplete && !isLoading) {
       // Only redirect if we're on the completion screen
-      if (currentStep === profileSections.length - 1) {
-        // Clear force onboarding flags
-        localStorage.removeItem('force_onboarding');
-        localStorage.removeItem('force_onboarding_timestamp');
-        
+      if (activeSection === 'complete') {
         goToDashboard();
       }
     }
-  }, [forceMode, mode, isOnboardingComplete, isLoading, goToDashboard, currentStep, profileSections.length]);
+  }, [forceMode, mode, isOnboardingComplete, isLoading, goToDashboard, activeSection]);
   
-  // Handle validation state changes from child components
-  const handleValidationChange = (isValid: boolean) => {
-    console.log('UnifiedProfileExperience: Received validation state change:', {
-      isValid,
-      currentStep,
-      currentSection: profileSections[currentStep]?.id
-    });
-    
-    setIsFormValid(isValid);
-    
-    // If user has attempted to continue before, show validation state
-    if (hasAttemptedContinue) {
-      const currentSection = profileSections[currentStep];
-      if (currentSection?.required && !isValid) {
-        setSaveSuccessMessage('Please complete all required fields before continuing.');
-      } else {
-        setSaveSuccessMessage('');
-      }
+  // Show the validation message once the candidate has tried to continue
+  useEffect(() => {
+    if (!hasAttemptedContinue) return;
+
+    if (currentSection.required && !isFormValid) {
+      setSaveSuccessMessage('Please complete all required fields before continuing.');
+    } else {
+      setSaveSuccessMessage('');
     }
-  };
+  }, [hasAttemptedContinue, currentSection.required, isFormValid]);
 
   // Determine if continue button should be enabled
   const canContinue = useCallback(() => {
-    const currentSection = profileSections[currentStep];
-    
-    console.log('UnifiedProfileExperience: Checking if can continue:', {
-      currentStep,
-      sectionId: currentSection?.id,
-      isFormValid,
-      isSaving,
-      isRequired: currentSection?.required
-    });
-    
-    if (isSaving) return false;
-    if (!currentSection) return false;
-    
-    // Welcome and complete sections can always continue
-    if (currentSection.id === 'welcome' || currentSection.id === 'complete') {
-      return true;
-    }
-    
-    // Required sections need to be valid
-    if (currentSection.required) {
-      return isFormValid;
-    }
-    
-    // Optional sections can continue even if not valid
-    return true;
-  }, [currentStep, isSaving, isFormValid, profileSections]);
+    if (isSaving || !profileData) return false;
+    return canLeaveStep(onboarding, profileData);
+  }, [isSaving, profileData, onboarding]);
 
   // Handle continue button click
   const handleNext = async () => {
     setHasAttemptedContinue(true);
     
-    if (!canContinue()) {
+    if (!canContinue() || !profileData) {
       return;
     }
     
@@ -256,45 +220,37 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
         }
       }
       
-      // Mark current section as complete if not already completed
-      if (!profileData.completed_steps?.includes(activeSection)) {
-        console.log('handleNext: adding current section to completed_steps:', activeSection);
-        await updateProfile({
-          completed_steps: [...(profileData.completed_steps || []), activeSection]
-        });
-      }
+      // Persist the step as complete, and the whole flow once the last step is left
+      const event = { type: 'NEXT', profile: profileData } as const;
+      const next = onboardingReducer(onboarding, event);
+      const record = toOnboardingRecord(next, getOnboardingRecord(profileData));
+      const progress = {
+        completed_steps: record.completedSteps,
+        onboarding_completed: record.completed,
+      };
       
-      // If we're at the last step, mark onboarding as complete
-      if (currentStep === profileSections.length - 1) {
+      if (next.finished) {
         console.log('handleNext: at last step, marking onboarding as complete');
-        await updateProfile({ onboarding_completed: true });
         
         try {
-          await saveProfile();
+          await saveProfile(progress);
         } catch (saveError) {
           console.error('Error in final save:', saveError);
           setSaveSuccessMessage('Failed to save changes. Please try again.');
           return;
         }
         
-        // Clear force onboarding flags before redirecting
-        localStorage.removeItem('force_onboarding');
-        localStorage.removeItem('force_onboarding_timestamp');
-        
         goToDashboard();
         return;
       }
       
-      // Otherwise, move to the next step
-      const nextStep = currentStep + 1;
-      console.log('handleNext: moving to next step:', nextStep, 'section:', profileSections[nextStep].id);
-      setCurrentStep(nextStep);
-      setActiveSection(profileSections[nextStep].id);
+      console.log('handleNext: moving to next step:', next.current);
+      dispatch(event);
       setHasAttemptedContinue(false); // Reset attempt flag for new section
       
       // Save profile after all updates
       try {
-        await saveProfile();
+        await saveProfile(progress);
         console.log('handleNext: Successfully saved profile after navigation');
         setSaveSuccessMessage('');
       } catch (saveError) {
@@ -311,14 +267,10 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
   };
   
   const handleBack = () => {
-    if (currentStep > 0) {
-      const prevStep = currentStep - 1;
-      setCurrentStep(prevStep);
-      setActiveSection(profileSections[prevStep].id);
-    }
+    dispatch({ type: 'BACK' });
   };
   
-  const handleSectionClick = (sectionId: string, e: React.MouseEvent) => {
+  const handleSectionClick = (sectionId: OnboardingStep, e: React.MouseEvent) => {
     // Check if we're actually clicking on the section button itself
     // and not on a child element inside a section component
     if (e.currentTarget !== e.target && (e.target as HTMLElement).tagName !== 'SPAN') {
@@ -326,58 +278,34 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
       return;
     }
 
-    // Only allow clicking in profile mode or if the section is already completed
-    if (mode === 'profile' || profileData?.completed_steps?.includes(sectionId)) {
-      // Check if we're already on this section to avoid unnecessary re-renders
+    // In profile mode the section follows the URL
+    if (mode === 'profile' && isProfileSection(sectionId)) {
       if (activeSection !== sectionId) {
-        console.log(`Switching from section ${activeSection} to ${sectionId}`);
-        setActiveSection(sectionId);
-        setCurrentStep(profileSections.findIndex(s => s.id === sectionId));
+        goToProfile(sectionId);
       }
+      return;
     }
+
+    // Otherwise the machine only opens sections the candidate has reached
+    dispatch({ type: 'GO_TO', step: sectionId });
   };
   
   const handleSaveSection = async () => {
     try {
       setIsSaving(true);
       
-      await saveProfile();
+      const saved = await saveProfile();
       
-      setSaveSuccessMessage('Changes saved successfully!');
+      setSaveSuccessMessage(saved ? 'Changes saved successfully!' : 'Failed to save changes. Please try again.');
       setTimeout(() => setSaveSuccessMessage(''), 3000);
     } catch (error) {
       console.error('Error saving profile data:', error);
+      setSaveSuccessMessage('Failed to save changes. Please try again.');
     } finally {
       setIsSaving(false);
     }
   };
   
-  // AI chat handler
-  const handleSendMessage = (content: string) => {
-    const newMessage: InterviewMessage = {
-      id: Date.now().toString(),
-      sender: 'user',
-      content,
-      timestamp: new Date(),
-    };
-    
-    setMessages([...messages, newMessage]);
-    setIsChatLoading(true);
-    
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse: InterviewMessage = {
-        id: (Date.now() + 1).toString(),
-        sender: 'ai',
-        content: "Thanks for sharing that! Could you tell me about a challenging project you worked on recently? What was your role, and how did you approach solving the problems you encountered?",
-        timestamp: new Date(),
-      };
-      
-      setMessages(prev => [...prev, aiResponse]);
-      setIsChatLoading(false);
-    }, 2000);
-  };
-  
   // Render welcome screen specifically for onboarding
   const renderWelcomeScreen = () => {
     return (
@@ -435,17 +363,8 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
           gradient
           fullWidth
             className="py-4 text-lg shadow-lg transform transition-transform hover:scale-105"
-          onClick={() => {
-            setShowWelcome(false);
-            setCurrentStep(1);
-            setActiveSection(profileSections[1].id);
-            // Mark welcome as complete
-            if (profileData && !profileData.completed_steps?.includes('welcome')) {
-              updateProfile({
-                completed_steps: [...(profileData.completed_steps || []), 'welcome']
-              });
-            }
-          }}
+          onClick={handleNext}
+          isLoading={isSaving}
             rightIcon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
             </svg>}
@@ -532,51 +451,51 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
   
   // Render the appropriate section component
   const renderCurrentSection = () => {
-    if (mode === 'onboarding' && showWelcome && currentStep === 0) {
+    if (mode === 'onboarding' && activeSection === 'welcome') {
       return renderWelcomeScreen();
     }
     
-    if (mode === 'onboarding' && currentStep === profileSections.length - 1) {
+    if (mode === 'onboarding' && activeSection === 'complete') {
       return renderCompletionScreen();
     }
     
-    const currentSection = profileSections[currentStep];
-    if (!currentSection || !currentSection.component) {
-      return <div>Section not implemented yet</div>;
-    }
-    
-    if (currentSection.id === 'interview') {
+    if (activeSection === 'interview') {
       return (
         <Card className="p-6">
+          {interview.error && (
+            <div className="mb-4 p-3 rounded bg-red-900/50 border border-red-800 text-red-200 text-sm">
+              {interview.error}
+            </div>
+          )}
           <ChatInterface
-            messages={messages}
-            isLoading={isChatLoading}
-            onSendMessage={handleSendMessage}
+            messages={interview.messages}
+            streamingMessage={interview.streamingMessage}
+            isLoading={interview.isLoading || interview.isResponding}
+            disabled={interview.isFinished}
+            placeholder={interview.isFinished ? 'Interview complete' : undefined}
+            onSendMessage={interview.sendMessage}
           />
         </Card>
       );
     }
     
-    return <currentSection.component 
+    const SectionComponent = SECTION_COMPONENTS[activeSection];
+    if (!SectionComponent) {
+      return <div>Section not implemented yet</div>;
+    }
+    
+    return <SectionComponent 
       forceMode={mode} 
       hideTitle={mode === 'onboarding'} 
       hideDescription={mode === 'onboarding'} 
       hideSaveButton={mode === 'profile'} // Hide section's own save button in profile mode
+      fieldSettings={currentSection.fields}
     />;
   };
   
-  // Calculate profile completion percentage
-  const calculateCompletionPercentage = () => {
-    if (!profileData || !profileData.completed_steps) return 0;
-    
-    const completedCount = profileData.completed_steps.length;
-    const totalSections = profileSections.length - 2; // Exclude welcome and complete
-    return Math.round((completedCount / totalSections) * 100);
-  };
-  
   // Render the profile sidebar for profile mode
   const renderProfileSidebar = () => {
-    const completionPercentage = calculateCompletionPercentage();
+    const completionPercentage = progress.percent;
     
     return (
       <div className="hidden lg:block lg:col-span-3">
@@ -594,8 +513,8 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
             </div>
           </div>
           <nav className="divide-y divide-gray-800">
-            {profileSections.filter(s => s.id !== 'welcome' && s.id !== 'complete').map((section) => {
-              const isComplete = profileData?.completed_steps?.includes(section.id);
+            {progress.sections.map((section) => {
+              const isComplete = onboarding.completed.includes(section.id);
               
               return (
                 <button
@@ -654,6 +573,16 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
               </div>
             )}
             
+            {profileData?.id && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => goToCandidateProfile(profileData.id)}
+              >
+                View Public Profile
+              </Button>
+            )}
+            
             {/* Mode toggle button for testing */}
             {isDebugEnabled && (
               <Button
@@ -668,28 +597,24 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
         )}
         
         {/* Progress indicator and heading for onboarding */}
-        {mode === 'onboarding' && currentStep > 0 && currentStep < profileSections.length - 1 && (
+        {mode === 'onboarding' && isSectionStep(activeSection) && (
           <div className="mb-10 max-w-3xl mx-auto px-4">
             <ProgressBar
-              value={currentStep - 1}
-              max={profileSections.length - 2}
+              value={progress.index}
+              max={progress.sections.length}
               mode="indicator"
               showSteps={true}
-              steps={profileSections.length - 2}
-              stepsLabels={profileSections.filter(s => s.id !== 'welcome' && s.id !== 'complete').map(s => s.title)}
+              steps={progress.sections.length}
+              stepsLabels={progress.sections.map(s => s.title)}
               className="mb-8"
             />
             
             <h1 className="text-2xl md:text-3xl font-bold text-white text-center bg-clip-text text-transparent bg-gradient-to-r from-purple-400 to-pink-400">
-              {profileSections[currentStep].title}
+              {currentSection.title}
             </h1>
             
-            {/* Custom description for each section */}
             <p className="text-gray-300 mt-3 mb-8 text-center max-w-lg mx-auto">
-              {currentStep === 1 && "Tell us about yourself so companies can get to know you"}
-              {currentStep === 2 && "Select roles and skills that match your expertise and career goals"}
-              {currentStep === 3 && "Set your preferences to help us find the perfect opportunities for you"}
-              {currentStep === 4 && "Share your educational background to strengthen your profile"}
+              {currentSection.description}
             </p>
           </div>
         )}
@@ -713,7 +638,7 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
                 {renderCurrentSection()}
                 
                 {/* Navigation buttons for onboarding */}
-                {mode === 'onboarding' && !showWelcome && currentStep > 0 && currentStep < profileSections.length - 1 && (
+                {mode === 'onboarding' && isSectionStep(activeSection) && (
                   <div className="flex flex-col sm:flex-row justify-between mt-10 max-w-md mx-auto gap-4 sm:gap-6 px-4">
                     <Button
                       variant="outline"
@@ -740,9 +665,9 @@ const UnifiedProfileExperience: React.FC<UnifiedProfileExperienceProps> = ({
                     >
                       {isSaving 
                         ? "Saving..." 
-                        : !canContinue() && profileSections[currentStep]?.required
+                        : !canContinue() && currentSection.required
                           ? "Please Complete Required Fields"
-                        : currentStep < profileSections.length - 2 
+                        : progress.index < progress.sections.length - 1
                           ? "Continue" 
                           : "Complete"
                       }
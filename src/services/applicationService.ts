@@ -0,0 +1,191 @@
+import { supabase } from '../lib/supabase';
+import { APPLICATION_STAGE_LABELS, APPLICATION_STAGES, isApplicationStage, stagesLeadingTo } from '../lib/applications';
+import { Application, ApplicationStage } from '../types';
+import type { Tables } from '../types/database';
+import { toCompany } from './jobService';
+import { ServiceResult, getErrorMessage } from './types';
+
+// Columns needed to build an Application, including the job and its company
+const APPLICATION_SELECT = `
+  id,
+  job_id,
+  stage,
+  resume_version_id,
+  cover_note,
+  applied_at,
+  screening_at,
+  interviewing_at,
+  offer_at,
+  rejected_at,
+  withdrawn_at,
+  created_at,
+  updated_at,
+  job:jobs (
+    title,
+    company:companies (
+      id,
+      name,
+      logo_url,
+      location,
+      description
+    )
+  )
+`;
+
+type CompanyRow = Pick<Tables<'companies'>, 'id' | 'name' | 'logo_url' | 'location' | 'description'>;
+
+type ApplicationRow = Omit<Tables<'applications'>, 'user_id'> & {
+  job: (Pick<Tables<'jobs'>, 'title'> & { company: CompanyRow | null }) | null;
+};
+
+// The column holding when an application entered each stage
+const STAGE_COLUMNS = {
+  applied: 'applied_at',
+  screening: 'screening_at',
+  interviewing: 'interviewing_at',
+  offer: 'offer_at',
+  rejected: 'rejected_at',
+  withdrawn: 'withdrawn_at',
+} as const satisfies Record<ApplicationStage, keyof Tables<'applications'>>;
+
+const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+const toApplication = (row: ApplicationRow): Application | null => {
+  // An application without its job or company can't be rendered, skip it
+  if (!row.job || !row.job.company || !isApplicationStage(row.stage)) return null;
+
+  const stageChangedAt: Application['stageChangedAt'] = {};
+  APPLICATION_STAGES.forEach(stage => {
+    const changedAt = toDate(row[STAGE_COLUMNS[stage]]);
+    if (changedAt) stageChangedAt[stage] = changedAt;
+  });
+
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    role: row.job.title,
+    company: toCompany(row.job.company),
+    stage: row.stage,
+    resumeVersionId: row.resume_version_id || undefined,
+    coverNote: row.cover_note || undefined,
+    stageChangedAt,
+    createdAt: toDate(row.created_at) || new Date(),
+    updatedAt: toDate(row.updated_at) || new Date(),
+  };
+};
+
+export const ApplicationService = {
+  /**
+   * Load a candidate's applications, most recently updated first
+   */
+  async getApplications(userId: string): Promise<ServiceResult<Application[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('applications')
+        .select(APPLICATION_SELECT)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      const applications = ((data || []) as unknown as ApplicationRow[])
+        .map(toApplication)
+        .filter((application): application is Application => application !== null);
+
+      return { data: applications };
+    } catch (error) {
+      console.error('ApplicationService: Error loading applications:', error);
+      return { error: getErrorMessage(error, 'Failed to load applications') };
+    }
+  },
+
+  /**
+   * Load a candidate's application to a job. Resolves to `null` data when
+   * they haven't applied to it.
+   */
+  async getApplicationForJob(userId: string, jobId: string): Promise<ServiceResult<Application | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('applications')
+        .select(APPLICATION_SELECT)
+        .eq('user_id', userId)
+        .eq('job_id', jobId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { data: data ? toApplication(data as unknown as ApplicationRow) : null };
+    } catch (error) {
+      console.error('ApplicationService: Error loading application:', error);
+      return { error: getErrorMessage(error, 'Failed to load application') };
+    }
+  },
+
+  /**
+   * Apply the signed-in candidate to a job with a resume and cover note.
+   * Applying again doesn't create a second application: a withdrawn one is
+   * sent again, and one already in the pipeline is returned unchanged.
+   */
+  async apply(
+    userId: string,
+    jobId: string,
+    resumeVersionId: string | null,
+    coverNote: string
+  ): Promise<ServiceResult<Application | null>> {
+    try {
+      const { error } = await supabase.rpc('apply_to_job', {
+        target_job_id: jobId,
+        resume_version: resumeVersionId,
+        note: coverNote,
+      });
+
+      if (error) throw error;
+
+      return ApplicationService.getApplicationForJob(userId, jobId);
+    } catch (error) {
+      console.error('ApplicationService: Error applying to job:', error);
+      return { error: getErrorMessage(error, 'Failed to submit application') };
+    }
+  },
+
+  /**
+   * Withdraw an application that's still in the pipeline
+   */
+  async withdraw(applicationId: string): Promise<ServiceResult<ApplicationStage>> {
+    try {
+      const { error } = await supabase.rpc('withdraw_application', { target_application_id: applicationId });
+
+      if (error) throw error;
+
+      return { data: 'withdrawn' };
+    } catch (error) {
+      console.error('ApplicationService: Error withdrawing application:', error);
+      return { error: getErrorMessage(error, 'Failed to withdraw application') };
+    }
+  },
+
+  /**
+   * Move an application to `to`. Only applied if the application is in a
+   * stage that can move to `to`; the database records when it got there.
+   * For recruiters; candidates can only apply and withdraw.
+   */
+  async transitionStage(applicationId: string, to: ApplicationStage): Promise<ServiceResult<ApplicationStage>> {
+    try {
+      const { data, error } = await supabase
+        .from('applications')
+        .update({ stage: to })
+        .eq('id', applicationId)
+        .in('stage', stagesLeadingTo(to))
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error(`This application can't be moved to ${APPLICATION_STAGE_LABELS[to].toLowerCase()}`);
+
+      return { data: to };
+    } catch (error) {
+      console.error('ApplicationService: Error updating application stage:', error);
+      return { error: getErrorMessage(error, 'Failed to update application') };
+    }
+  },
+};
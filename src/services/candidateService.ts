@@ -0,0 +1,60 @@
+import { supabase } from '../lib/supabase';
+import { CandidateProfile, CandidateSkill, RoleSeniority } from '../types';
+import type { Database } from '../types/database';
+import { SeniorityService } from './seniorityService';
+import { SkillService } from './skillService';
+import { ServiceResult, getErrorMessage } from './types';
+
+// Only the public columns, never the candidate's contact details
+type ProfileRow = Database['public']['Functions']['get_candidate_profile']['Returns'][number];
+
+const toCandidateProfile = (
+  row: ProfileRow,
+  seniority: RoleSeniority[],
+  skills: CandidateSkill[]
+): CandidateProfile => ({
+  id: row.id,
+  fullName: row.full_name,
+  avatarUrl: row.avatar_url || undefined,
+  location: row.location || undefined,
+  linkedinUrl: row.linkedin_url || undefined,
+  githubUrl: row.github_url || undefined,
+  websiteUrl: row.website_url || undefined,
+  roleIds: row.selected_roles,
+  seniority,
+  skills,
+});
+
+export const CandidateService = {
+  /**
+   * Load the profile recruiters see for a candidate. Candidates can load
+   * their own; recruiters can load anyone's.
+   */
+  async getCandidateProfile(userId: string): Promise<ServiceResult<CandidateProfile>> {
+    try {
+      const { data: profiles, error: profileError } = await supabase.rpc('get_candidate_profile', {
+        candidate_id: userId,
+      });
+
+      if (profileError) throw profileError;
+
+      const profile = profiles?.[0];
+      if (!profile) throw new Error('Candidate not found');
+
+      const { data: seniority, error: seniorityError } = await SeniorityService.getRoleSeniority(userId);
+
+      if (seniorityError) throw new Error(seniorityError);
+
+      const { data: skills, error: skillsError } = await SkillService.getCandidateSkills(userId);
+
+      if (skillsError) throw new Error(skillsError);
+
+      return {
+        data: toCandidateProfile(profile, seniority || [], skills || []),
+      };
+    } catch (error) {
+      console.error('CandidateService: Error loading candidate profile:', error);
+      return { error: getErrorMessage(error, 'Failed to load candidate profile') };
+    }
+  },
+};
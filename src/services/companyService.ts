@@ -0,0 +1,134 @@
+import { supabase } from '../lib/supabase';
+import { isCompanySize, isCompanyStage, isFundingRound } from '../lib/companies';
+import { CompanyOpenRole, CompanyProfile } from '../types';
+import type { Tables } from '../types/database';
+import { toCompany, toJobPosting } from './jobService';
+import { ServiceResult, getErrorMessage } from './types';
+
+const COMPANY_PROFILE_SELECT = `
+  id,
+  name,
+  logo_url,
+  location,
+  description,
+  stage,
+  size,
+  industry,
+  funding_round,
+  funding_total,
+  tech_stack,
+  culture_notes
+`;
+
+// Columns needed to build an open role's posting
+const OPEN_ROLE_SELECT = `
+  id,
+  title,
+  status,
+  description,
+  locations,
+  remote_policy,
+  employment_type,
+  salary_min,
+  salary_max,
+  salary_currency,
+  experience_min_years,
+  experience_max_years,
+  requirements,
+  nice_to_haves,
+  benefits,
+  posted_at,
+  closes_at
+`;
+
+type CompanyProfileRow = Pick<
+  Tables<'companies'>,
+  | 'id'
+  | 'name'
+  | 'logo_url'
+  | 'location'
+  | 'description'
+  | 'stage'
+  | 'size'
+  | 'industry'
+  | 'funding_round'
+  | 'funding_total'
+  | 'tech_stack'
+  | 'culture_notes'
+>;
+
+type OpenRoleRow = Pick<
+  Tables<'jobs'>,
+  | 'id'
+  | 'title'
+  | 'status'
+  | 'description'
+  | 'locations'
+  | 'remote_policy'
+  | 'employment_type'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'experience_min_years'
+  | 'experience_max_years'
+  | 'requirements'
+  | 'nice_to_haves'
+  | 'benefits'
+  | 'posted_at'
+  | 'closes_at'
+>;
+
+const toOpenRole = (row: OpenRoleRow): CompanyOpenRole => ({
+  jobId: row.id,
+  title: row.title,
+  posting: toJobPosting(row),
+});
+
+const toCompanyProfile = (row: CompanyProfileRow, openRoles: CompanyOpenRole[]): CompanyProfile => ({
+  ...toCompany(row),
+  stage: isCompanyStage(row.stage) ? row.stage : null,
+  size: isCompanySize(row.size) ? row.size : null,
+  industry: row.industry || undefined,
+  funding: row.funding_round || row.funding_total !== null
+    ? {
+        round: isFundingRound(row.funding_round) ? row.funding_round : null,
+        totalRaised: row.funding_total,
+      }
+    : null,
+  techStack: row.tech_stack || [],
+  cultureNotes: row.culture_notes || [],
+  openRoles,
+});
+
+export const CompanyService = {
+  /**
+   * Load a company's profile and its open roles, newest first
+   */
+  async getCompanyProfile(companyId: string): Promise<ServiceResult<CompanyProfile>> {
+    try {
+      const { data: company, error: companyError } = await supabase
+        .from('companies')
+        .select(COMPANY_PROFILE_SELECT)
+        .eq('id', companyId)
+        .single();
+
+      if (companyError) throw companyError;
+
+      const { data: jobs, error: jobsError } = await supabase
+        .from('jobs')
+        .select(OPEN_ROLE_SELECT)
+        .eq('company_id', companyId)
+        .eq('status', 'open')
+        .order('posted_at', { ascending: false, nullsFirst: false });
+
+      if (jobsError) throw jobsError;
+
+      const openRoles = ((jobs || []) as unknown as OpenRoleRow[]).map(toOpenRole);
+
+      return { data: toCompanyProfile(company as unknown as CompanyProfileRow, openRoles) };
+    } catch (error) {
+      console.error('CompanyService: Error loading company profile:', error);
+      return { error: getErrorMessage(error, 'Failed to load company') };
+    }
+  },
+};
@@ -0,0 +1,101 @@
+import { supabase } from '../lib/supabase';
+import { Education } from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+type EducationRow = Tables<'educations'>;
+
+// Education dates are entered as MM/YYYY and stored as the first of the month
+const MONTH_YEAR = /^(0?[1-9]|1[0-2])\/(\d{4})$/;
+
+export const isEducationDate = (value: string) => MONTH_YEAR.test(value.trim());
+
+const toMonthYear = (date: string | null) => (date ? `${date.slice(5, 7)}/${date.slice(0, 4)}` : '');
+
+const toDate = (monthYear: string) => {
+  const match = monthYear.trim().match(MONTH_YEAR);
+  return match ? `${match[2]}-${match[1].padStart(2, '0')}-01` : null;
+};
+
+const toEducation = (row: EducationRow): Education => ({
+  id: row.id,
+  school: row.school,
+  degree: row.degree,
+  field: row.field_of_study || '',
+  startDate: toMonthYear(row.start_date),
+  endDate: toMonthYear(row.end_date),
+  current: row.is_current,
+  gpa: row.gpa || undefined,
+  honors: row.honors || undefined,
+  activities: row.activities || undefined,
+});
+
+export const EducationService = {
+  /**
+   * Load a candidate's education entries in their display order
+   */
+  async getEducations(userId: string): Promise<ServiceResult<Education[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('educations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+
+      return { data: (data || []).map(toEducation) };
+    } catch (error) {
+      console.error('EducationService: Error loading education:', error);
+      return { error: getErrorMessage(error, 'Failed to load education') };
+    }
+  },
+
+  /**
+   * Replace a candidate's education entries with the given list. Entries are
+   * upserted in order and anything no longer in the list is removed.
+   */
+  async saveEducations(userId: string, educations: Education[]): Promise<ServiceResult<Education[]>> {
+    try {
+      const now = new Date().toISOString();
+
+      if (educations.length > 0) {
+        const { error } = await supabase
+          .from('educations')
+          .upsert(educations.map((education, index) => ({
+            id: education.id,
+            user_id: userId,
+            school: education.school,
+            degree: education.degree,
+            field_of_study: education.field || null,
+            start_date: toDate(education.startDate),
+            end_date: education.current ? null : toDate(education.endDate),
+            is_current: education.current,
+            gpa: education.gpa || null,
+            honors: education.honors || null,
+            activities: education.activities || null,
+            position: index,
+            updated_at: now,
+          })));
+
+        if (error) throw error;
+      }
+
+      let removeQuery = supabase
+        .from('educations')
+        .delete()
+        .eq('user_id', userId);
+      if (educations.length > 0) {
+        removeQuery = removeQuery.not('id', 'in', `(${educations.map(education => education.id).join(',')})`);
+      }
+      const { error: removeError } = await removeQuery;
+
+      if (removeError) throw removeError;
+
+      return { data: educations };
+    } catch (error) {
+      console.error('EducationService: Error saving education:', error);
+      return { error: getErrorMessage(error, 'Failed to save education') };
+    }
+  },
+};
@@ -0,0 +1,293 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { Interview, InterviewMessage, InterviewStatus, Skill, SkillAssessmentRecord } from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+const INTERVIEW_STATUSES: InterviewStatus[] = ['scheduled', 'in_progress', 'completed'];
+
+const INTERVIEW_SELECT = `
+  id,
+  status,
+  role_ids,
+  created_at,
+  started_at,
+  completed_at,
+  messages:interview_messages (
+    id,
+    sender,
+    content,
+    created_at
+  ),
+  assessment:skill_assessments (
+    id,
+    interview_id,
+    skills,
+    strengths,
+    areas_of_improvement,
+    created_at
+  )
+`;
+
+const ASSESSMENT_SELECT = 'id, interview_id, skills, strengths, areas_of_improvement, created_at';
+
+type InterviewMessageRow = Pick<Tables<'interview_messages'>, 'id' | 'sender' | 'content' | 'created_at'>;
+
+type SkillAssessmentRow = Pick<
+  Tables<'skill_assessments'>,
+  'id' | 'interview_id' | 'skills' | 'strengths' | 'areas_of_improvement' | 'created_at'
+>;
+
+type InterviewRow = Pick<
+  Tables<'interviews'>,
+  'id' | 'status' | 'role_ids' | 'created_at' | 'started_at' | 'completed_at'
+> & {
+  messages?: InterviewMessageRow[];
+  assessment?: SkillAssessmentRow | null;
+};
+
+const toStatus = (status: string): InterviewStatus =>
+  INTERVIEW_STATUSES.includes(status as InterviewStatus) ? (status as InterviewStatus) : 'scheduled';
+
+const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+const toInterviewMessage = (row: InterviewMessageRow): InterviewMessage => ({
+  id: row.id,
+  sender: row.sender === 'ai' ? 'ai' : 'user',
+  content: row.content,
+  timestamp: toDate(row.created_at) || new Date(),
+});
+
+// Skills are stored as JSON, drop anything that isn't a { name, level } pair
+const toSkills = (value: unknown): Skill[] =>
+  Array.isArray(value)
+    ? value.filter((skill): skill is Skill =>
+        !!skill && typeof skill.name === 'string' && typeof skill.level === 'number'
+      )
+    : [];
+
+const toAssessment = (row: SkillAssessmentRow): SkillAssessmentRecord => ({
+  id: row.id,
+  interviewId: row.interview_id,
+  skills: toSkills(row.skills),
+  strengths: row.strengths || [],
+  areasOfImprovement: row.areas_of_improvement || [],
+  createdAt: toDate(row.created_at) || new Date(),
+});
+
+const toInterview = (row: InterviewRow): Interview => ({
+  id: row.id,
+  status: toStatus(row.status),
+  roleIds: row.role_ids || [],
+  messages: (row.messages || [])
+    .map(toInterviewMessage)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+  createdAt: toDate(row.created_at) || new Date(),
+  startedAt: toDate(row.started_at),
+  completedAt: toDate(row.completed_at),
+  assessment: row.assessment ? toAssessment(row.assessment) : undefined,
+});
+
+export const InterviewService = {
+  /**
+   * Schedule a new interview for a candidate
+   */
+  async createInterview(userId: string, roleIds: string[]): Promise<ServiceResult<Interview>> {
+    try {
+      const { data, error } = await supabase
+        .from('interviews')
+        .insert({ user_id: userId, role_ids: roleIds, status: 'scheduled' })
+        .select(INTERVIEW_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      return { data: toInterview(data as unknown as InterviewRow) };
+    } catch (error) {
+      console.error('InterviewService: Error creating interview:', error);
+      return { error: getErrorMessage(error, 'Failed to start interview') };
+    }
+  },
+
+  /**
+   * Load the candidate's most recent interview that hasn't been completed,
+   * with its transcript, so it can be resumed. Resolves to `null` data when
+   * there's nothing to resume.
+   */
+  async getResumableInterview(userId: string): Promise<ServiceResult<Interview | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('interviews')
+        .select(INTERVIEW_SELECT)
+        .eq('user_id', userId)
+        .in('status', ['scheduled', 'in_progress'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { data: data ? toInterview(data as unknown as InterviewRow) : null };
+    } catch (error) {
+      console.error('InterviewService: Error loading interview:', error);
+      return { error: getErrorMessage(error, 'Failed to load interview') };
+    }
+  },
+
+  /**
+   * Load every interview a candidate has had, newest first, with their
+   * transcripts and assessments
+   */
+  async getInterviews(userId: string): Promise<ServiceResult<Interview[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('interviews')
+        .select(INTERVIEW_SELECT)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { data: ((data || []) as unknown as InterviewRow[]).map(toInterview) };
+    } catch (error) {
+      console.error('InterviewService: Error loading interviews:', error);
+      return { error: getErrorMessage(error, 'Failed to load interviews') };
+    }
+  },
+
+  /**
+   * Load a single interview with its transcript. Resolves to `null` data
+   * when it doesn't exist.
+   */
+  async getInterview(interviewId: string): Promise<ServiceResult<Interview | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('interviews')
+        .select(INTERVIEW_SELECT)
+        .eq('id', interviewId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { data: data ? toInterview(data as unknown as InterviewRow) : null };
+    } catch (error) {
+      console.error('InterviewService: Error loading interview:', error);
+      return { error: getErrorMessage(error, 'Failed to load interview') };
+    }
+  },
+
+  /**
+   * Add a message to an interview's transcript. The message's id and
+   * timestamp are kept so the transcript reloads in the same order.
+   */
+  async appendMessage(interviewId: string, message: InterviewMessage): Promise<ServiceResult<InterviewMessage>> {
+    try {
+      const { error } = await supabase
+        .from('interview_messages')
+        .insert({
+          id: message.id,
+          interview_id: interviewId,
+          sender: message.sender,
+          content: message.content,
+          created_at: message.timestamp.toISOString(),
+        });
+
+      if (error) throw error;
+
+      return { data: message };
+    } catch (error) {
+      console.error('InterviewService: Error saving interview message:', error);
+      return { error: getErrorMessage(error, 'Failed to save message') };
+    }
+  },
+
+  /**
+   * Move a scheduled interview to in_progress. A no-op for interviews that
+   * have already started.
+   */
+  async startInterview(interviewId: string): Promise<ServiceResult<InterviewStatus>> {
+    return InterviewService.transitionStatus(interviewId, ['scheduled', 'in_progress'], 'in_progress');
+  },
+
+  /**
+   * Move an in_progress interview to completed
+   */
+  async completeInterview(interviewId: string): Promise<ServiceResult<InterviewStatus>> {
+    return InterviewService.transitionStatus(interviewId, ['in_progress'], 'completed');
+  },
+
+  /**
+   * Update the status only if the interview is still in one of `from`, so
+   * statuses can only move forward: scheduled → in_progress → completed.
+   * Errors when it isn't, e.g. after another tab completed it. The database
+   * enforces the same order and sets started_at and completed_at.
+   */
+  async transitionStatus(
+    interviewId: string,
+    from: InterviewStatus[],
+    to: InterviewStatus
+  ): Promise<ServiceResult<InterviewStatus>> {
+    try {
+      const { data, error } = await supabase
+        .from('interviews')
+        .update({ status: to, updated_at: new Date().toISOString() })
+        .eq('id', interviewId)
+        .in('status', from)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error(`This interview can't be moved to ${to.replace('_', ' ')}`);
+
+      return { data: to };
+    } catch (error) {
+      console.error('InterviewService: Error updating interview status:', error);
+      return { error: getErrorMessage(error, 'Failed to update interview') };
+    }
+  },
+
+  /**
+   * Grade a completed interview and store its assessment. Grading happens
+   * on the server, in the assess-interview edge function, so candidates
+   * can't write their own. Safe to call again: an interview that's already
+   * assessed resolves to its existing assessment.
+   */
+  async assessInterview(interviewId: string): Promise<ServiceResult<SkillAssessmentRecord>> {
+    try {
+      const { data, error } = await supabase.functions.invoke('assess-interview', {
+        body: { interviewId },
+      });
+
+      if (error) {
+        // The function's own message, e.g. that the interview isn't complete
+        const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return { data: toAssessment(data as SkillAssessmentRow) };
+    } catch (error) {
+      console.error('InterviewService: Error assessing interview:', error);
+      return { error: getErrorMessage(error, 'Failed to assess interview') };
+    }
+  },
+
+  /**
+   * Load a candidate's assessments, newest first
+   */
+  async getAssessments(userId: string): Promise<ServiceResult<SkillAssessmentRecord[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('skill_assessments')
+        .select(ASSESSMENT_SELECT)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { data: (data || []).map(toAssessment) };
+    } catch (error) {
+      console.error('InterviewService: Error loading assessments:', error);
+      return { error: getErrorMessage(error, 'Failed to load assessments') };
+    }
+  },
+};
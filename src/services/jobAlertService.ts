@@ -0,0 +1,97 @@
+import { supabase } from '../lib/supabase';
+import { isJobWatchField } from '../lib/jobAlerts';
+import { JobAlert, JobAlertChange, JobAlertKind } from '../types';
+import type { Json, Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+const JOB_ALERT_KINDS: JobAlertKind[] = ['status', 'compensation', 'requirements', 'closed'];
+
+const JOB_ALERT_SELECT = `
+  id,
+  job_id,
+  kind,
+  changes,
+  read_at,
+  created_at,
+  job:jobs (
+    title,
+    company:companies (
+      name
+    )
+  )
+`;
+
+type JobAlertRow = Pick<Tables<'job_alerts'>, 'id' | 'job_id' | 'kind' | 'changes' | 'read_at' | 'created_at'> & {
+  job: (Pick<Tables<'jobs'>, 'title'> & { company: Pick<Tables<'companies'>, 'name'> | null }) | null;
+};
+
+// Changes are stored as { field: { before, after } }, drop fields the app doesn't know
+const toChanges = (changes: Json): JobAlertChange[] =>
+  changes && typeof changes === 'object' && !Array.isArray(changes)
+    ? Object.entries(changes).flatMap(([field, change]) =>
+        isJobWatchField(field) && change && typeof change === 'object' && !Array.isArray(change)
+          ? [{ field, before: change.before ?? null, after: change.after ?? null }]
+          : []
+      )
+    : [];
+
+const toJobAlert = (row: JobAlertRow): JobAlert | null => {
+  if (!row.job || !JOB_ALERT_KINDS.includes(row.kind as JobAlertKind)) return null;
+
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    role: row.job.title,
+    companyName: row.job.company?.name || '',
+    kind: row.kind as JobAlertKind,
+    changes: toChanges(row.changes),
+    read: !!row.read_at,
+    createdAt: row.created_at ? new Date(row.created_at) : new Date(),
+  };
+};
+
+export const JobAlertService = {
+  /**
+   * Load a candidate's most recent alerts about their saved jobs, newest first
+   */
+  async getAlerts(userId: string, limit = 50): Promise<ServiceResult<JobAlert[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('job_alerts')
+        .select(JOB_ALERT_SELECT)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const alerts = ((data || []) as unknown as JobAlertRow[])
+        .map(toJobAlert)
+        .filter((alert): alert is JobAlert => alert !== null);
+
+      return { data: alerts };
+    } catch (error) {
+      console.error('JobAlertService: Error loading job alerts:', error);
+      return { error: getErrorMessage(error, 'Failed to load alerts') };
+    }
+  },
+
+  async markRead(alertIds: string[]): Promise<ServiceResult<string[]>> {
+    try {
+      if (alertIds.length > 0) {
+        const { error } = await supabase
+          .from('job_alerts')
+          .update({ read_at: new Date().toISOString() })
+          .in('id', alertIds)
+          .is('read_at', null);
+
+        if (error) throw error;
+      }
+
+      return { data: alertIds };
+    } catch (error) {
+      console.error('JobAlertService: Error marking alerts read:', error);
+      return { error: getErrorMessage(error, 'Failed to update alerts') };
+    }
+  },
+};
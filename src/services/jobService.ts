@@ -0,0 +1,258 @@
+import { supabase } from '../lib/supabase';
+import {
+  Company,
+  CompanyStage,
+  EmploymentType,
+  JobMatch,
+  JobPosting,
+  JobRequirements,
+  JobStatus,
+  RemotePolicy,
+  SeniorityLevel,
+} from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+export type JobMatchStatus = JobMatch['status'];
+
+const JOB_MATCH_STATUSES: JobMatchStatus[] = ['pending', 'active', 'declined', 'accepted'];
+const JOB_STATUSES: JobStatus[] = ['open', 'paused', 'closed'];
+
+// Columns needed to build a JobMatch, including the job and its company
+const JOB_MATCH_SELECT = `
+  id,
+  status,
+  match_percentage,
+  resume_version_id,
+  created_at,
+  job:jobs (
+    id,
+    title,
+    role_ids,
+    locations,
+    remote_policy,
+    employment_type,
+    skills,
+    salary_min,
+    salary_max,
+    salary_currency,
+    seniority,
+    status,
+    description,
+    experience_min_years,
+    experience_max_years,
+    requirements,
+    nice_to_haves,
+    benefits,
+    posted_at,
+    closes_at,
+    company:companies (
+      id,
+      name,
+      logo_url,
+      location,
+      description,
+      stage
+    )
+  )
+`;
+
+type CompanyRow = Pick<Tables<'companies'>, 'id' | 'name' | 'logo_url' | 'location' | 'description'>;
+
+type JobRow = Pick<
+  Tables<'jobs'>,
+  | 'id'
+  | 'title'
+  | 'role_ids'
+  | 'locations'
+  | 'remote_policy'
+  | 'employment_type'
+  | 'skills'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_currency'
+  | 'seniority'
+>;
+
+// What the posting shows beyond the requirements
+type JobPostingRow = Pick<
+  Tables<'jobs'>,
+  | 'status'
+  | 'description'
+  | 'experience_min_years'
+  | 'experience_max_years'
+  | 'requirements'
+  | 'nice_to_haves'
+  | 'benefits'
+  | 'posted_at'
+  | 'closes_at'
+>;
+
+interface JobMatchRow {
+  id: string;
+  status: string;
+  match_percentage: number;
+  resume_version_id: string | null;
+  created_at: string | null;
+  job: (JobRow & JobPostingRow & {
+    company: (CompanyRow & Pick<Tables<'companies'>, 'stage'>) | null;
+  }) | null;
+}
+
+export const toCompany = (row: CompanyRow): Company => ({
+  id: row.id,
+  name: row.name,
+  logo: row.logo_url || '',
+  location: row.location || '',
+  description: row.description || '',
+});
+
+export const toJobStatus = (status: string): JobStatus =>
+  JOB_STATUSES.includes(status as JobStatus) ? (status as JobStatus) : 'open';
+
+const toStatus = (status: string): JobMatchStatus =>
+  JOB_MATCH_STATUSES.includes(status as JobMatchStatus) ? (status as JobMatchStatus) : 'pending';
+
+export const toJobRequirements = (
+  job: Omit<JobRow, 'id' | 'title'>,
+  companyStage: string | null
+): JobRequirements => ({
+  roleIds: job.role_ids || [],
+  locations: job.locations || [],
+  remotePolicy: (job.remote_policy as RemotePolicy | null) || null,
+  employmentType: (job.employment_type as EmploymentType | null) || null,
+  companyStage: (companyStage as CompanyStage | null) || null,
+  seniority: (job.seniority as SeniorityLevel | null) || null,
+  skills: job.skills || [],
+  // The scorer compares against expectations in USD, other currencies aren't scored
+  salaryRange: (job.salary_min !== null || job.salary_max !== null) && job.salary_currency === 'USD'
+    ? { min: job.salary_min, max: job.salary_max }
+    : null,
+});
+
+const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+export const toJobPosting = (
+  job: Pick<JobRow, 'locations' | 'remote_policy' | 'employment_type' | 'salary_min' | 'salary_max' | 'salary_currency'>
+    & JobPostingRow
+): JobPosting => ({
+  status: toJobStatus(job.status),
+  description: job.description || undefined,
+  experienceYears: job.experience_min_years !== null || job.experience_max_years !== null
+    ? { min: job.experience_min_years, max: job.experience_max_years }
+    : null,
+  compensation: job.salary_min !== null || job.salary_max !== null
+    ? { min: job.salary_min, max: job.salary_max, currency: job.salary_currency }
+    : null,
+  employmentType: (job.employment_type as EmploymentType | null) || null,
+  remotePolicy: (job.remote_policy as RemotePolicy | null) || null,
+  locations: job.locations || [],
+  requirements: job.requirements || [],
+  niceToHaves: job.nice_to_haves || [],
+  benefits: job.benefits || [],
+  postedAt: toDate(job.posted_at),
+  closesAt: toDate(job.closes_at),
+});
+
+const toJobMatch = (row: JobMatchRow): JobMatch | null => {
+  // A match without its job or company can't be rendered, skip it
+  if (!row.job || !row.job.company) return null;
+
+  return {
+    id: row.id,
+    company: toCompany(row.job.company),
+    role: row.job.title,
+    matchPercentage: row.match_percentage,
+    status: toStatus(row.status),
+    requirements: toJobRequirements(row.job, row.job.company.stage),
+    jobId: row.job.id,
+    posting: toJobPosting(row.job),
+    resumeVersionId: row.resume_version_id || undefined,
+    // Undated matches sort as the oldest rather than the newest
+    createdAt: new Date(row.created_at || 0),
+  };
+};
+
+export const JobService = {
+  /**
+   * Load every match for a candidate, best matches first
+   */
+  async getJobMatches(userId: string): Promise<ServiceResult<JobMatch[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('job_matches')
+        .select(JOB_MATCH_SELECT)
+        .eq('user_id', userId)
+        .order('match_percentage', { ascending: false });
+
+      if (error) throw error;
+
+      const matches = ((data || []) as unknown as JobMatchRow[])
+        .map(toJobMatch)
+        .filter((match): match is JobMatch => match !== null);
+
+      return { data: matches };
+    } catch (error) {
+      console.error('JobService: Error loading job matches:', error);
+      return { error: getErrorMessage(error, 'Failed to load job matches') };
+    }
+  },
+
+  /**
+   * Load a single match by id. Resolves to `null` data when it doesn't exist.
+   */
+  async getJobMatch(matchId: string): Promise<ServiceResult<JobMatch | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('job_matches')
+        .select(JOB_MATCH_SELECT)
+        .eq('id', matchId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { data: data ? toJobMatch(data as unknown as JobMatchRow) : null };
+    } catch (error) {
+      console.error('JobService: Error loading job match:', error);
+      return { error: getErrorMessage(error, 'Failed to load job') };
+    }
+  },
+
+  /**
+   * Persist an accept/decline decision on a match
+   */
+  async updateJobMatchStatus(matchId: string, status: JobMatchStatus): Promise<ServiceResult<JobMatchStatus>> {
+    try {
+      const { error } = await supabase
+        .from('job_matches')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', matchId);
+
+      if (error) throw error;
+
+      return { data: status };
+    } catch (error) {
+      console.error('JobService: Error updating job match status:', error);
+      return { error: getErrorMessage(error, 'Failed to update job match') };
+    }
+  },
+
+  /**
+   * Choose the resume version sent with an application, or clear it with `null`
+   */
+  async attachResume(matchId: string, resumeVersionId: string | null): Promise<ServiceResult<string | null>> {
+    try {
+      const { error } = await supabase
+        .from('job_matches')
+        .update({ resume_version_id: resumeVersionId, updated_at: new Date().toISOString() })
+        .eq('id', matchId);
+
+      if (error) throw error;
+
+      return { data: resumeVersionId };
+    } catch (error) {
+      console.error('JobService: Error attaching resume:', error);
+      return { error: getErrorMessage(error, 'Failed to attach resume') };
+    }
+  },
+};
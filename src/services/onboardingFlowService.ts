@@ -0,0 +1,41 @@
+import { supabase } from '../lib/supabase';
+import { OnboardingFlow, parseOnboardingSteps } from '../lib/onboarding';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+type OnboardingFlowRow = Tables<'onboarding_flows'>;
+
+// null when the row's steps don't make a flow the app can run
+function toOnboardingFlow(row: OnboardingFlowRow): OnboardingFlow | null {
+  try {
+    return { roleCategory: row.role_category, steps: parseOnboardingSteps(row.steps) };
+  } catch (error) {
+    console.error(`OnboardingFlowService: Skipping invalid flow for ${row.role_category ?? 'default'}:`, error);
+    return null;
+  }
+}
+
+export const OnboardingFlowService = {
+  /**
+   * Load the onboarding flows. Flows that fail validation are left out, so
+   * candidates in their category get the default flow instead.
+   */
+  async getFlows(): Promise<ServiceResult<OnboardingFlow[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('onboarding_flows')
+        .select('*');
+
+      if (error) throw error;
+
+      return {
+        data: (data || [])
+          .map(toOnboardingFlow)
+          .filter((flow): flow is OnboardingFlow => flow !== null),
+      };
+    } catch (error) {
+      console.error('OnboardingFlowService: Error loading onboarding flows:', error);
+      return { error: getErrorMessage(error, 'Failed to load onboarding flows') };
+    }
+  },
+};
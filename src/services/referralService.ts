@@ -0,0 +1,232 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isReferralStatus } from '../lib/referrals';
+import { Referral, ReferralInvite, ReferralStatus } from '../types';
+import type { Tables } from '../types/database';
+import { toCompany } from './jobService';
+import { ServiceResult, getErrorMessage } from './types';
+
+// Columns needed to build a Referral, including the company
+const REFERRAL_SELECT = `
+  id,
+  code,
+  referee_email,
+  referee_name,
+  message,
+  status,
+  signed_up_at,
+  matched_at,
+  applied_at,
+  invitation_sent_at,
+  created_at,
+  company:companies (
+    id,
+    name,
+    logo_url,
+    location,
+    description
+  )
+`;
+
+type CompanyRow = Pick<Tables<'companies'>, 'id' | 'name' | 'logo_url' | 'location' | 'description'>;
+
+type ReferralRow = Pick<
+  Tables<'referrals'>,
+  | 'id'
+  | 'code'
+  | 'referee_email'
+  | 'referee_name'
+  | 'message'
+  | 'status'
+  | 'signed_up_at'
+  | 'matched_at'
+  | 'applied_at'
+  | 'invitation_sent_at'
+  | 'created_at'
+> & {
+  company: CompanyRow | null;
+};
+
+export interface NewReferral {
+  companyId: string;
+  refereeEmail: string;
+  refereeName?: string;
+  message?: string;
+}
+
+// The column holding when a referral reached each status
+const STATUS_COLUMNS = {
+  invited: 'created_at',
+  signed_up: 'signed_up_at',
+  matched: 'matched_at',
+  applied: 'applied_at',
+} as const satisfies Record<ReferralStatus, keyof Tables<'referrals'>>;
+
+const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+const toReferral = (row: ReferralRow): Referral | null => {
+  // A referral without its company can't be rendered, skip it
+  if (!row.company || !isReferralStatus(row.status)) return null;
+
+  const statusChangedAt: Referral['statusChangedAt'] = {};
+  (Object.keys(STATUS_COLUMNS) as ReferralStatus[]).forEach(status => {
+    const changedAt = toDate(row[STATUS_COLUMNS[status]]);
+    if (changedAt) statusChangedAt[status] = changedAt;
+  });
+
+  return {
+    id: row.id,
+    code: row.code,
+    company: toCompany(row.company),
+    refereeEmail: row.referee_email,
+    refereeName: row.referee_name || undefined,
+    message: row.message || undefined,
+    status: row.status,
+    statusChangedAt,
+    invitationSentAt: toDate(row.invitation_sent_at),
+    createdAt: toDate(row.created_at) || new Date(),
+  };
+};
+
+export const ReferralService = {
+  /**
+   * Load the friends a candidate has referred, most recent first
+   */
+  async getReferrals(userId: string): Promise<ServiceResult<Referral[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('referrals')
+        .select(REFERRAL_SELECT)
+        .eq('referrer_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const referrals = ((data || []) as unknown as ReferralRow[])
+        .map(toReferral)
+        .filter((referral): referral is Referral => referral !== null);
+
+      return { data: referrals };
+    } catch (error) {
+      console.error('ReferralService: Error loading referrals:', error);
+      return { error: getErrorMessage(error, 'Failed to load referrals') };
+    }
+  },
+
+  /**
+   * Refer a friend to a company, creating the code they sign up with
+   */
+  async createReferral(userId: string, referral: NewReferral): Promise<ServiceResult<Referral>> {
+    try {
+      const { data, error } = await supabase
+        .from('referrals')
+        .insert({
+          referrer_id: userId,
+          company_id: referral.companyId,
+          referee_email: referral.refereeEmail.trim(),
+          referee_name: referral.refereeName?.trim() || null,
+          message: referral.message?.trim() || null,
+        })
+        .select(REFERRAL_SELECT)
+        .single();
+
+      if (error) {
+        // The unique index on referrer, company and email
+        if (error.code === '23505') throw new Error("You've already referred this friend to this company");
+        throw error;
+      }
+
+      const created = toReferral(data as unknown as ReferralRow);
+      if (!created) throw new Error('Failed to load the new referral');
+
+      return { data: created };
+    } catch (error) {
+      console.error('ReferralService: Error creating referral:', error);
+      return { error: getErrorMessage(error, 'Failed to refer your friend') };
+    }
+  },
+
+  /**
+   * Email the friend their invitation. Sending happens on the server, in the
+   * send-referral-invitation edge function, and only once per referral.
+   * Resolves to when it was sent.
+   */
+  async sendInvitation(referralId: string): Promise<ServiceResult<Date>> {
+    try {
+      const { data, error } = await supabase.functions.invoke('send-referral-invitation', {
+        body: { referralId },
+      });
+
+      if (error) {
+        // The function's own message, e.g. that the invitation was already sent
+        const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      return { data: new Date((data as { invitationSentAt: string }).invitationSentAt) };
+    } catch (error) {
+      console.error('ReferralService: Error sending invitation:', error);
+      return { error: getErrorMessage(error, 'Failed to send the invitation') };
+    }
+  },
+
+  /**
+   * Cancel a referral whose invitation hasn't been sent and nobody has
+   * signed up with yet
+   */
+  async cancelReferral(referralId: string): Promise<ServiceResult<null>> {
+    try {
+      const { data, error } = await supabase
+        .from('referrals')
+        .delete()
+        .eq('id', referralId)
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error("This referral's invitation has been sent, so it can't be cancelled");
+
+      return { data: null };
+    } catch (error) {
+      console.error('ReferralService: Error cancelling referral:', error);
+      return { error: getErrorMessage(error, 'Failed to cancel referral') };
+    }
+  },
+
+  /**
+   * Look up who sent an unclaimed referral code, for the sign-up page.
+   * Resolves to null for unknown or already claimed codes.
+   */
+  async getInvite(code: string): Promise<ServiceResult<ReferralInvite | null>> {
+    try {
+      const { data, error } = await supabase.rpc('get_referral_invite', { referral_code: code });
+
+      if (error) throw error;
+
+      const invite = data?.[0];
+      return {
+        data: invite ? { referrerName: invite.referrer_name, companyName: invite.company_name } : null,
+      };
+    } catch (error) {
+      console.error('ReferralService: Error loading referral invite:', error);
+      return { error: getErrorMessage(error, 'Failed to load referral') };
+    }
+  },
+
+  /**
+   * Attach the signed-in candidate to the referral with this code.
+   * Resolves to whether the code is now theirs.
+   */
+  async claimReferral(code: string): Promise<ServiceResult<boolean>> {
+    try {
+      const { data, error } = await supabase.rpc('claim_referral', { referral_code: code });
+
+      if (error) throw error;
+
+      return { data: !!data };
+    } catch (error) {
+      console.error('ReferralService: Error claiming referral:', error);
+      return { error: getErrorMessage(error, 'Failed to claim referral') };
+    }
+  },
+};
@@ -0,0 +1,265 @@
+import { supabase } from '../lib/supabase';
+import { Resume, ResumeVersion } from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+const RESUME_BUCKET = 'resumes';
+
+// Signed URLs stop working after this long, so a shared link soon goes dead
+const SIGNED_URL_EXPIRY_SECONDS = 5 * 60;
+
+const RESUME_SELECT = `
+  id,
+  name,
+  is_primary,
+  created_at,
+  updated_at,
+  versions:resume_versions (
+    id,
+    resume_id,
+    user_id,
+    version,
+    file_path,
+    file_name,
+    file_size,
+    mime_type,
+    created_at
+  )
+`;
+
+type ResumeVersionRow = Pick<
+  Tables<'resume_versions'>,
+  'id' | 'resume_id' | 'user_id' | 'version' | 'file_path' | 'file_name' | 'file_size' | 'mime_type' | 'created_at'
+>;
+
+type ResumeRow = Pick<Tables<'resumes'>, 'id' | 'name' | 'is_primary' | 'created_at' | 'updated_at'> & {
+  versions?: ResumeVersionRow[];
+};
+
+const toDate = (value: string | null) => (value ? new Date(value) : new Date());
+
+const toResumeVersion = (row: ResumeVersionRow): ResumeVersion => ({
+  id: row.id,
+  resumeId: row.resume_id,
+  ownerId: row.user_id,
+  version: row.version,
+  filePath: row.file_path,
+  fileName: row.file_name,
+  fileSize: row.file_size ?? undefined,
+  mimeType: row.mime_type || undefined,
+  createdAt: toDate(row.created_at),
+});
+
+const toResume = (row: ResumeRow): Resume => ({
+  id: row.id,
+  name: row.name,
+  isPrimary: row.is_primary,
+  versions: (row.versions || []).map(toResumeVersion).sort((a, b) => b.version - a.version),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+// Files live under the owner's id so storage policies can match on the folder
+const toFilePath = (userId: string, resumeId: string, version: number, fileName: string) =>
+  `${userId}/${resumeId}/v${version}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+export const ResumeService = {
+  /**
+   * Load a candidate's resumes with their versions. The primary resume comes
+   * first, then the most recently updated.
+   */
+  async getResumes(userId: string): Promise<ServiceResult<Resume[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('resumes')
+        .select(RESUME_SELECT)
+        .eq('user_id', userId)
+        .order('is_primary', { ascending: false })
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      return { data: ((data || []) as unknown as ResumeRow[]).map(toResume) };
+    } catch (error) {
+      console.error('ResumeService: Error loading resumes:', error);
+      return { error: getErrorMessage(error, 'Failed to load resumes') };
+    }
+  },
+
+  /**
+   * Create a named resume with the file as its first version
+   */
+  async createResume(
+    userId: string,
+    name: string,
+    file: File,
+    options: { isPrimary?: boolean } = {}
+  ): Promise<ServiceResult<Resume>> {
+    try {
+      const { data, error } = await supabase
+        .from('resumes')
+        .insert({ user_id: userId, name: name.trim(), is_primary: options.isPrimary ?? false })
+        .select(RESUME_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      const resume = toResume(data as unknown as ResumeRow);
+      const { data: version, error: versionError } = await ResumeService.addVersion(userId, resume.id, file);
+
+      if (versionError || !version) {
+        // Don't leave an empty resume behind
+        await supabase.from('resumes').delete().eq('id', resume.id);
+        throw new Error(versionError || 'Failed to upload resume');
+      }
+
+      return { data: { ...resume, versions: [version] } };
+    } catch (error) {
+      console.error('ResumeService: Error creating resume:', error);
+      return { error: getErrorMessage(error, 'Failed to upload resume') };
+    }
+  },
+
+  /**
+   * Upload a file as the next version of an existing resume
+   */
+  async addVersion(userId: string, resumeId: string, file: File): Promise<ServiceResult<ResumeVersion>> {
+    try {
+      const { data: latest, error: latestError } = await supabase
+        .from('resume_versions')
+        .select('version')
+        .eq('resume_id', resumeId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) throw latestError;
+
+      const version = (latest?.version || 0) + 1;
+      const filePath = toFilePath(userId, resumeId, version, file.name);
+
+      const { error: uploadError } = await supabase.storage
+        .from(RESUME_BUCKET)
+        .upload(filePath, file, { cacheControl: '3600', contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from('resume_versions')
+        .insert({
+          resume_id: resumeId,
+          user_id: userId,
+          version,
+          file_path: filePath,
+          file_name: file.name,
+          file_size: file.size,
+          mime_type: file.type || null,
+        })
+        .select('id, resume_id, user_id, version, file_path, file_name, file_size, mime_type, created_at')
+        .single();
+
+      if (error) {
+        await supabase.storage.from(RESUME_BUCKET).remove([filePath]);
+        throw error;
+      }
+
+      await supabase
+        .from('resumes')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', resumeId);
+
+      return { data: toResumeVersion(data) };
+    } catch (error) {
+      console.error('ResumeService: Error uploading resume version:', error);
+      return { error: getErrorMessage(error, 'Failed to upload resume') };
+    }
+  },
+
+  /**
+   * Rename a resume
+   */
+  async renameResume(resumeId: string, name: string): Promise<ServiceResult<string>> {
+    try {
+      const { error } = await supabase
+        .from('resumes')
+        .update({ name: name.trim(), updated_at: new Date().toISOString() })
+        .eq('id', resumeId);
+
+      if (error) throw error;
+
+      return { data: name.trim() };
+    } catch (error) {
+      console.error('ResumeService: Error renaming resume:', error);
+      return { error: getErrorMessage(error, 'Failed to rename resume') };
+    }
+  },
+
+  /**
+   * Make a resume the candidate's primary one, clearing the current primary
+   * in the same transaction since only one is allowed
+   */
+  async setPrimaryResume(resumeId: string): Promise<ServiceResult<string>> {
+    try {
+      const { error } = await supabase.rpc('set_primary_resume', { target_resume_id: resumeId });
+
+      if (error) throw error;
+
+      return { data: resumeId };
+    } catch (error) {
+      console.error('ResumeService: Error setting primary resume:', error);
+      return { error: getErrorMessage(error, 'Failed to set primary resume') };
+    }
+  },
+
+  /**
+   * Delete a resume, every version of it and their files
+   */
+  async deleteResume(resume: Resume): Promise<ServiceResult<string>> {
+    try {
+      const { error } = await supabase
+        .from('resumes')
+        .delete()
+        .eq('id', resume.id);
+
+      if (error) throw error;
+
+      // Rows are gone, a leftover file is only wasted space
+      const filePaths = resume.versions.map(version => version.filePath);
+      if (filePaths.length > 0) {
+        const { error: storageError } = await supabase.storage.from(RESUME_BUCKET).remove(filePaths);
+        if (storageError) {
+          console.error('ResumeService: Error removing resume files:', storageError);
+        }
+      }
+
+      return { data: resume.id };
+    } catch (error) {
+      console.error('ResumeService: Error deleting resume:', error);
+      return { error: getErrorMessage(error, 'Failed to delete resume') };
+    }
+  },
+
+  /**
+   * A short-lived signed URL for viewing a resume version, or for
+   * downloading it under its original file name. Storage policies decide
+   * who may sign one: the owner, recruiters and admins.
+   */
+  async createSignedUrl(version: ResumeVersion, options: { download?: boolean } = {}): Promise<ServiceResult<string>> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(RESUME_BUCKET)
+        .createSignedUrl(
+          version.filePath,
+          SIGNED_URL_EXPIRY_SECONDS,
+          options.download ? { download: version.fileName } : undefined
+        );
+
+      if (error) throw error;
+
+      return { data: data.signedUrl };
+    } catch (error) {
+      console.error('ResumeService: Error signing resume URL:', error);
+      return { error: getErrorMessage(error, 'Failed to open resume') };
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { supabase } from '../lib/supabase';
+import { Role } from '../config/roles';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+type CareerRoleRow = Tables<'career_roles'>;
+
+const toRole = (row: CareerRoleRow): Role => ({
+  id: row.slug,
+  name: row.title,
+  category: row.category || undefined,
+  description: row.description || undefined,
+  popularityRank: row.popularity_rank ?? undefined,
+  retired: !!row.retired_at,
+  mergedInto: row.merged_into || undefined,
+});
+
+export const RoleService = {
+  /**
+   * Load the role catalogue, most popular first. Retired roles are included
+   * so older selections can still be named and resolved.
+   */
+  async getRoles(): Promise<ServiceResult<Role[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('career_roles')
+        .select('*')
+        .order('popularity_rank', { ascending: true, nullsFirst: false })
+        .order('title', { ascending: true });
+
+      if (error) throw error;
+
+      return { data: (data || []).map(toRole) };
+    } catch (error) {
+      console.error('RoleService: Error loading roles:', error);
+      return { error: getErrorMessage(error, 'Failed to load roles') };
+    }
+  },
+};
@@ -0,0 +1,201 @@
+import { supabase } from '../lib/supabase';
+import { SavedJob, SavedJobList } from '../types';
+import type { Tables } from '../types/database';
+import { toCompany, toJobStatus } from './jobService';
+import { ServiceResult, getErrorMessage } from './types';
+
+// Columns needed to build a SavedJob, including the job and its company
+const SAVED_JOB_SELECT = `
+  id,
+  job_id,
+  list_id,
+  created_at,
+  job:jobs (
+    title,
+    status,
+    company:companies (
+      id,
+      name,
+      logo_url,
+      location,
+      description
+    )
+  )
+`;
+
+type CompanyRow = Pick<Tables<'companies'>, 'id' | 'name' | 'logo_url' | 'location' | 'description'>;
+
+type SavedJobRow = Pick<Tables<'saved_jobs'>, 'id' | 'job_id' | 'list_id' | 'created_at'> & {
+  job: (Pick<Tables<'jobs'>, 'title' | 'status'> & { company: CompanyRow | null }) | null;
+};
+
+type SavedJobListRow = Pick<Tables<'saved_job_lists'>, 'id' | 'name' | 'created_at'>;
+
+const toSavedJob = (row: SavedJobRow): SavedJob | null => {
+  // A saved job without its job or company can't be rendered, skip it
+  if (!row.job || !row.job.company) return null;
+
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    listId: row.list_id || undefined,
+    role: row.job.title,
+    company: toCompany(row.job.company),
+    jobStatus: toJobStatus(row.job.status),
+    createdAt: row.created_at ? new Date(row.created_at) : new Date(),
+  };
+};
+
+const toSavedJobList = (row: SavedJobListRow): SavedJobList => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at ? new Date(row.created_at) : new Date(),
+});
+
+export const SavedJobService = {
+  /**
+   * Load a candidate's saved jobs, most recently saved first
+   */
+  async getSavedJobs(userId: string): Promise<ServiceResult<SavedJob[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_jobs')
+        .select(SAVED_JOB_SELECT)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const savedJobs = ((data || []) as unknown as SavedJobRow[])
+        .map(toSavedJob)
+        .filter((savedJob): savedJob is SavedJob => savedJob !== null);
+
+      return { data: savedJobs };
+    } catch (error) {
+      console.error('SavedJobService: Error loading saved jobs:', error);
+      return { error: getErrorMessage(error, 'Failed to load saved jobs') };
+    }
+  },
+
+  /**
+   * Save a job, optionally into a list. Saving a job that's already saved
+   * leaves it where it is.
+   */
+  async saveJob(userId: string, jobId: string, listId: string | null = null): Promise<ServiceResult<SavedJob | null>> {
+    try {
+      const { error } = await supabase
+        .from('saved_jobs')
+        .upsert(
+          { user_id: userId, job_id: jobId, list_id: listId },
+          { onConflict: 'user_id,job_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+
+      const { data, error: loadError } = await supabase
+        .from('saved_jobs')
+        .select(SAVED_JOB_SELECT)
+        .eq('user_id', userId)
+        .eq('job_id', jobId)
+        .maybeSingle();
+
+      if (loadError) throw loadError;
+
+      return { data: data ? toSavedJob(data as unknown as SavedJobRow) : null };
+    } catch (error) {
+      console.error('SavedJobService: Error saving job:', error);
+      return { error: getErrorMessage(error, 'Failed to save job') };
+    }
+  },
+
+  async unsaveJob(savedJobId: string): Promise<ServiceResult<null>> {
+    try {
+      const { error } = await supabase
+        .from('saved_jobs')
+        .delete()
+        .eq('id', savedJobId);
+
+      if (error) throw error;
+
+      return { data: null };
+    } catch (error) {
+      console.error('SavedJobService: Error removing saved job:', error);
+      return { error: getErrorMessage(error, 'Failed to remove saved job') };
+    }
+  },
+
+  /**
+   * Move a saved job into a list, or out of every list with `null`
+   */
+  async moveToList(savedJobId: string, listId: string | null): Promise<ServiceResult<string | null>> {
+    try {
+      const { error } = await supabase
+        .from('saved_jobs')
+        .update({ list_id: listId, updated_at: new Date().toISOString() })
+        .eq('id', savedJobId);
+
+      if (error) throw error;
+
+      return { data: listId };
+    } catch (error) {
+      console.error('SavedJobService: Error moving saved job:', error);
+      return { error: getErrorMessage(error, 'Failed to move saved job') };
+    }
+  },
+
+  /**
+   * Load a candidate's lists, oldest first
+   */
+  async getLists(userId: string): Promise<ServiceResult<SavedJobList[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_job_lists')
+        .select('id, name, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return { data: (data || []).map(toSavedJobList) };
+    } catch (error) {
+      console.error('SavedJobService: Error loading lists:', error);
+      return { error: getErrorMessage(error, 'Failed to load lists') };
+    }
+  },
+
+  async createList(userId: string, name: string): Promise<ServiceResult<SavedJobList>> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_job_lists')
+        .insert({ user_id: userId, name: name.trim() })
+        .select('id, name, created_at')
+        .single();
+
+      if (error) throw error;
+
+      return { data: toSavedJobList(data) };
+    } catch (error) {
+      console.error('SavedJobService: Error creating list:', error);
+      return { error: getErrorMessage(error, 'Failed to create list') };
+    }
+  },
+
+  /**
+   * Delete a list. Its jobs stay saved, outside any list.
+   */
+  async deleteList(listId: string): Promise<ServiceResult<null>> {
+    try {
+      const { error } = await supabase
+        .from('saved_job_lists')
+        .delete()
+        .eq('id', listId);
+
+      if (error) throw error;
+
+      return { data: null };
+    } catch (error) {
+      console.error('SavedJobService: Error deleting list:', error);
+      return { error: getErrorMessage(error, 'Failed to delete list') };
+    }
+  },
+};
@@ -0,0 +1,77 @@
+import { supabase } from '../lib/supabase';
+import { isSeniorityLevel } from '../lib/seniority';
+import { RoleSeniority } from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+type RoleSeniorityRow = Tables<'candidate_role_seniority'>;
+
+// null for rows with a level the app doesn't know
+const toRoleSeniority = (row: RoleSeniorityRow): RoleSeniority | null =>
+  isSeniorityLevel(row.level)
+    ? { roleId: row.role_id, level: row.level, yearsOfExperience: row.years_experience ?? undefined }
+    : null;
+
+export const SeniorityService = {
+  /**
+   * Load a candidate's level and years of experience in each of their roles
+   */
+  async getRoleSeniority(userId: string): Promise<ServiceResult<RoleSeniority[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('candidate_role_seniority')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        data: (data || [])
+          .map(toRoleSeniority)
+          .filter((item): item is RoleSeniority => item !== null),
+      };
+    } catch (error) {
+      console.error('SeniorityService: Error loading seniority:', error);
+      return { error: getErrorMessage(error, 'Failed to load experience levels') };
+    }
+  },
+
+  /**
+   * Replace a candidate's seniority with the given list. Entries are upserted
+   * and roles no longer in the list are removed.
+   */
+  async saveRoleSeniority(userId: string, seniority: RoleSeniority[]): Promise<ServiceResult<RoleSeniority[]>> {
+    try {
+      if (seniority.length > 0) {
+        const { error } = await supabase
+          .from('candidate_role_seniority')
+          .upsert(seniority.map(item => ({
+            user_id: userId,
+            role_id: item.roleId,
+            level: item.level,
+            years_experience: item.yearsOfExperience ?? null,
+            updated_at: new Date().toISOString(),
+          })), { onConflict: 'user_id,role_id' });
+
+        if (error) throw error;
+      }
+
+      let removeQuery = supabase
+        .from('candidate_role_seniority')
+        .delete()
+        .eq('user_id', userId);
+      if (seniority.length > 0) {
+        removeQuery = removeQuery.not('role_id', 'in', `(${seniority.map(item => item.roleId).join(',')})`);
+      }
+      const { error: removeError } = await removeQuery;
+
+      if (removeError) throw removeError;
+
+      return { data: seniority };
+    } catch (error) {
+      console.error('SeniorityService: Error saving seniority:', error);
+      return { error: getErrorMessage(error, 'Failed to save experience levels') };
+    }
+  },
+};
@@ -0,0 +1,105 @@
+import { supabase } from '../lib/supabase';
+import { CandidateSkill, SkillDefinition, SkillProficiency } from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+type SkillRow = Pick<Tables<'skills'>, 'id' | 'name' | 'category'> & {
+  aliases: Pick<Tables<'skill_aliases'>, 'alias'>[] | null;
+};
+
+type CandidateSkillRow = Pick<Tables<'candidate_skills'>, 'skill_id' | 'proficiency' | 'years_experience'> & {
+  skill: Pick<Tables<'skills'>, 'name'> | null;
+};
+
+const toSkillDefinition = (row: SkillRow): SkillDefinition => ({
+  id: row.id,
+  name: row.name,
+  category: row.category || undefined,
+  aliases: (row.aliases || []).map(alias => alias.alias),
+});
+
+const toCandidateSkill = (row: CandidateSkillRow): CandidateSkill => ({
+  skillId: row.skill_id,
+  name: row.skill?.name || '',
+  proficiency: Math.min(Math.max(row.proficiency, 1), 5) as SkillProficiency,
+  yearsOfExperience: row.years_experience ?? undefined,
+});
+
+export const SkillService = {
+  /**
+   * Load the skills taxonomy with each skill's aliases
+   */
+  async getSkills(): Promise<ServiceResult<SkillDefinition[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('skills')
+        .select('id, name, category, aliases:skill_aliases (alias)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return { data: ((data || []) as unknown as SkillRow[]).map(toSkillDefinition) };
+    } catch (error) {
+      console.error('SkillService: Error loading skills:', error);
+      return { error: getErrorMessage(error, 'Failed to load skills') };
+    }
+  },
+
+  /**
+   * Load the skills on a candidate's profile, strongest first
+   */
+  async getCandidateSkills(userId: string): Promise<ServiceResult<CandidateSkill[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('candidate_skills')
+        .select('skill_id, proficiency, years_experience, skill:skills (name)')
+        .eq('user_id', userId)
+        .order('proficiency', { ascending: false });
+
+      if (error) throw error;
+
+      return { data: ((data || []) as unknown as CandidateSkillRow[]).map(toCandidateSkill) };
+    } catch (error) {
+      console.error('SkillService: Error loading candidate skills:', error);
+      return { error: getErrorMessage(error, 'Failed to load skills') };
+    }
+  },
+
+  /**
+   * Replace the skills on a candidate's profile with the given list. Skills
+   * are upserted and anything no longer in the list is removed.
+   */
+  async saveCandidateSkills(userId: string, skills: CandidateSkill[]): Promise<ServiceResult<CandidateSkill[]>> {
+    try {
+      if (skills.length > 0) {
+        const { error } = await supabase
+          .from('candidate_skills')
+          .upsert(skills.map(skill => ({
+            user_id: userId,
+            skill_id: skill.skillId,
+            proficiency: skill.proficiency,
+            years_experience: skill.yearsOfExperience ?? null,
+            updated_at: new Date().toISOString(),
+          })), { onConflict: 'user_id,skill_id' });
+
+        if (error) throw error;
+      }
+
+      let removeQuery = supabase
+        .from('candidate_skills')
+        .delete()
+        .eq('user_id', userId);
+      if (skills.length > 0) {
+        removeQuery = removeQuery.not('skill_id', 'in', `(${skills.map(skill => skill.skillId).join(',')})`);
+      }
+      const { error: removeError } = await removeQuery;
+
+      if (removeError) throw removeError;
+
+      return { data: skills };
+    } catch (error) {
+      console.error('SkillService: Error saving candidate skills:', error);
+      return { error: getErrorMessage(error, 'Failed to save skills') };
+    }
+  },
+};
@@ -0,0 +1,18 @@
+/**
+ * Result shape returned by every service method. Services never throw;
+ * callers check `error` and fall back to their own UI state.
+ */
+export type ServiceResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+/**
+ * Normalize anything thrown by Supabase or fetch into a displayable message
+ */
+export function getErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return fallback;
+}
@@ -0,0 +1,89 @@
+import { supabase } from '../lib/supabase';
+import { WorkExperience } from '../types';
+import type { Tables } from '../types/database';
+import { ServiceResult, getErrorMessage } from './types';
+
+type WorkExperienceRow = Tables<'work_experiences'>;
+
+// Dates are stored as the first of the month, the UI works in YYYY-MM
+const toMonth = (date: string | null) => (date ? date.slice(0, 7) : '');
+const toDate = (month: string) => (/^\d{4}-\d{2}$/.test(month) ? `${month}-01` : null);
+
+const toWorkExperience = (row: WorkExperienceRow): WorkExperience => ({
+  id: row.id,
+  company: row.company,
+  title: row.title,
+  startDate: toMonth(row.start_date),
+  endDate: toMonth(row.end_date),
+  current: row.is_current,
+  description: row.description || '',
+  technologies: row.technologies || [],
+});
+
+export const WorkExperienceService = {
+  /**
+   * Load a candidate's positions in their display order
+   */
+  async getWorkExperiences(userId: string): Promise<ServiceResult<WorkExperience[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('work_experiences')
+        .select('*')
+        .eq('user_id', userId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+
+      return { data: (data || []).map(toWorkExperience) };
+    } catch (error) {
+      console.error('WorkExperienceService: Error loading work experience:', error);
+      return { error: getErrorMessage(error, 'Failed to load work experience') };
+    }
+  },
+
+  /**
+   * Replace a candidate's positions with the given list. Entries are
+   * upserted in order and anything no longer in the list is removed.
+   */
+  async saveWorkExperiences(userId: string, experiences: WorkExperience[]): Promise<ServiceResult<WorkExperience[]>> {
+    try {
+      const now = new Date().toISOString();
+
+      if (experiences.length > 0) {
+        const { error } = await supabase
+          .from('work_experiences')
+          .upsert(experiences.map((experience, index) => ({
+            id: experience.id,
+            user_id: userId,
+            company: experience.company,
+            title: experience.title,
+            start_date: toDate(experience.startDate),
+            end_date: experience.current ? null : toDate(experience.endDate),
+            is_current: experience.current,
+            description: experience.description || null,
+            technologies: experience.technologies,
+            position: index,
+            updated_at: now,
+          })));
+
+        if (error) throw error;
+      }
+
+      let removeQuery = supabase
+        .from('work_experiences')
+        .delete()
+        .eq('user_id', userId);
+      if (experiences.length > 0) {
+        removeQuery = removeQuery.not('id', 'in', `(${experiences.map(experience => experience.id).join(',')})`);
+      }
+      const { error: removeError } = await removeQuery;
+
+      if (removeError) throw removeError;
+
+      return { data: experiences };
+    } catch (error) {
+      console.error('WorkExperienceService: Error saving work experience:', error);
+      return { error: getErrorMessage(error, 'Failed to save work experience') };
+    }
+  },
+};
@@ -13,12 +13,278 @@ export interface Company {
   description: string;
 }
 
+export type RemotePolicy = 'remote' | 'hybrid' | 'office';
+export type EmploymentType = 'full_time' | 'part_time' | 'contract' | 'internship';
+export type CompanyStage = 'early_stage' | 'late_stage' | 'enterprise';
+// Lowest to highest
+export type SeniorityLevel = 'entry' | 'mid' | 'senior' | 'lead';
+
+export type JobStatus = 'open' | 'paused' | 'closed';
+
+// A range in whole units; either end may be open
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+// What a job asks for, used to score it against a candidate profile
+export interface JobRequirements {
+  roleIds: string[];
+  locations: string[];
+  remotePolicy: RemotePolicy | null;
+  employmentType: EmploymentType | null;
+  companyStage: CompanyStage | null;
+  seniority: SeniorityLevel | null;
+  skills: string[];
+  // Annual base salary in USD
+  salaryRange: NumberRange | null;
+}
+
+// What a job posting shows candidates
+export interface JobPosting {
+  status: JobStatus;
+  description?: string;
+  experienceYears: NumberRange | null;
+  // Annual base salary
+  compensation: (NumberRange & { currency: string }) | null;
+  employmentType: EmploymentType | null;
+  remotePolicy: RemotePolicy | null;
+  locations: string[];
+  requirements: string[];
+  niceToHaves: string[];
+  benefits: string[];
+  postedAt?: Date;
+  closesAt?: Date;
+}
+
+// The same buckets as the candidate's company size preferences
+export type CompanySize = 'startup' | 'small' | 'midsize' | 'large';
+export type FundingRound =
+  | 'bootstrapped'
+  | 'pre_seed'
+  | 'seed'
+  | 'series_a'
+  | 'series_b'
+  | 'series_c'
+  | 'series_d_plus'
+  | 'public';
+
+export interface CompanyOpenRole {
+  jobId: string;
+  title: string;
+  posting: JobPosting;
+}
+
+// What a company's profile page shows
+export interface CompanyProfile extends Company {
+  stage: CompanyStage | null;
+  size: CompanySize | null;
+  industry?: string;
+  funding: {
+    round: FundingRound | null;
+    // Total raised to date, in USD
+    totalRaised: number | null;
+  } | null;
+  techStack: string[];
+  cultureNotes: string[];
+  // Newest first
+  openRoles: CompanyOpenRole[];
+}
+
+export type MatchFactorId =
+  | 'role'
+  | 'seniority'
+  | 'skills'
+  | 'location'
+  | 'remote'
+  | 'employment_type'
+  | 'company_stage'
+  | 'compensation';
+
+export interface MatchFactor {
+  id: MatchFactorId;
+  label: string;
+  score: number; // 0-100
+  weight: number;
+  applicable: boolean; // false when the job states no requirement for this factor
+  reason: string;
+}
+
+export interface MatchBreakdown {
+  overall: number; // 0-100
+  factors: MatchFactor[];
+}
+
 export interface JobMatch {
   id: string;
   company: Company;
   role: string;
   matchPercentage: number;
   status: 'pending' | 'active' | 'declined' | 'accepted';
+  requirements?: JobRequirements;
+  breakdown?: MatchBreakdown;
+  // The matched job, which applications refer to
+  jobId: string;
+  posting: JobPosting;
+  // The resume version sent with this application
+  resumeVersionId?: string;
+  createdAt: Date;
+}
+
+// applied → screening → interviewing → offer, or off the pipeline as
+// rejected or withdrawn
+export type ApplicationStage =
+  | 'applied'
+  | 'screening'
+  | 'interviewing'
+  | 'offer'
+  | 'rejected'
+  | 'withdrawn';
+
+export interface Application {
+  id: string;
+  jobId: string;
+  role: string;
+  company: Company;
+  stage: ApplicationStage;
+  resumeVersionId?: string;
+  coverNote?: string;
+  // When the application last entered each stage it has been through
+  stageChangedAt: Partial<Record<ApplicationStage, Date>>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A named group of saved jobs
+export interface SavedJobList {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+// A job on the candidate's watchlist
+export interface SavedJob {
+  id: string;
+  jobId: string;
+  // Unset for jobs that aren't in a list
+  listId?: string;
+  role: string;
+  company: Company;
+  jobStatus: JobStatus;
+  createdAt: Date;
+}
+
+// The job fields candidates are alerted about when a saved job changes
+export type JobWatchField =
+  | 'status'
+  | 'salary_min'
+  | 'salary_max'
+  | 'role_ids'
+  | 'locations'
+  | 'remote_policy'
+  | 'employment_type'
+  | 'seniority'
+  | 'skills'
+  | 'salary_currency'
+  | 'requirements'
+  | 'experience_min_years'
+  | 'experience_max_years'
+  | 'closes_at';
+
+export type JobAlertKind = 'status' | 'compensation' | 'requirements' | 'closed';
+
+export interface JobAlertChange {
+  field: JobWatchField;
+  before: unknown;
+  after: unknown;
+}
+
+// Raised when a saved job changes or closes
+export interface JobAlert {
+  id: string;
+  jobId: string;
+  role: string;
+  companyName: string;
+  kind: JobAlertKind;
+  changes: JobAlertChange[];
+  read: boolean;
+  createdAt: Date;
+}
+
+// In order: invited, signed up with the code, matched with one of the company's jobs, applied to one
+export type ReferralStatus = 'invited' | 'signed_up' | 'matched' | 'applied';
+
+// A friend a candidate referred to a company
+export interface Referral {
+  id: string;
+  code: string;
+  company: Company;
+  refereeEmail: string;
+  refereeName?: string;
+  message?: string;
+  status: ReferralStatus;
+  // When the referral reached each status it has been through
+  statusChangedAt: Partial<Record<ReferralStatus, Date>>;
+  // When the friend was emailed their invitation, if they have been
+  invitationSentAt?: Date;
+  createdAt: Date;
+}
+
+// Who invited a friend signing up with a referral code, and to which company
+export interface ReferralInvite {
+  referrerName: string;
+  companyName: string;
+}
+
+export interface WorkExperience {
+  id: string;
+  company: string;
+  title: string;
+  // YYYY-MM
+  startDate: string;
+  endDate: string;
+  current: boolean;
+  description?: string;
+  technologies: string[];
+}
+
+export interface Education {
+  id: string;
+  school: string;
+  degree: string;
+  field: string;
+  // MM/YYYY, stored as the first of the month
+  startDate: string;
+  endDate: string;
+  current: boolean;
+  gpa?: string;
+  honors?: string;
+  activities?: string;
+}
+
+// One uploaded file of a resume; newer uploads get higher version numbers
+export interface ResumeVersion {
+  id: string;
+  resumeId: string;
+  // The candidate the resume belongs to
+  ownerId: string;
+  version: number;
+  // Path within the resumes storage bucket
+  filePath: string;
+  fileName: string;
+  fileSize?: number;
+  mimeType?: string;
+  createdAt: Date;
+}
+
+export interface Resume {
+  id: string;
+  name: string;
+  isPrimary: boolean;
+  // Newest first
+  versions: ResumeVersion[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Skill {
@@ -26,12 +292,60 @@ export interface Skill {
   level: number; // 0-100
 }
 
+// A skill in the taxonomy. Aliases are other names it goes by, like "React.js" for React.
+export interface SkillDefinition {
+  id: string;
+  name: string;
+  category?: string;
+  aliases: string[];
+}
+
+// 1 (beginner) to 5 (expert)
+export type SkillProficiency = 1 | 2 | 3 | 4 | 5;
+
+// A skill on a candidate's profile
+export interface CandidateSkill {
+  skillId: string;
+  name: string;
+  proficiency: SkillProficiency;
+  yearsOfExperience?: number;
+}
+
+// How senior a candidate is in one of their selected roles
+export interface RoleSeniority {
+  roleId: string;
+  level: SeniorityLevel;
+  yearsOfExperience?: number;
+}
+
+// What recruiters see of a candidate
+export interface CandidateProfile {
+  id: string;
+  fullName: string;
+  avatarUrl?: string;
+  location?: string;
+  linkedinUrl?: string;
+  githubUrl?: string;
+  websiteUrl?: string;
+  // Role slugs, in the order the candidate picked them
+  roleIds: string[];
+  seniority: RoleSeniority[];
+  skills: CandidateSkill[];
+}
+
 export interface SkillAssessment {
   skills: Skill[];
   strengths: string[];
   areasOfImprovement: string[];
 }
 
+// A stored assessment and the interview it came from
+export interface SkillAssessmentRecord extends SkillAssessment {
+  id: string;
+  interviewId: string;
+  createdAt: Date;
+}
+
 export interface UserPreferences {
   location: string[];
   remotePreference: 'remote' | 'hybrid' | 'onsite' | 'flexible';
@@ -49,17 +363,30 @@ export interface InterviewMessage {
   timestamp: Date;
 }
 
+export type InterviewStatus = 'scheduled' | 'in_progress' | 'completed';
+
 export interface Interview {
   id: string;
-  status: 'scheduled' | 'in_progress' | 'completed';
+  status: InterviewStatus;
+  // Roles the interviewer tailored its questions to
+  roleIds: string[];
   messages: InterviewMessage[];
-  assessment?: SkillAssessment;
+  assessment?: SkillAssessmentRecord;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
 }
 
-export type OnboardingStep = 
+// Ids of the onboarding steps, which are also the profile section ids
+export type OnboardingStep =
   | 'welcome'
-  | 'role_selection'
-  | 'external_profiles'
+  | 'personal'
+  | 'roles'
+  | 'github'
+  | 'portfolio'
+  | 'experience'
   | 'preferences'
+  | 'education'
+  | 'resume'
   | 'interview'
   | 'complete';
\ No newline at end of file
@@ -0,0 +1,132 @@
+// Grades a completed interview from its stored transcript and saves the
+// skill assessment. Candidates can't write assessments themselves, so this
+// is the only way one is made.
+//
+// Grading uses INTERVIEW_ASSESSMENT_URL when it's set, like the http
+// interview engine, and otherwise the app's deterministic grader.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { assessTranscript } from '../../../src/lib/interview/assessment.ts';
+import type { Role } from '../../../src/config/roles.ts';
+import type { InterviewMessage, SkillAssessment } from '../../../src/types/index.ts';
+
+const ASSESSMENT_SELECT = 'id, interview_id, skills, strengths, areas_of_improvement, created_at';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+const grade = async (roles: Role[], messages: InterviewMessage[], authorization: string): Promise<SkillAssessment> => {
+  const url = Deno.env.get('INTERVIEW_ASSESSMENT_URL');
+  if (!url) return assessTranscript(roles, messages);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json', Authorization: authorization },
+    body: JSON.stringify({
+      roles: roles.map(role => ({ id: role.id, name: role.name, category: role.category })),
+      messages: messages.map(message => ({ sender: message.sender, content: message.content })),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Assessment request failed (${response.status})`);
+  }
+
+  const assessment = await response.json() as Partial<SkillAssessment>;
+  return {
+    skills: assessment.skills || [],
+    strengths: assessment.strengths || [],
+    areasOfImprovement: assessment.areasOfImprovement || [],
+  };
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return json({ error: 'Sign in to assess an interview' }, 401);
+
+  try {
+    const { interviewId } = await req.json() as { interviewId?: string };
+    if (!interviewId) return json({ error: 'interviewId is required' }, 400);
+
+    // Read as the candidate, so they can only assess their own interviews
+    const candidate = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: interview, error: interviewError } = await candidate
+      .from('interviews')
+      .select(`id, user_id, status, role_ids, messages:interview_messages (id, sender, content, created_at), assessment:skill_assessments (${ASSESSMENT_SELECT})`)
+      .eq('id', interviewId)
+      .maybeSingle();
+
+    if (interviewError) throw interviewError;
+    if (!interview) return json({ error: 'Interview not found' }, 404);
+    if (interview.status !== 'completed') return json({ error: 'Only completed interviews can be assessed' }, 409);
+
+    // Already assessed, e.g. when a retry follows a response that got lost
+    if (interview.assessment) return json(interview.assessment);
+
+    const { data: roleRows, error: rolesError } = await admin
+      .from('career_roles')
+      .select('slug, title, category, retired_at')
+      .in('slug', interview.role_ids || []);
+
+    if (rolesError) throw rolesError;
+
+    const roles: Role[] = (roleRows || []).map(row => ({
+      id: row.slug,
+      name: row.title,
+      category: row.category || undefined,
+      retired: !!row.retired_at,
+    }));
+    const messages: InterviewMessage[] = (interview.messages || [])
+      .map((row): InterviewMessage => ({
+        id: row.id,
+        sender: row.sender === 'ai' ? 'ai' : 'user',
+        content: row.content,
+        timestamp: new Date(row.created_at || 0),
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const assessment = await grade(roles, messages, authorization);
+
+    const { data: saved, error: saveError } = await admin
+      .from('skill_assessments')
+      .insert({
+        user_id: interview.user_id,
+        interview_id: interview.id,
+        skills: assessment.skills.map(skill => ({ name: skill.name, level: skill.level })),
+        strengths: assessment.strengths,
+        areas_of_improvement: assessment.areasOfImprovement,
+      })
+      .select(ASSESSMENT_SELECT)
+      .single();
+
+    // Another request assessed it first; the unique interview_id kept this one out
+    if (saveError?.code === '23505') {
+      const { data: existing, error: existingError } = await admin
+        .from('skill_assessments')
+        .select(ASSESSMENT_SELECT)
+        .eq('interview_id', interview.id)
+        .single();
+
+      if (existingError) throw existingError;
+      return json(existing);
+    }
+    if (saveError) throw saveError;
+
+    return json(saved);
+  } catch (error) {
+    console.error('assess-interview: Error assessing interview:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to assess interview' }, 500);
+  }
+});
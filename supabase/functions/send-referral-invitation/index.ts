@@ -0,0 +1,144 @@
+// Emails a friend the invitation for a referral the signed-in candidate
+// made. Each invitation is sent once, while nobody has signed up with it.
+//
+// Sends through Resend with the RESEND_API_KEY secret, from the address in
+// INVITATION_FROM_EMAIL, with replies going to the referrer. Sign-up links
+// point at SITE_URL.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+interface Invitation {
+  to: string;
+  refereeName: string | null;
+  referrerName: string;
+  companyName: string;
+  message: string | null;
+  link: string;
+}
+
+const invitationEmail = (invitation: Invitation) => {
+  const greeting = invitation.refereeName ? `Hi ${invitation.refereeName},` : 'Hi,';
+  const text = [
+    greeting,
+    '',
+    `I think you'd be a great fit at ${invitation.companyName}. Sign up with my referral link to get matched with their open roles:`,
+    invitation.link,
+    ...(invitation.message ? ['', invitation.message] : []),
+    '',
+    invitation.referrerName,
+  ].join('\n');
+
+  return {
+    subject: `${invitation.referrerName || 'A friend'} referred you to ${invitation.companyName}`,
+    text,
+  };
+};
+
+const sendEmail = async (apiKey: string, from: string, replyTo: string | undefined, invitation: Invitation) => {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({
+      from,
+      to: [invitation.to],
+      reply_to: replyTo,
+      ...invitationEmail(invitation),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Email request failed (${response.status})`);
+  }
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return json({ error: 'Sign in to send an invitation' }, 401);
+
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('INVITATION_FROM_EMAIL');
+  const siteUrl = Deno.env.get('SITE_URL');
+  if (!apiKey || !from || !siteUrl) {
+    console.error('send-referral-invitation: RESEND_API_KEY, INVITATION_FROM_EMAIL and SITE_URL have to be set');
+    return json({ error: "Invitation emails aren't set up yet" }, 503);
+  }
+
+  try {
+    const { referralId } = await req.json() as { referralId?: string };
+    if (!referralId) return json({ error: 'referralId is required' }, 400);
+
+    // Read as the candidate, so they can only send their own referrals
+    const candidate = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user }, error: userError } = await candidate.auth.getUser();
+    if (userError || !user) return json({ error: 'Sign in to send an invitation' }, 401);
+
+    // Recruiters can read every referral, so check it's the candidate's own
+    const { data: referral, error: referralError } = await candidate
+      .from('referrals')
+      .select('id, code, referee_email, referee_name, message, status, invitation_sent_at, company:companies (name)')
+      .eq('id', referralId)
+      .eq('referrer_id', user.id)
+      .maybeSingle();
+
+    if (referralError) throw referralError;
+    if (!referral) return json({ error: 'Referral not found' }, 404);
+    if (referral.status !== 'invited') return json({ error: 'Your friend has already signed up' }, 409);
+    if (referral.invitation_sent_at) return json({ error: 'This invitation has already been sent' }, 409);
+
+    const { data: profile, error: profileError } = await candidate
+      .from('profiles')
+      .select('full_name')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    // Mark it sent before sending, so a second request can't send it again
+    const { data: claimed, error: claimError } = await admin
+      .from('referrals')
+      .update({ invitation_sent_at: new Date().toISOString() })
+      .eq('id', referral.id)
+      .is('invitation_sent_at', null)
+      .select('invitation_sent_at')
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claimed) return json({ error: 'This invitation has already been sent' }, 409);
+
+    try {
+      await sendEmail(apiKey, from, user.email, {
+        to: referral.referee_email,
+        refereeName: referral.referee_name,
+        referrerName: profile?.full_name || '',
+        companyName: referral.company?.name || 'a company',
+        message: referral.message,
+        // REFERRAL_CODE_PARAM on the sign-up page
+        link: `${siteUrl.replace(/\/$/, '')}/signup?ref=${encodeURIComponent(referral.code)}`,
+      });
+    } catch (error) {
+      // Not sent after all, so it can be tried again
+      await admin.from('referrals').update({ invitation_sent_at: null }).eq('id', referral.id);
+      throw error;
+    }
+
+    return json({ invitationSentAt: claimed.invitation_sent_at });
+  } catch (error) {
+    console.error('send-referral-invitation: Error sending invitation:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to send invitation' }, 500);
+  }
+});
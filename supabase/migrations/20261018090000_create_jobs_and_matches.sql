@@ -0,0 +1,59 @@
+-- Companies, job postings and the per-candidate matches shown on the dashboard
+
+create table if not exists public.companies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  logo_url text,
+  location text,
+  description text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies (id) on delete cascade,
+  title text not null,
+  description text,
+  location text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.job_matches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  match_percentage integer not null default 0 check (match_percentage between 0 and 100),
+  status text not null default 'pending' check (status in ('pending', 'active', 'declined', 'accepted')),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, job_id)
+);
+
+create index if not exists job_matches_user_id_idx on public.job_matches (user_id);
+
+alter table public.companies enable row level security;
+alter table public.jobs enable row level security;
+alter table public.job_matches enable row level security;
+
+create policy "Companies are readable by signed-in users"
+  on public.companies for select
+  to authenticated
+  using (true);
+
+create policy "Jobs are readable by signed-in users"
+  on public.jobs for select
+  to authenticated
+  using (true);
+
+create policy "Candidates can read their own matches"
+  on public.job_matches for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can update their own matches"
+  on public.job_matches for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,17 @@
+-- Requirements the match scorer compares against a candidate profile
+
+alter table public.jobs
+  add column if not exists role_ids text[] not null default '{}',
+  add column if not exists locations text[] not null default '{}',
+  add column if not exists remote_policy text check (remote_policy in ('remote', 'hybrid', 'office')),
+  add column if not exists employment_type text check (employment_type in ('full_time', 'part_time', 'contract', 'internship')),
+  add column if not exists skills text[] not null default '{}';
+
+update public.jobs
+  set locations = array[location]
+  where location is not null and locations = '{}';
+
+alter table public.jobs drop column if exists location;
+
+alter table public.companies
+  add column if not exists stage text check (stage in ('early_stage', 'late_stage', 'enterprise'));
@@ -0,0 +1,67 @@
+-- AI interview sessions and their transcripts
+
+create table if not exists public.interviews (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  status text not null default 'scheduled' check (status in ('scheduled', 'in_progress', 'completed')),
+  role_ids text[] not null default '{}',
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists interviews_user_id_idx on public.interviews (user_id, created_at desc);
+
+create table if not exists public.interview_messages (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  sender text not null check (sender in ('ai', 'user')),
+  content text not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists interview_messages_interview_id_idx on public.interview_messages (interview_id, created_at);
+
+alter table public.interviews enable row level security;
+alter table public.interview_messages enable row level security;
+
+create policy "Candidates can read their own interviews"
+  on public.interviews for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can create their own interviews"
+  on public.interviews for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own interviews"
+  on public.interviews for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can read their own interview messages"
+  on public.interview_messages for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.interviews
+      where interviews.id = interview_messages.interview_id
+        and interviews.user_id = auth.uid()
+    )
+  );
+
+-- Transcripts are append-only, and only while the interview is still open
+create policy "Candidates can add messages to their open interviews"
+  on public.interview_messages for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.interviews
+      where interviews.id = interview_messages.interview_id
+        and interviews.user_id = auth.uid()
+        and interviews.status <> 'completed'
+    )
+  );
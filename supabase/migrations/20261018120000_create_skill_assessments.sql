@@ -0,0 +1,35 @@
+-- Skill assessments produced when an AI interview is completed
+
+create table if not exists public.skill_assessments (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid not null unique references public.interviews (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- [{ "name": "React", "level": 80 }, ...], levels 0-100
+  skills jsonb not null default '[]'::jsonb,
+  strengths text[] not null default '{}',
+  areas_of_improvement text[] not null default '{}',
+  created_at timestamptz default now()
+);
+
+create index if not exists skill_assessments_user_id_idx on public.skill_assessments (user_id, created_at desc);
+
+alter table public.skill_assessments enable row level security;
+
+create policy "Candidates can read their own assessments"
+  on public.skill_assessments for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Only completed interviews can be assessed
+create policy "Candidates can assess their own completed interviews"
+  on public.skill_assessments for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.interviews
+      where interviews.id = skill_assessments.interview_id
+        and interviews.user_id = auth.uid()
+        and interviews.status = 'completed'
+    )
+  );
@@ -0,0 +1,43 @@
+-- Candidate work history for the profile's experience section
+
+create table if not exists public.work_experiences (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  company text not null,
+  title text not null,
+  start_date date,
+  end_date date,
+  is_current boolean not null default false,
+  description text,
+  technologies text[] not null default '{}',
+  -- Display order within the candidate's profile
+  position integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (end_date is null or start_date is null or end_date >= start_date)
+);
+
+create index if not exists work_experiences_user_id_idx on public.work_experiences (user_id, position);
+
+alter table public.work_experiences enable row level security;
+
+create policy "Candidates can read their own work experience"
+  on public.work_experiences for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can add their own work experience"
+  on public.work_experiences for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own work experience"
+  on public.work_experiences for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can delete their own work experience"
+  on public.work_experiences for delete
+  to authenticated
+  using (auth.uid() = user_id);
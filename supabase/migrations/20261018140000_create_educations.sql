@@ -0,0 +1,48 @@
+-- Candidate education history and highest education level
+
+alter table public.user_preferences
+  add column if not exists education_level text;
+
+create table if not exists public.educations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  school text not null,
+  degree text not null,
+  field_of_study text,
+  -- Free-form MM/YYYY, as entered
+  start_date text,
+  end_date text,
+  is_current boolean not null default false,
+  gpa text,
+  honors text,
+  activities text,
+  -- Display order within the candidate's profile
+  position integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists educations_user_id_idx on public.educations (user_id, position);
+
+alter table public.educations enable row level security;
+
+create policy "Candidates can read their own education"
+  on public.educations for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can add their own education"
+  on public.educations for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own education"
+  on public.educations for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can delete their own education"
+  on public.educations for delete
+  to authenticated
+  using (auth.uid() = user_id);
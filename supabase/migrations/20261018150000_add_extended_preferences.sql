@@ -0,0 +1,22 @@
+-- Extended job preferences from the profile, and job salary ranges to score them against
+
+alter table public.user_preferences
+  add column if not exists work_environment text check (work_environment in ('remote', 'hybrid', 'onsite', 'flexible')),
+  add column if not exists salary_min integer check (salary_min >= 0),
+  add column if not exists salary_max integer check (salary_max >= 0),
+  add column if not exists travel_preference text check (travel_preference in ('none', 'minimal', 'moderate', 'frequent')),
+  add column if not exists company_size text[] not null default '{}',
+  add column if not exists industry_preferences text[] not null default '{}';
+
+alter table public.user_preferences
+  add constraint user_preferences_salary_range_check
+  check (salary_min is null or salary_max is null or salary_min <= salary_max);
+
+-- Annual base salary in USD
+alter table public.jobs
+  add column if not exists salary_min integer check (salary_min >= 0),
+  add column if not exists salary_max integer check (salary_max >= 0);
+
+alter table public.jobs
+  add constraint jobs_salary_range_check
+  check (salary_min is null or salary_max is null or salary_min <= salary_max);
@@ -0,0 +1,99 @@
+-- Named resumes with a version history, and the resume version sent with
+-- each application
+
+create table if not exists public.resumes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  is_primary boolean not null default false,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists resumes_user_id_idx on public.resumes (user_id);
+
+-- At most one primary resume per candidate
+create unique index if not exists resumes_one_primary_per_user_idx
+  on public.resumes (user_id)
+  where is_primary;
+
+create table if not exists public.resume_versions (
+  id uuid primary key default gen_random_uuid(),
+  resume_id uuid not null references public.resumes (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  version integer not null check (version > 0),
+  -- Path of the file within the resumes storage bucket
+  file_path text not null,
+  file_name text not null,
+  file_size integer,
+  mime_type text,
+  created_at timestamptz default now(),
+  unique (resume_id, version)
+);
+
+create index if not exists resume_versions_resume_id_idx on public.resume_versions (resume_id, version desc);
+
+-- Pin the exact version sent, so later uploads don't change what the
+-- employer received
+alter table public.job_matches
+  add column if not exists resume_version_id uuid references public.resume_versions (id) on delete set null;
+
+alter table public.resumes enable row level security;
+alter table public.resume_versions enable row level security;
+
+create policy "Candidates can read their own resumes"
+  on public.resumes for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can add their own resumes"
+  on public.resumes for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own resumes"
+  on public.resumes for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can delete their own resumes"
+  on public.resumes for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can read their own resume versions"
+  on public.resume_versions for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can add versions to their own resumes"
+  on public.resume_versions for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.resumes
+      where resumes.id = resume_versions.resume_id
+        and resumes.user_id = auth.uid()
+    )
+  );
+
+-- Candidates may only attach their own resumes to their matches
+drop policy if exists "Candidates can update their own matches" on public.job_matches;
+
+create policy "Candidates can update their own matches"
+  on public.job_matches for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      resume_version_id is null
+      or exists (
+        select 1 from public.resume_versions
+        where resume_versions.id = job_matches.resume_version_id
+          and resume_versions.user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,115 @@
+-- Resumes move to a private bucket. Files are only reachable through
+-- short-lived signed URLs, issued to the owner or to recruiters and admins.
+
+insert into storage.buckets (id, name, public)
+values ('resumes', 'resumes', false)
+on conflict (id) do update set public = false;
+
+insert into public.roles (name, description)
+select 'recruiter', 'Reviews candidates and their resumes'
+where not exists (select 1 from public.roles where name = 'recruiter');
+
+-- Whether the signed-in user has the named role. Security definer so
+-- policies can call it without read access to user_roles.
+create or replace function public.has_role(role_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.user_roles
+    join public.roles on roles.id = user_roles.role_id
+    where user_roles.user_id = auth.uid()
+      and roles.name = role_name
+  );
+$$;
+
+create or replace function public.can_review_resumes()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_role('recruiter') or public.has_role('admin');
+$$;
+
+-- New files live under the owner's id; files uploaded before versioning
+-- are matched on the uploader instead
+create policy "Candidates can read their own resume files"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'resumes'
+    and ((storage.foldername(name))[1] = auth.uid()::text or owner = auth.uid())
+  );
+
+create policy "Candidates can upload their own resume files"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'resumes'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Candidates can delete their own resume files"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'resumes'
+    and ((storage.foldername(name))[1] = auth.uid()::text or owner = auth.uid())
+  );
+
+create policy "Recruiters can read candidate resume files"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'resumes' and public.can_review_resumes());
+
+create policy "Recruiters can read candidate resumes"
+  on public.resumes for select
+  to authenticated
+  using (public.can_review_resumes());
+
+create policy "Recruiters can read candidate resume versions"
+  on public.resume_versions for select
+  to authenticated
+  using (public.can_review_resumes());
+
+-- Move resumes uploaded before versioning, whose public URL was kept in
+-- user_preferences.resume_url, into the resumes table. Links to resumes
+-- hosted elsewhere are left as they are.
+with legacy as (
+  select
+    user_id,
+    substring(resume_url from '/storage/v1/object/public/resumes/([^?#]+)') as file_path
+  from public.user_preferences
+  where resume_url like '%/storage/v1/object/public/resumes/%'
+),
+created as (
+  insert into public.resumes (user_id, name, is_primary)
+  select
+    legacy.user_id,
+    'Resume',
+    not exists (
+      select 1 from public.resumes
+      where resumes.user_id = legacy.user_id and resumes.is_primary
+    )
+  from legacy
+  returning id, user_id
+)
+insert into public.resume_versions (resume_id, user_id, version, file_path, file_name)
+select
+  created.id,
+  created.user_id,
+  1,
+  legacy.file_path,
+  regexp_replace(legacy.file_path, '^.*/', '')
+from created
+join legacy on legacy.user_id = created.user_id;
+
+update public.user_preferences
+set resume_url = null, updated_at = now()
+where resume_url like '%/storage/v1/object/public/resumes/%';
@@ -0,0 +1,89 @@
+-- Onboarding flows per role category. Each flow lists its steps in order,
+-- which of them are required, and the tier and required flag of each field
+-- a step shows. The app validates flows when it loads them and falls back
+-- to its built-in flow for any it can't use.
+
+create table if not exists public.onboarding_flows (
+  id uuid primary key default gen_random_uuid(),
+  -- Category from the role catalogue; null for the flow used by every
+  -- category without one of its own
+  role_category text,
+  -- [{ "id": step, "required": bool, "fields": [{ "id", "tier", "required" }] }]
+  steps jsonb not null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create unique index if not exists onboarding_flows_role_category_idx
+  on public.onboarding_flows (coalesce(role_category, ''));
+
+alter table public.onboarding_flows enable row level security;
+
+create policy "Onboarding flows are readable by signed-in users"
+  on public.onboarding_flows for select
+  to authenticated
+  using (true);
+
+insert into public.onboarding_flows (role_category, steps)
+values
+  (
+    null,
+    '[
+      { "id": "welcome", "required": false },
+      { "id": "personal", "required": true },
+      { "id": "roles", "required": true },
+      { "id": "experience", "required": false },
+      { "id": "preferences", "required": false },
+      { "id": "education", "required": false },
+      { "id": "resume", "required": false },
+      { "id": "complete", "required": false }
+    ]'
+  ),
+  (
+    'engineering',
+    '[
+      { "id": "welcome", "required": false },
+      { "id": "personal", "required": true },
+      { "id": "roles", "required": true },
+      {
+        "id": "github",
+        "required": false,
+        "fields": [
+          { "id": "github-profile", "tier": "essential", "required": true }
+        ]
+      },
+      {
+        "id": "experience",
+        "required": false,
+        "fields": [
+          { "id": "positions", "tier": "essential", "required": false },
+          { "id": "role-highlights", "tier": "important", "required": false },
+          { "id": "technologies", "tier": "essential", "required": false }
+        ]
+      },
+      { "id": "preferences", "required": false },
+      { "id": "resume", "required": false },
+      { "id": "complete", "required": false }
+    ]'
+  ),
+  (
+    'design',
+    '[
+      { "id": "welcome", "required": false },
+      { "id": "personal", "required": true },
+      { "id": "roles", "required": true },
+      {
+        "id": "portfolio",
+        "required": true,
+        "fields": [
+          { "id": "portfolio-link", "tier": "essential", "required": true }
+        ]
+      },
+      { "id": "experience", "required": false },
+      { "id": "preferences", "required": false },
+      { "id": "education", "required": false },
+      { "id": "resume", "required": false },
+      { "id": "complete", "required": false }
+    ]'
+  )
+on conflict do nothing;
@@ -0,0 +1,117 @@
+-- The role catalogue moves out of the app and into career_roles. Each role
+-- keeps the id the app gave it as its slug, so selected_roles and job
+-- role_ids stay valid. Admins add roles, retire them by setting retired_at,
+-- and merge them with merge_career_role().
+
+create table if not exists public.career_roles (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  category text,
+  description text,
+  -- 1 is the most popular
+  popularity_rank integer,
+  created_at timestamptz default now()
+);
+
+alter table public.career_roles
+  add column if not exists slug text,
+  add column if not exists retired_at timestamptz;
+
+-- Roles added before slugs existed get one from their title
+update public.career_roles
+  set slug = trim(both '_' from regexp_replace(lower(title), '[^a-z0-9]+', '_', 'g'))
+  where slug is null;
+
+alter table public.career_roles alter column slug set not null;
+
+create unique index if not exists career_roles_slug_idx on public.career_roles (slug);
+
+-- Set on a retired role whose candidates and jobs moved to another role
+alter table public.career_roles
+  add column if not exists merged_into text references public.career_roles (slug);
+
+alter table public.career_roles enable row level security;
+
+create policy "Career roles are readable by signed-in users"
+  on public.career_roles for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add career roles"
+  on public.career_roles for insert
+  to authenticated
+  with check (public.has_role('admin'));
+
+create policy "Admins can update career roles"
+  on public.career_roles for update
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+insert into public.career_roles (slug, title, category, popularity_rank)
+values
+  ('frontend', 'Frontend Engineer', 'engineering', 1),
+  ('fullstack', 'Full Stack Engineer', 'engineering', 2),
+  ('backend', 'Backend Engineer', 'engineering', 3),
+  ('pm', 'Product Manager', 'product', 4),
+  ('design', 'UX/UI Designer', 'design', 5),
+  ('data', 'Data Scientist', 'data', 6),
+  ('mobile', 'Mobile Developer', 'engineering', 7),
+  ('devops', 'DevOps / SRE', 'engineering', 8),
+  ('eng_manager', 'Engineering Manager', 'management', 9)
+on conflict (slug) do nothing;
+
+-- Retire a role in favour of another, moving candidates' selections and
+-- jobs' role lists over. The retired role keeps pointing at its
+-- replacement, so anything still holding its slug can be resolved.
+create or replace function public.merge_career_role(from_slug text, into_slug text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can merge career roles';
+  end if;
+
+  if from_slug = into_slug then
+    raise exception 'A career role cannot be merged into itself';
+  end if;
+
+  if not exists (select 1 from career_roles where slug = into_slug and retired_at is null) then
+    raise exception 'Career role % is not an active role', into_slug;
+  end if;
+
+  update career_roles
+    set retired_at = coalesce(retired_at, now()), merged_into = into_slug
+    where slug = from_slug;
+
+  if not found then
+    raise exception 'Career role % does not exist', from_slug;
+  end if;
+
+  -- Roles merged into this one earlier follow it
+  update career_roles
+    set merged_into = into_slug
+    where merged_into = from_slug;
+
+  update user_onboarding
+    set selected_roles = array(
+      select role
+      from unnest(array_replace(selected_roles, from_slug, into_slug)) with ordinality as selected(role, position)
+      group by role
+      order by min(position)
+    )
+    where from_slug = any(selected_roles);
+
+  update jobs
+    set role_ids = array(
+      select role
+      from unnest(array_replace(role_ids, from_slug, into_slug)) with ordinality as required(role, position)
+      group by role
+      order by min(position)
+    )
+    where from_slug = any(role_ids);
+end;
+$$;
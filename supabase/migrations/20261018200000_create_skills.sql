@@ -0,0 +1,192 @@
+-- Skills taxonomy and the skills candidates list on their profile. Aliases
+-- are other names a skill goes by ("React.js" for React), so what
+-- candidates, resumes and jobs call a skill resolves to one entry.
+
+create table if not exists public.skills (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  category text,
+  created_at timestamptz default now()
+);
+
+create unique index if not exists skills_name_idx on public.skills (lower(name));
+
+create table if not exists public.skill_aliases (
+  -- Stored lowercase, as it's matched
+  alias text primary key check (alias = lower(alias)),
+  skill_id uuid not null references public.skills (id) on delete cascade
+);
+
+create index if not exists skill_aliases_skill_id_idx on public.skill_aliases (skill_id);
+
+create table if not exists public.candidate_skills (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  skill_id uuid not null references public.skills (id) on delete cascade,
+  -- 1 (beginner) to 5 (expert)
+  proficiency smallint not null check (proficiency between 1 and 5),
+  years_experience numeric(4, 1) check (years_experience >= 0),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, skill_id)
+);
+
+alter table public.skills enable row level security;
+alter table public.skill_aliases enable row level security;
+alter table public.candidate_skills enable row level security;
+
+create policy "Skills are readable by signed-in users"
+  on public.skills for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add skills"
+  on public.skills for insert
+  to authenticated
+  with check (public.has_role('admin'));
+
+create policy "Admins can update skills"
+  on public.skills for update
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+create policy "Skill aliases are readable by signed-in users"
+  on public.skill_aliases for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add skill aliases"
+  on public.skill_aliases for insert
+  to authenticated
+  with check (public.has_role('admin'));
+
+create policy "Admins can delete skill aliases"
+  on public.skill_aliases for delete
+  to authenticated
+  using (public.has_role('admin'));
+
+create policy "Candidates can read their own skills"
+  on public.candidate_skills for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can add their own skills"
+  on public.candidate_skills for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own skills"
+  on public.candidate_skills for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can delete their own skills"
+  on public.candidate_skills for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Recruiters see a candidate's public profile: their basics, roles and skills
+create policy "Recruiters can read candidate skills"
+  on public.candidate_skills for select
+  to authenticated
+  using (public.can_review_resumes());
+
+create policy "Recruiters can read candidate profiles"
+  on public.profiles for select
+  to authenticated
+  using (public.can_review_resumes());
+
+create policy "Recruiters can read candidate roles"
+  on public.user_onboarding for select
+  to authenticated
+  using (public.can_review_resumes());
+
+insert into public.skills (name, category)
+values
+  ('JavaScript', 'languages'),
+  ('TypeScript', 'languages'),
+  ('Python', 'languages'),
+  ('Java', 'languages'),
+  ('Go', 'languages'),
+  ('Rust', 'languages'),
+  ('Ruby', 'languages'),
+  ('Swift', 'languages'),
+  ('Kotlin', 'languages'),
+  ('SQL', 'languages'),
+  ('HTML', 'frontend'),
+  ('CSS', 'frontend'),
+  ('React', 'frontend'),
+  ('Vue', 'frontend'),
+  ('Angular', 'frontend'),
+  ('Tailwind CSS', 'frontend'),
+  ('Node.js', 'backend'),
+  ('Django', 'backend'),
+  ('Ruby on Rails', 'backend'),
+  ('GraphQL', 'backend'),
+  ('REST APIs', 'backend'),
+  ('PostgreSQL', 'data'),
+  ('MySQL', 'data'),
+  ('MongoDB', 'data'),
+  ('Redis', 'data'),
+  ('Machine Learning', 'data'),
+  ('Pandas', 'data'),
+  ('TensorFlow', 'data'),
+  ('PyTorch', 'data'),
+  ('AWS', 'infrastructure'),
+  ('Google Cloud', 'infrastructure'),
+  ('Azure', 'infrastructure'),
+  ('Docker', 'infrastructure'),
+  ('Kubernetes', 'infrastructure'),
+  ('Terraform', 'infrastructure'),
+  ('CI/CD', 'infrastructure'),
+  ('React Native', 'mobile'),
+  ('Flutter', 'mobile'),
+  ('Figma', 'design'),
+  ('User Research', 'design'),
+  ('Prototyping', 'design'),
+  ('Product Strategy', 'product'),
+  ('Roadmapping', 'product'),
+  ('Agile', 'product'),
+  ('Team Leadership', 'leadership')
+on conflict do nothing;
+
+insert into public.skill_aliases (alias, skill_id)
+select aliases.alias, skills.id
+from (
+  values
+    ('js', 'JavaScript'),
+    ('ecmascript', 'JavaScript'),
+    ('ts', 'TypeScript'),
+    ('golang', 'Go'),
+    ('html5', 'HTML'),
+    ('css3', 'CSS'),
+    ('react.js', 'React'),
+    ('reactjs', 'React'),
+    ('vue.js', 'Vue'),
+    ('vuejs', 'Vue'),
+    ('angularjs', 'Angular'),
+    ('tailwind', 'Tailwind CSS'),
+    ('node', 'Node.js'),
+    ('nodejs', 'Node.js'),
+    ('rails', 'Ruby on Rails'),
+    ('ror', 'Ruby on Rails'),
+    ('rest', 'REST APIs'),
+    ('restful apis', 'REST APIs'),
+    ('postgres', 'PostgreSQL'),
+    ('psql', 'PostgreSQL'),
+    ('mongo', 'MongoDB'),
+    ('ml', 'Machine Learning'),
+    ('amazon web services', 'AWS'),
+    ('gcp', 'Google Cloud'),
+    ('google cloud platform', 'Google Cloud'),
+    ('microsoft azure', 'Azure'),
+    ('k8s', 'Kubernetes'),
+    ('continuous integration', 'CI/CD'),
+    ('ux research', 'User Research'),
+    ('scrum', 'Agile'),
+    ('people management', 'Team Leadership')
+) as aliases (alias, skill_name)
+join public.skills on lower(skills.name) = lower(aliases.skill_name)
+on conflict do nothing;
@@ -0,0 +1,45 @@
+-- How senior a candidate is in each role they selected, and the level a job
+-- is hiring at, so matching can flag seniority mismatches
+
+create table if not exists public.candidate_role_seniority (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- A career_roles slug from the candidate's selected_roles
+  role_id text not null,
+  level text not null check (level in ('entry', 'mid', 'senior', 'lead')),
+  years_experience numeric(4, 1) check (years_experience >= 0),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, role_id)
+);
+
+alter table public.candidate_role_seniority enable row level security;
+
+create policy "Candidates can read their own seniority"
+  on public.candidate_role_seniority for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can add their own seniority"
+  on public.candidate_role_seniority for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own seniority"
+  on public.candidate_role_seniority for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can delete their own seniority"
+  on public.candidate_role_seniority for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Recruiters can read candidate seniority"
+  on public.candidate_role_seniority for select
+  to authenticated
+  using (public.can_review_resumes());
+
+alter table public.jobs
+  add column if not exists seniority text check (seniority in ('entry', 'mid', 'senior', 'lead'));
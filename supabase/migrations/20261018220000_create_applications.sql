@@ -0,0 +1,98 @@
+-- A candidate's applications to jobs, from saving a job through to an offer.
+-- Each stage has a timestamp recording when the application last entered it.
+
+create table if not exists public.applications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  stage text not null default 'saved'
+    check (stage in ('saved', 'applied', 'screening', 'interviewing', 'offer', 'rejected', 'withdrawn')),
+  resume_version_id uuid references public.resume_versions (id) on delete set null,
+  cover_note text,
+  saved_at timestamptz,
+  applied_at timestamptz,
+  screening_at timestamptz,
+  interviewing_at timestamptz,
+  offer_at timestamptz,
+  rejected_at timestamptz,
+  withdrawn_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, job_id)
+);
+
+create index if not exists applications_user_id_idx on public.applications (user_id, updated_at desc);
+
+alter table public.applications enable row level security;
+
+-- Candidates save, apply and withdraw; the stages in between are moved by recruiters
+create policy "Candidates can read their own applications"
+  on public.applications for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can save or apply to jobs"
+  on public.applications for insert
+  to authenticated
+  with check (auth.uid() = user_id and stage in ('saved', 'applied'));
+
+create policy "Candidates can apply to saved jobs and withdraw"
+  on public.applications for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and stage in ('saved', 'applied', 'withdrawn'));
+
+create policy "Candidates can unsave jobs"
+  on public.applications for delete
+  to authenticated
+  using (auth.uid() = user_id and stage = 'saved');
+
+create policy "Recruiters can read applications"
+  on public.applications for select
+  to authenticated
+  using (public.can_review_resumes());
+
+create policy "Recruiters can move applications through the pipeline"
+  on public.applications for update
+  to authenticated
+  using (public.can_review_resumes())
+  with check (public.can_review_resumes());
+
+-- Apply the signed-in candidate to a job. Safe to call again: a saved or
+-- withdrawn application moves to applied, and one that's already further
+-- along is left as it is. Returns the application's id.
+create or replace function public.apply_to_job(target_job_id uuid, resume_version uuid, note text)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  application_id uuid;
+begin
+  if resume_version is not null and not exists (
+    select 1 from resume_versions where id = resume_version and user_id = auth.uid()
+  ) then
+    raise exception 'Resume version % does not belong to you', resume_version;
+  end if;
+
+  insert into applications (user_id, job_id, stage, resume_version_id, cover_note, applied_at)
+    values (auth.uid(), target_job_id, 'applied', resume_version, nullif(trim(note), ''), now())
+    on conflict (user_id, job_id) do update
+      set stage = 'applied',
+        resume_version_id = excluded.resume_version_id,
+        cover_note = excluded.cover_note,
+        applied_at = excluded.applied_at,
+        updated_at = now()
+      where applications.stage in ('saved', 'withdrawn')
+    returning id into application_id;
+
+  if application_id is null then
+    select id into application_id
+      from applications
+      where user_id = auth.uid() and job_id = target_job_id;
+  end if;
+
+  return application_id;
+end;
+$$;
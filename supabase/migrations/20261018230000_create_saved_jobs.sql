@@ -0,0 +1,201 @@
+-- Saved jobs, grouped into lists, and the alerts candidates get when a job
+-- they saved changes. detect_saved_job_changes() compares each saved job
+-- against a snapshot of it and raises an alert for what's different.
+
+alter table public.jobs
+  add column if not exists status text not null default 'open' check (status in ('open', 'paused', 'closed'));
+
+create table if not exists public.saved_job_lists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create unique index if not exists saved_job_lists_name_idx on public.saved_job_lists (user_id, lower(name));
+
+create table if not exists public.saved_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  -- null for jobs that aren't in a list
+  list_id uuid references public.saved_job_lists (id) on delete set null,
+  -- The watched fields as of the last check, see job_watch_snapshot().
+  -- null until the first check, which records it without raising alerts.
+  snapshot jsonb,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, job_id)
+);
+
+create index if not exists saved_jobs_user_id_idx on public.saved_jobs (user_id, created_at desc);
+
+create table if not exists public.job_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  kind text not null check (kind in ('status', 'compensation', 'requirements', 'closed')),
+  -- Each changed field with its value before and after: { field: { before, after } }
+  changes jsonb not null default '{}',
+  read_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists job_alerts_user_id_idx on public.job_alerts (user_id, created_at desc);
+
+alter table public.saved_job_lists enable row level security;
+alter table public.saved_jobs enable row level security;
+alter table public.job_alerts enable row level security;
+
+create policy "Candidates can read their own saved job lists"
+  on public.saved_job_lists for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can create their own saved job lists"
+  on public.saved_job_lists for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own saved job lists"
+  on public.saved_job_lists for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can delete their own saved job lists"
+  on public.saved_job_lists for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can read their own saved jobs"
+  on public.saved_jobs for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can save jobs"
+  on public.saved_jobs for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can update their own saved jobs"
+  on public.saved_jobs for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Candidates can unsave jobs"
+  on public.saved_jobs for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Alerts are raised by detect_saved_job_changes(); candidates only read and dismiss them
+create policy "Candidates can read their own job alerts"
+  on public.job_alerts for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Candidates can mark their own job alerts read"
+  on public.job_alerts for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Saving used to be an application stage; those saves move to saved_jobs
+insert into public.saved_jobs (user_id, job_id, created_at)
+  select user_id, job_id, coalesce(saved_at, created_at)
+  from public.applications
+  where stage = 'saved'
+on conflict (user_id, job_id) do nothing;
+
+delete from public.applications where stage = 'saved';
+
+-- The fields of a job that candidates are alerted about
+create or replace function public.job_watch_snapshot(job public.jobs)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'status', job.status,
+    'salary_min', job.salary_min,
+    'salary_max', job.salary_max,
+    'role_ids', to_jsonb(job.role_ids),
+    'locations', to_jsonb(job.locations),
+    'remote_policy', job.remote_policy,
+    'employment_type', job.employment_type,
+    'seniority', job.seniority,
+    'skills', to_jsonb(job.skills)
+  );
+$$;
+
+-- Raise an alert for every saved job that changed since the last check, one
+-- per kind of change, and move its snapshot forward. A job moving to
+-- closed raises a closed alert rather than a status one. Returns the number
+-- of alerts raised.
+create or replace function public.detect_saved_job_changes()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  alert_count integer;
+begin
+  -- Newly saved jobs start from how the job is now
+  update saved_jobs
+    set snapshot = job_watch_snapshot(jobs), updated_at = now()
+    from jobs
+    where jobs.id = saved_jobs.job_id
+      and saved_jobs.snapshot is null;
+
+  with changed as (
+    select saved_jobs.id, saved_jobs.user_id, saved_jobs.job_id, saved_jobs.snapshot,
+      job_watch_snapshot(jobs) as current
+    from saved_jobs
+    join jobs on jobs.id = saved_jobs.job_id
+    where saved_jobs.snapshot is distinct from job_watch_snapshot(jobs)
+  ),
+  changed_fields as (
+    select changed.user_id, changed.job_id, field.key, changed.snapshot -> field.key as before, field.value as after,
+      case
+        when field.key = 'status' and field.value = '"closed"' then 'closed'
+        when field.key = 'status' then 'status'
+        when field.key in ('salary_min', 'salary_max') then 'compensation'
+        else 'requirements'
+      end as kind
+    from changed
+    cross join lateral jsonb_each(changed.current) as field
+    where changed.snapshot -> field.key is distinct from field.value
+  ),
+  advanced as (
+    update saved_jobs
+      set snapshot = changed.current, updated_at = now()
+      from changed
+      where saved_jobs.id = changed.id
+  ),
+  raised as (
+    insert into job_alerts (user_id, job_id, kind, changes)
+      select user_id, job_id, kind, jsonb_object_agg(key, jsonb_build_object('before', before, 'after', after))
+      from changed_fields
+      group by user_id, job_id, kind
+      returning 1
+  )
+  select count(*) into alert_count from raised;
+
+  return alert_count;
+end;
+$$;
+
+revoke execute on function public.detect_saved_job_changes() from public, anon, authenticated;
+
+-- Check for changes every 15 minutes where pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule('detect-saved-job-changes', '*/15 * * * *', 'select public.detect_saved_job_changes()');
+  end if;
+end;
+$$;
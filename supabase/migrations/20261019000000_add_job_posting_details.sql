@@ -0,0 +1,73 @@
+-- What a job posting shows candidates beyond the requirements the scorer
+-- uses: experience range, the currency of its compensation band,
+-- requirements, nice-to-haves, benefits and when it was posted and closes
+
+alter table public.jobs
+  add column if not exists experience_min_years smallint check (experience_min_years >= 0),
+  add column if not exists experience_max_years smallint check (experience_max_years >= 0),
+  -- ISO 4217 code for salary_min and salary_max
+  add column if not exists salary_currency text not null default 'USD' check (salary_currency ~ '^[A-Z]{3}$'),
+  add column if not exists requirements text[] not null default '{}',
+  add column if not exists nice_to_haves text[] not null default '{}',
+  add column if not exists benefits text[] not null default '{}',
+  add column if not exists posted_at timestamptz default now(),
+  add column if not exists closes_at timestamptz;
+
+alter table public.jobs
+  add constraint jobs_experience_range_check
+    check (experience_min_years is null or experience_max_years is null or experience_min_years <= experience_max_years);
+
+update public.jobs
+  set posted_at = created_at
+  where created_at is not null;
+
+-- Candidates who saved a job are alerted about these fields too. The
+-- listed requirements and experience range are requirements changes, the
+-- currency a compensation one. A job whose closing date has passed counts
+-- as closed, so now() makes this stable rather than immutable.
+create or replace function public.job_watch_snapshot(job public.jobs)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'status', case when job.closes_at <= now() then 'closed' else job.status end,
+    'salary_min', job.salary_min,
+    'salary_max', job.salary_max,
+    'salary_currency', job.salary_currency,
+    'role_ids', to_jsonb(job.role_ids),
+    'locations', to_jsonb(job.locations),
+    'remote_policy', job.remote_policy,
+    'employment_type', job.employment_type,
+    'seniority', job.seniority,
+    'skills', to_jsonb(job.skills),
+    'requirements', to_jsonb(job.requirements),
+    'experience_min_years', job.experience_min_years,
+    'experience_max_years', job.experience_max_years,
+    'closes_at', job.closes_at
+  );
+$$;
+
+-- Existing snapshots take the new fields as they are now, so the next
+-- update doesn't alert about every one of them
+update public.saved_jobs
+  set snapshot = public.job_watch_snapshot(jobs) || saved_jobs.snapshot
+  from public.jobs
+  where jobs.id = saved_jobs.job_id
+    and saved_jobs.snapshot is not null;
+
+-- A closing date passing doesn't update the job by itself, so close jobs
+-- past theirs every 15 minutes where pg_cron is available. Closing them
+-- raises the closed alerts for their saves.
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule(
+      'close-expired-jobs',
+      '*/15 * * * *',
+      $job$update public.jobs set status = 'closed', updated_at = now() where status <> 'closed' and closes_at <= now()$job$
+    );
+  end if;
+end;
+$$;
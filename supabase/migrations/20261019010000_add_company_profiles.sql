@@ -0,0 +1,17 @@
+-- What a company's profile page shows beyond its name, logo, location,
+-- description and stage: headcount, industry, funding, tech stack and
+-- culture notes
+
+alter table public.companies
+  -- The same buckets as user_preferences.company_size
+  add column if not exists size text check (size in ('startup', 'small', 'midsize', 'large')),
+  add column if not exists industry text,
+  add column if not exists funding_round text check (
+    funding_round in ('bootstrapped', 'pre_seed', 'seed', 'series_a', 'series_b', 'series_c', 'series_d_plus', 'public')
+  ),
+  -- Total raised to date, in USD
+  add column if not exists funding_total bigint check (funding_total >= 0),
+  add column if not exists tech_stack text[] not null default '{}',
+  add column if not exists culture_notes text[] not null default '{}';
+
+create index if not exists jobs_company_id_status_idx on public.jobs (company_id, status);
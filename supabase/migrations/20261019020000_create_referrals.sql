@@ -0,0 +1,197 @@
+-- Candidates referring friends to portfolio companies. Each referral has a
+-- code the friend signs up with; once they do, the referral follows them
+-- through being matched with, and applying to, one of the company's jobs.
+
+create table if not exists public.referrals (
+  id uuid primary key default gen_random_uuid(),
+  referrer_id uuid not null references public.profiles (id) on delete cascade,
+  company_id uuid not null references public.companies (id) on delete cascade,
+  code text not null unique default upper(substr(md5(gen_random_uuid()::text), 1, 10)),
+  referee_email text not null check (referee_email ~ '^[^@\s]+@[^@\s]+$'),
+  referee_name text,
+  message text,
+  -- Set when the friend signs up with the code
+  referee_id uuid references public.profiles (id) on delete set null,
+  status text not null default 'invited' check (status in ('invited', 'signed_up', 'matched', 'applied')),
+  signed_up_at timestamptz,
+  matched_at timestamptz,
+  applied_at timestamptz,
+  -- The match and application the referral was credited for
+  job_match_id uuid references public.job_matches (id) on delete set null,
+  application_id uuid references public.applications (id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- One referral per friend per company
+create unique index if not exists referrals_referrer_company_email_idx
+  on public.referrals (referrer_id, company_id, lower(referee_email));
+
+create index if not exists referrals_referrer_id_idx on public.referrals (referrer_id, created_at desc);
+create index if not exists referrals_referee_id_idx on public.referrals (referee_id);
+
+alter table public.referrals enable row level security;
+
+-- Referees and their progress are filled in by the functions below
+create policy "Candidates can read their own referrals"
+  on public.referrals for select
+  to authenticated
+  using (auth.uid() = referrer_id);
+
+create policy "Candidates can refer friends"
+  on public.referrals for insert
+  to authenticated
+  with check (auth.uid() = referrer_id and status = 'invited' and referee_id is null);
+
+create policy "Candidates can cancel unclaimed referrals"
+  on public.referrals for delete
+  to authenticated
+  using (auth.uid() = referrer_id and status = 'invited');
+
+create policy "Recruiters can read referrals"
+  on public.referrals for select
+  to authenticated
+  using (public.can_review_resumes());
+
+-- Move a claimed referral forward to the furthest its referee has got with
+-- the company: applied to one of its jobs, matched with one, or signed up.
+-- Never moves a referral back.
+create or replace function public.refresh_referral(target_referral_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  referral referrals;
+  match_id uuid;
+  matched timestamptz;
+  credited_application_id uuid;
+  applied timestamptz;
+begin
+  select * into referral from referrals where id = target_referral_id;
+  if referral.referee_id is null then
+    return;
+  end if;
+
+  select job_matches.id, job_matches.created_at into match_id, matched
+    from job_matches
+    join jobs on jobs.id = job_matches.job_id
+    where job_matches.user_id = referral.referee_id and jobs.company_id = referral.company_id
+    order by job_matches.created_at
+    limit 1;
+
+  select applications.id, applications.applied_at into credited_application_id, applied
+    from applications
+    join jobs on jobs.id = applications.job_id
+    where applications.user_id = referral.referee_id
+      and jobs.company_id = referral.company_id
+      and applications.applied_at is not null
+    order by applications.applied_at
+    limit 1;
+
+  update referrals
+    set job_match_id = coalesce(referrals.job_match_id, match_id),
+      matched_at = coalesce(referrals.matched_at, matched),
+      application_id = coalesce(referrals.application_id, credited_application_id),
+      applied_at = coalesce(referrals.applied_at, applied),
+      status = case
+        when referrals.status = 'applied' or applied is not null then 'applied'
+        when referrals.status = 'matched' or matched is not null then 'matched'
+        else referrals.status
+      end,
+      updated_at = now()
+    where id = referral.id;
+end;
+$$;
+
+revoke execute on function public.refresh_referral(uuid) from public, anon, authenticated;
+
+-- Attach the signed-in candidate to the referral with this code. Only a
+-- referral nobody has claimed can be claimed, only by an account created
+-- after the friend was invited, and never by the referrer. Claiming the
+-- same code again is a no-op. Returns whether the code is now the caller's.
+create or replace function public.claim_referral(referral_code text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  referral referrals;
+  signed_up timestamptz;
+begin
+  select * into referral from referrals where code = upper(trim(referral_code));
+  if referral.id is null then
+    return false;
+  end if;
+
+  if referral.referee_id is not null then
+    return referral.referee_id = auth.uid();
+  end if;
+
+  select created_at into signed_up from auth.users where id = auth.uid();
+  if auth.uid() = referral.referrer_id or signed_up is null or signed_up < referral.created_at then
+    return false;
+  end if;
+
+  update referrals
+    set referee_id = auth.uid(), status = 'signed_up', signed_up_at = now(), updated_at = now()
+    where id = referral.id;
+
+  perform refresh_referral(referral.id);
+  return true;
+end;
+$$;
+
+revoke execute on function public.claim_referral(text) from public, anon;
+grant execute on function public.claim_referral(text) to authenticated;
+
+-- Who sent an invitation and for which company, shown on the sign-up page.
+-- Only unclaimed codes are looked up.
+create or replace function public.get_referral_invite(referral_code text)
+returns table (referrer_name text, company_name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select split_part(coalesce(profiles.full_name, ''), ' ', 1), companies.name
+    from referrals
+    join profiles on profiles.id = referrals.referrer_id
+    join companies on companies.id = referrals.company_id
+    where referrals.code = upper(trim(referral_code))
+      and referrals.referee_id is null;
+$$;
+
+revoke execute on function public.get_referral_invite(text) from public;
+grant execute on function public.get_referral_invite(text) to anon, authenticated;
+
+-- Credit referrals as their referees are matched with, and apply to, the
+-- referred company's jobs
+create or replace function public.credit_referrals()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform refresh_referral(referrals.id)
+    from referrals
+    join jobs on jobs.company_id = referrals.company_id
+    where referrals.referee_id = new.user_id
+      and jobs.id = new.job_id
+      and referrals.status <> 'applied';
+  return new;
+end;
+$$;
+
+create trigger job_matches_credit_referrals
+  after insert on public.job_matches
+  for each row execute function public.credit_referrals();
+
+create trigger applications_credit_referrals
+  after insert or update of applied_at on public.applications
+  for each row
+  when (new.applied_at is not null)
+  execute function public.credit_referrals();
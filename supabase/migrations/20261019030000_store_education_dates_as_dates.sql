@@ -0,0 +1,9 @@
+-- Store education dates as dates, like work experience, rather than the
+-- MM/YYYY text they were entered as. Anything that isn't a valid month
+-- can't be converted and is cleared.
+
+alter table public.educations
+  alter column start_date type date
+    using case when start_date ~ '^\s*(0?[1-9]|1[0-2])/\d{4}\s*$' then to_date(trim(start_date), 'MM/YYYY') end,
+  alter column end_date type date
+    using case when end_date ~ '^\s*(0?[1-9]|1[0-2])/\d{4}\s*$' then to_date(trim(end_date), 'MM/YYYY') end;
@@ -0,0 +1,42 @@
+-- Recruiters could read every column of a candidate's profile and
+-- onboarding rows, including their email and phone number. Replace those
+-- policies with a function returning only what the public profile shows.
+
+drop policy if exists "Recruiters can read candidate profiles" on public.profiles;
+drop policy if exists "Recruiters can read candidate roles" on public.user_onboarding;
+
+-- A candidate's public profile: their basics and the roles they selected.
+-- Candidates can load their own; recruiters can load anyone's.
+create or replace function public.get_candidate_profile(candidate_id uuid)
+returns table (
+  id uuid,
+  full_name text,
+  avatar_url text,
+  location text,
+  linkedin_url text,
+  github_url text,
+  website_url text,
+  selected_roles text[]
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    profiles.id,
+    profiles.full_name,
+    profiles.avatar_url,
+    profiles.location,
+    profiles.linkedin_url,
+    profiles.github_url,
+    profiles.website_url,
+    coalesce(user_onboarding.selected_roles, '{}')
+  from profiles
+  left join user_onboarding on user_onboarding.user_id = profiles.id
+  where profiles.id = candidate_id
+    and (auth.uid() = candidate_id or can_review_resumes());
+$$;
+
+revoke execute on function public.get_candidate_profile(uuid) from public, anon;
+grant execute on function public.get_candidate_profile(uuid) to authenticated;
@@ -0,0 +1,78 @@
+-- Candidates could update their applications directly, setting any stage
+-- back to applied and writing any of the stage timestamps. Their changes
+-- now go through functions that check the application's current stage.
+
+drop policy if exists "Candidates can save or apply to jobs" on public.applications;
+drop policy if exists "Candidates can apply to saved jobs and withdraw" on public.applications;
+
+-- Apply the signed-in candidate to a job. Safe to call again: a saved or
+-- withdrawn application moves to applied, and one that's already further
+-- along is left as it is. Returns the application's id.
+create or replace function public.apply_to_job(target_job_id uuid, resume_version uuid, note text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  application_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to apply';
+  end if;
+
+  if resume_version is not null and not exists (
+    select 1 from resume_versions where id = resume_version and user_id = auth.uid()
+  ) then
+    raise exception 'Resume version % does not belong to you', resume_version;
+  end if;
+
+  insert into applications (user_id, job_id, stage, resume_version_id, cover_note, applied_at)
+    values (auth.uid(), target_job_id, 'applied', resume_version, nullif(trim(note), ''), now())
+    on conflict (user_id, job_id) do update
+      set stage = 'applied',
+        resume_version_id = excluded.resume_version_id,
+        cover_note = excluded.cover_note,
+        applied_at = excluded.applied_at,
+        updated_at = now()
+      where applications.stage in ('saved', 'withdrawn')
+    returning id into application_id;
+
+  if application_id is null then
+    select id into application_id
+      from applications
+      where user_id = auth.uid() and job_id = target_job_id;
+  end if;
+
+  return application_id;
+end;
+$$;
+
+revoke execute on function public.apply_to_job(uuid, uuid, text) from public, anon;
+grant execute on function public.apply_to_job(uuid, uuid, text) to authenticated;
+
+-- Withdraw one of the signed-in candidate's applications that's still in
+-- the pipeline
+create or replace function public.withdraw_application(target_application_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update applications
+    set stage = 'withdrawn',
+      withdrawn_at = now(),
+      updated_at = now()
+    where id = target_application_id
+      and user_id = auth.uid()
+      and stage in ('applied', 'screening', 'interviewing', 'offer');
+
+  if not found then
+    raise exception 'This application can''t be withdrawn';
+  end if;
+end;
+$$;
+
+revoke execute on function public.withdraw_application(uuid) from public, anon;
+grant execute on function public.withdraw_application(uuid) to authenticated;
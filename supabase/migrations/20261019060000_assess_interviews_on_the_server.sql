@@ -0,0 +1,5 @@
+-- Candidates inserted their own skill assessments, graded in the browser,
+-- so they could write any levels they liked. Assessments are now graded
+-- and saved by the assess-interview edge function.
+
+drop policy if exists "Candidates can assess their own completed interviews" on public.skill_assessments;
@@ -0,0 +1,52 @@
+-- Candidates could update their interviews freely, moving them to any
+-- status and writing any timestamps. Interviews are now only created
+-- scheduled, statuses only move forward (scheduled → in_progress →
+-- completed), and the status timestamps are set here when they do.
+
+drop policy if exists "Candidates can create their own interviews" on public.interviews;
+
+create policy "Candidates can schedule their own interviews"
+  on public.interviews for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and status = 'scheduled'
+    and started_at is null
+    and completed_at is null
+  );
+
+create or replace function public.enforce_interview_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.user_id is distinct from old.user_id
+    or new.role_ids is distinct from old.role_ids
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Only an interview''s status can be changed';
+  end if;
+
+  if new.status <> old.status and not (
+    (old.status = 'scheduled' and new.status = 'in_progress')
+    or (old.status = 'in_progress' and new.status = 'completed')
+  ) then
+    raise exception 'An interview can''t move from % to %', old.status, new.status;
+  end if;
+
+  new.started_at := case
+    when new.status <> old.status and new.status = 'in_progress' then now()
+    else old.started_at
+  end;
+  new.completed_at := case
+    when new.status <> old.status and new.status = 'completed' then now()
+    else old.completed_at
+  end;
+
+  return new;
+end;
+$$;
+
+create trigger interviews_enforce_status
+  before update on public.interviews
+  for each row execute function public.enforce_interview_status();
@@ -0,0 +1,147 @@
+-- Saved job alerts were raised by a pg_cron job, so without pg_cron they
+-- were never raised at all, and a saved job had no snapshot to compare
+-- against until the first run. Alerts are now raised as soon as a job is
+-- updated, and saved jobs take their snapshot when they're saved.
+--
+-- Also removes the 'saved' application stage, unused since saved jobs got
+-- their own table.
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.unschedule(jobid) from cron.job where jobname = 'detect-saved-job-changes';
+  end if;
+end;
+$$;
+
+drop function if exists public.detect_saved_job_changes();
+
+-- Saved jobs start from how the job is when they're saved
+create or replace function public.snapshot_saved_job()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  select job_watch_snapshot(jobs) into new.snapshot from jobs where jobs.id = new.job_id;
+  return new;
+end;
+$$;
+
+create trigger saved_jobs_snapshot
+  before insert on public.saved_jobs
+  for each row execute function public.snapshot_saved_job();
+
+update public.saved_jobs
+  set snapshot = public.job_watch_snapshot(jobs), updated_at = now()
+  from public.jobs
+  where jobs.id = saved_jobs.job_id
+    and saved_jobs.snapshot is null;
+
+comment on column public.saved_jobs.snapshot is
+  'The watched fields as of the last alert, see job_watch_snapshot(). Set when the job is saved.';
+
+-- Raise an alert for every save of the job whose watched fields changed,
+-- one per kind of change, and move the saves' snapshots forward. A job
+-- moving to closed raises a closed alert rather than a status one.
+create or replace function public.alert_saved_job_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with changed as (
+    select saved_jobs.id, saved_jobs.user_id, saved_jobs.job_id, saved_jobs.snapshot,
+      job_watch_snapshot(new) as current
+    from saved_jobs
+    where saved_jobs.job_id = new.id
+      and saved_jobs.snapshot is distinct from job_watch_snapshot(new)
+  ),
+  changed_fields as (
+    select changed.user_id, changed.job_id, field.key, changed.snapshot -> field.key as before, field.value as after,
+      case
+        when field.key = 'status' and field.value = '"closed"' then 'closed'
+        when field.key in ('status', 'closes_at') then 'status'
+        when field.key in ('salary_min', 'salary_max', 'salary_currency') then 'compensation'
+        else 'requirements'
+      end as kind
+    from changed
+    cross join lateral jsonb_each(changed.current) as field
+    where changed.snapshot -> field.key is distinct from field.value
+  ),
+  advanced as (
+    update saved_jobs
+      set snapshot = changed.current, updated_at = now()
+      from changed
+      where saved_jobs.id = changed.id
+  )
+  insert into job_alerts (user_id, job_id, kind, changes)
+    select user_id, job_id, kind, jsonb_object_agg(key, jsonb_build_object('before', before, 'after', after))
+    from changed_fields
+    group by user_id, job_id, kind;
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.alert_saved_job_changes() from public, anon, authenticated;
+
+create trigger jobs_alert_saved_job_changes
+  after update on public.jobs
+  for each row execute function public.alert_saved_job_changes();
+
+-- The 'saved' stage
+delete from public.applications where stage = 'saved';
+
+drop policy if exists "Candidates can unsave jobs" on public.applications;
+
+alter table public.applications
+  drop constraint if exists applications_stage_check,
+  add constraint applications_stage_check
+    check (stage in ('applied', 'screening', 'interviewing', 'offer', 'rejected', 'withdrawn')),
+  alter column stage set default 'applied',
+  drop column if exists saved_at;
+
+-- Apply the signed-in candidate to a job. Safe to call again: a withdrawn
+-- application moves back to applied, and one that's still in the pipeline
+-- is left as it is. Returns the application's id.
+create or replace function public.apply_to_job(target_job_id uuid, resume_version uuid, note text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  application_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to apply';
+  end if;
+
+  if resume_version is not null and not exists (
+    select 1 from resume_versions where id = resume_version and user_id = auth.uid()
+  ) then
+    raise exception 'Resume version % does not belong to you', resume_version;
+  end if;
+
+  insert into applications (user_id, job_id, stage, resume_version_id, cover_note, applied_at)
+    values (auth.uid(), target_job_id, 'applied', resume_version, nullif(trim(note), ''), now())
+    on conflict (user_id, job_id) do update
+      set stage = 'applied',
+        resume_version_id = excluded.resume_version_id,
+        cover_note = excluded.cover_note,
+        applied_at = excluded.applied_at,
+        updated_at = now()
+      where applications.stage = 'withdrawn'
+    returning id into application_id;
+
+  if application_id is null then
+    select id into application_id
+      from applications
+      where user_id = auth.uid() and job_id = target_job_id;
+  end if;
+
+  return application_id;
+end;
+$$;
@@ -0,0 +1,7 @@
+-- The update policy on job_matches checks whose match it is, not which
+-- columns change, so candidates could rewrite their own match percentage,
+-- job or user. They can now only update the columns the app writes: the
+-- accept/decline status and the resume version attached to the match.
+
+revoke update on public.job_matches from anon, authenticated;
+grant update (status, resume_version_id, updated_at) on public.job_matches to authenticated;
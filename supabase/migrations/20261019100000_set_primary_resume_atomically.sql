@@ -0,0 +1,35 @@
+-- Switching the primary resume took two requests, clearing the old primary
+-- and then setting the new one, so a failure between them left the
+-- candidate with no primary resume. Both updates now run in one function,
+-- and so in one transaction. resumes_one_primary_per_user_idx still makes
+-- sure a candidate never has two.
+
+create or replace function public.set_primary_resume(target_resume_id uuid)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from resumes
+    where id = target_resume_id
+      and user_id = auth.uid()
+  ) then
+    raise exception 'Resume not found';
+  end if;
+
+  -- Cleared first: the unique index is checked row by row, not at the end
+  update resumes
+  set is_primary = false
+  where user_id = auth.uid()
+    and is_primary
+    and id <> target_resume_id;
+
+  update resumes
+  set is_primary = true
+  where id = target_resume_id;
+end;
+$$;
+
+revoke execute on function public.set_primary_resume(uuid) from public, anon;
+grant execute on function public.set_primary_resume(uuid) to authenticated;
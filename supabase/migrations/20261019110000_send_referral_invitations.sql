@@ -0,0 +1,20 @@
+-- Referral invitations are now emailed by the send-referral-invitation
+-- edge function rather than from the referrer's own email client. Each is
+-- sent at most once, so the function can't be used to mail a friend over
+-- and over.
+
+alter table public.referrals
+  add column if not exists invitation_sent_at timestamptz;
+
+-- Only the edge function marks an invitation sent
+drop policy if exists "Candidates can refer friends" on public.referrals;
+
+create policy "Candidates can refer friends"
+  on public.referrals for insert
+  to authenticated
+  with check (
+    auth.uid() = referrer_id
+    and status = 'invited'
+    and referee_id is null
+    and invitation_sent_at is null
+  );
@@ -0,0 +1,13 @@
+-- The engineering flow left out the education step, so engineers were
+-- never asked for their education. It goes in before the completion step.
+
+update public.onboarding_flows
+set
+  steps = jsonb_insert(
+    steps,
+    array[(jsonb_array_length(steps) - 1)::text],
+    '{ "id": "education", "required": false }'
+  ),
+  updated_at = now()
+where role_category = 'engineering'
+  and not steps @> '[{ "id": "education" }]';
@@ -0,0 +1,10 @@
+-- A sent referral could be cancelled, made again and sent again, mailing
+-- the same friend over and over. Once its invitation is sent a referral
+-- stays, so each friend is emailed once per referrer and company.
+
+drop policy if exists "Candidates can cancel unclaimed referrals" on public.referrals;
+
+create policy "Candidates can cancel unsent referrals"
+  on public.referrals for delete
+  to authenticated
+  using (auth.uid() = referrer_id and status = 'invited' and invitation_sent_at is null);
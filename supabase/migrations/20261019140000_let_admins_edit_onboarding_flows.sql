@@ -0,0 +1,19 @@
+-- Onboarding flows could only be read, so changing one took a migration.
+-- Admins can now add, edit and remove them; the app checks each flow when
+-- it loads and falls back to its built-in one for any it can't use.
+
+create policy "Admins can add onboarding flows"
+  on public.onboarding_flows for insert
+  to authenticated
+  with check (public.has_role('admin'));
+
+create policy "Admins can update onboarding flows"
+  on public.onboarding_flows for update
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+create policy "Admins can delete onboarding flows"
+  on public.onboarding_flows for delete
+  to authenticated
+  using (public.has_role('admin'));
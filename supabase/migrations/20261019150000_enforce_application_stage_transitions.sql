@@ -0,0 +1,106 @@
+-- Recruiters could update applications freely, moving them to any stage
+-- (rejected → offer) and writing any of the stage timestamps, and
+-- candidates could apply to jobs that had closed. Stages now only move
+-- along the pipeline (APPLICATION_TRANSITIONS in src/lib/applications.ts),
+-- the stage timestamps are set here when they do, and apply_to_job only
+-- accepts open jobs.
+
+create or replace function public.enforce_application_stage()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.user_id is distinct from old.user_id
+    or new.job_id is distinct from old.job_id
+    or new.created_at is distinct from old.created_at then
+    raise exception 'Only an application''s stage can be changed';
+  end if;
+
+  if new.stage <> old.stage and not (
+    (old.stage = 'applied' and new.stage in ('screening', 'interviewing', 'rejected', 'withdrawn'))
+    or (old.stage = 'screening' and new.stage in ('interviewing', 'rejected', 'withdrawn'))
+    or (old.stage = 'interviewing' and new.stage in ('offer', 'rejected', 'withdrawn'))
+    or (old.stage = 'offer' and new.stage in ('rejected', 'withdrawn'))
+    or (old.stage = 'withdrawn' and new.stage = 'applied')
+  ) then
+    raise exception 'An application can''t move from % to %', old.stage, new.stage;
+  end if;
+
+  -- The resume and cover note are the candidate's, sent when they apply.
+  -- Deleting the resume version clears it from the application.
+  if ((new.resume_version_id is distinct from old.resume_version_id and new.resume_version_id is not null)
+    or new.cover_note is distinct from old.cover_note)
+    and not (new.stage <> old.stage and new.stage = 'applied') then
+    raise exception 'An application''s resume and cover note can only change when applying';
+  end if;
+
+  new.applied_at := case when new.stage <> old.stage and new.stage = 'applied' then now() else old.applied_at end;
+  new.screening_at := case when new.stage <> old.stage and new.stage = 'screening' then now() else old.screening_at end;
+  new.interviewing_at := case when new.stage <> old.stage and new.stage = 'interviewing' then now() else old.interviewing_at end;
+  new.offer_at := case when new.stage <> old.stage and new.stage = 'offer' then now() else old.offer_at end;
+  new.rejected_at := case when new.stage <> old.stage and new.stage = 'rejected' then now() else old.rejected_at end;
+  new.withdrawn_at := case when new.stage <> old.stage and new.stage = 'withdrawn' then now() else old.withdrawn_at end;
+  new.updated_at := now();
+
+  return new;
+end;
+$$;
+
+drop trigger if exists applications_enforce_stage on public.applications;
+create trigger applications_enforce_stage
+  before update on public.applications
+  for each row execute function public.enforce_application_stage();
+
+-- Apply the signed-in candidate to a job that's still open. Safe to call
+-- again: a withdrawn application moves back to applied, and one that's
+-- still in the pipeline is left as it is. Returns the application's id.
+create or replace function public.apply_to_job(target_job_id uuid, resume_version uuid, note text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  application_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to apply';
+  end if;
+
+  if not exists (
+    select 1 from jobs
+      where id = target_job_id
+        and status = 'open'
+        and (closes_at is null or closes_at > now())
+  ) then
+    raise exception 'This job is no longer accepting applications';
+  end if;
+
+  if resume_version is not null and not exists (
+    select 1 from resume_versions where id = resume_version and user_id = auth.uid()
+  ) then
+    raise exception 'Resume version % does not belong to you', resume_version;
+  end if;
+
+  insert into applications (user_id, job_id, stage, resume_version_id, cover_note, applied_at)
+    values (auth.uid(), target_job_id, 'applied', resume_version, nullif(trim(note), ''), now())
+    on conflict (user_id, job_id) do update
+      set stage = 'applied',
+        resume_version_id = excluded.resume_version_id,
+        cover_note = excluded.cover_note,
+        -- Named so applications_credit_referrals, an "update of applied_at"
+        -- trigger, still fires; the stage trigger sets the value
+        applied_at = excluded.applied_at
+      where applications.stage = 'withdrawn'
+    returning id into application_id;
+
+  if application_id is null then
+    select id into application_id
+      from applications
+      where user_id = auth.uid() and job_id = target_job_id;
+  end if;
+
+  return application_id;
+end;
+$$;
@@ -0,0 +1,72 @@
+-- Demo portfolio companies and open roles for local development
+
+insert into public.companies (id, name, logo_url, location, description, stage) values
+  ('00000000-0000-0000-0000-000000000101', 'Uncountable', null, 'Multiple Locations', 'Accelerating Industrial R&D with AI and machine learning to optimize experimental workflows.', 'early_stage'),
+  ('00000000-0000-0000-0000-000000000102', 'TechFlow', null, 'San Francisco, CA', 'Building next-generation developer tools to streamline software engineering workflows.', 'late_stage'),
+  ('00000000-0000-0000-0000-000000000103', 'HealthCare (YC)', null, 'San Francisco, CA', 'AI-powered solutions for Health Systems improving patient outcomes and operational efficiency.', 'early_stage')
+on conflict (id) do nothing;
+
+update public.companies set
+  size = 'startup',
+  industry = 'Industrial R&D software',
+  funding_round = 'series_a',
+  funding_total = 12000000,
+  tech_stack = array['TypeScript', 'React', 'Python', 'PostgreSQL'],
+  culture_notes = array['Fully remote, with an offsite twice a year', 'Engineers talk to scientists every week']
+where id = '00000000-0000-0000-0000-000000000101';
+
+update public.companies set
+  size = 'midsize',
+  industry = 'Developer tools',
+  funding_round = 'series_c',
+  funding_total = 85000000,
+  tech_stack = array['Go', 'TypeScript', 'Kubernetes'],
+  culture_notes = array['Three days a week in the San Francisco office', 'Written design docs before big changes']
+where id = '00000000-0000-0000-0000-000000000102';
+
+update public.companies set
+  size = 'small',
+  industry = 'Healthcare',
+  funding_round = 'seed',
+  funding_total = 4000000,
+  tech_stack = array['Python', 'React', 'AWS'],
+  culture_notes = array['Small team working closely with hospital staff']
+where id = '00000000-0000-0000-0000-000000000103';
+
+insert into public.jobs (id, company_id, title, role_ids, locations, remote_policy, employment_type, skills, salary_min, salary_max, seniority) values
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000101', 'Senior Frontend Engineer', array['frontend'], array[]::text[], 'remote', 'full_time', array['React', 'TypeScript', 'UI/UX'], 120000, 180000, 'senior'),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000102', 'Product Manager', array['pm'], array['San Francisco, CA'], 'hybrid', 'full_time', array['Communication', 'Problem Solving'], 150000, 200000, 'mid'),
+  ('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-000000000103', 'Engineering Manager', array['eng_manager'], array['San Francisco, CA'], 'office', 'full_time', array['System Design', 'Communication'], 190000, 240000, 'lead')
+on conflict (id) do nothing;
+
+update public.jobs set
+  description = 'Own the interfaces scientists use to plan and analyse experiments, from design system to data-heavy dashboards.',
+  experience_min_years = 3,
+  experience_max_years = 5,
+  requirements = array[
+    '3+ years of experience in frontend development',
+    'Strong proficiency in React and TypeScript',
+    'Experience with modern frontend build tools and workflows',
+    'Understanding of UI/UX principles'
+  ],
+  nice_to_haves = array['Experience visualising scientific or time-series data'],
+  benefits = array['Fully remote team', 'Equity', 'Annual learning budget']
+where id = '00000000-0000-0000-0000-000000000001';
+
+update public.jobs set
+  description = 'Lead the roadmap for our developer tools, working closely with engineering and design.',
+  experience_min_years = 2,
+  experience_max_years = 4,
+  requirements = array['2+ years of product management experience', 'Comfortable reading code and talking to developers'],
+  nice_to_haves = array['A background in software engineering'],
+  benefits = array['Health, dental and vision', 'Equity']
+where id = '00000000-0000-0000-0000-000000000002';
+
+update public.jobs set
+  description = 'Grow and lead the team building our clinical operations platform.',
+  experience_min_years = 6,
+  requirements = array['2+ years managing engineering teams', 'Experience designing distributed systems'],
+  nice_to_haves = array['Experience in healthcare or other regulated industries'],
+  benefits = array['Health, dental and vision', 'Equity', 'Parental leave'],
+  closes_at = now() + interval '30 days'
+where id = '00000000-0000-0000-0000-000000000003';